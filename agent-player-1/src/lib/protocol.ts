@@ -58,6 +58,7 @@ export const signupInvitationSchema = z.object({
   buyInChips: z.number().positive(),
   smallBlind: z.number().positive().optional(),
   bigBlind: z.number().positive().optional(),
+  payoutChallenge: z.string().min(32),
 });
 export type SignupInvitation = z.infer<typeof signupInvitationSchema>;
 
@@ -66,5 +67,7 @@ const evmAddressSchema = z.string().regex(/^0x[a-fA-F0-9]{40}$/);
 export const playerSignupResponseSchema = z.object({
   displayName: z.string().min(1),
   payoutAddress: evmAddressSchema,
+  payoutSignature: z.string().regex(/^0x[a-fA-F0-9]+$/),
+  clientSeed: z.string().min(1).max(128).optional(),
 });
 export type PlayerSignupResponse = z.infer<typeof playerSignupResponseSchema>;
@@ -3,6 +3,8 @@ import { http } from "@lucid-agents/http";
 import { a2a } from "@lucid-agents/a2a";
 import { createAgentApp } from "@lucid-agents/hono";
 import { createAxLLMClient } from "@lucid-agents/core/axllm";
+import { privateKeyToAccount } from "viem/accounts";
+import { randomBytes } from "crypto";
 
 import {
   ActionRequest,
@@ -14,11 +16,18 @@ import {
 } from "./protocol";
 
 const playerName = process.env.PLAYER_DISPLAY_NAME ?? "Player Two";
+const payoutPrivateKey = (process.env.PAYOUT_PRIVATE_KEY ?? process.env.PRIVATE_KEY)?.trim() ?? "";
+if (!/^0x[a-fA-F0-9]{64}$/.test(payoutPrivateKey)) {
+  throw new Error(
+    "Set PAYOUT_PRIVATE_KEY (or PRIVATE_KEY) to the key of the wallet that should receive payouts."
+  );
+}
+const payoutAccount = privateKeyToAccount(payoutPrivateKey as `0x${string}`);
 const payoutAddress =
-  (process.env.PAYOUT_ADDRESS ?? process.env.PAYMENTS_RECEIVABLE_ADDRESS)?.trim() ?? "";
-if (!/^0x[a-fA-F0-9]{40}$/.test(payoutAddress)) {
+  (process.env.PAYOUT_ADDRESS ?? process.env.PAYMENTS_RECEIVABLE_ADDRESS)?.trim() || payoutAccount.address;
+if (payoutAddress.toLowerCase() !== payoutAccount.address.toLowerCase()) {
   throw new Error(
-    "Set PAYOUT_ADDRESS or PAYMENTS_RECEIVABLE_ADDRESS to the wallet that should receive payouts."
+    `PAYOUT_ADDRESS ${payoutAddress} does not match the payout key's address ${payoutAccount.address}.`
   );
 }
 const aggressionFactor = process.env.PLAYER_AGGRESSION
@@ -92,11 +101,16 @@ addEntrypoint({
   input: signupInvitationSchema,
   output: playerSignupResponseSchema,
   handler: async (ctx) => {
-    signupInvitationSchema.parse(ctx.input);
+    const invitation = signupInvitationSchema.parse(ctx.input);
+    const payoutSignature = await payoutAccount.signMessage({
+      message: `${invitation.casinoName} payout address for room ${invitation.roomId}\nChallenge: ${invitation.payoutChallenge}`,
+    });
     return {
       output: {
         displayName: playerName,
         payoutAddress,
+        payoutSignature,
+        clientSeed: randomBytes(16).toString("hex"),
       },
     };
   },
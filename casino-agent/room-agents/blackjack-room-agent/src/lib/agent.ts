@@ -5,6 +5,8 @@ import { createAgentApp } from '@lucid-agents/hono';
 import { cors } from 'hono/cors';
 
 import {
+  cashOutPlayerInputSchema,
+  cashOutPlayerResultSchema,
   configureRoomInputSchema,
   registerPlayerInputSchema,
   registerPlayerResultSchema,
@@ -54,7 +56,7 @@ addEntrypoint({
 
 addEntrypoint({
   key: 'startRoom',
-  description: 'Run one or more blackjack rounds.',
+  description: 'Start a background session of blackjack rounds and return its session id.',
   input: startGameInputSchema,
   output: roomSummarySchema,
   handler: async (ctx) => {
@@ -63,6 +65,17 @@ addEntrypoint({
   },
 });
 
+addEntrypoint({
+  key: 'cashOutPlayer',
+  description: 'Unseat a player between sessions and return their final stack.',
+  input: cashOutPlayerInputSchema,
+  output: cashOutPlayerResultSchema,
+  handler: async (ctx) => {
+    const result = await roomEngine.cashOutPlayer(ctx.input);
+    return { output: result };
+  },
+});
+
 addEntrypoint({
   key: 'roomSummary',
   description: 'Inspect room status.',
@@ -3,16 +3,23 @@ import type { AgentCard, A2ARuntime } from '@lucid-agents/types/a2a';
 import { randomUUID } from 'crypto';
 
 import {
+  CashOutPlayerInput,
+  CashOutPlayerResult,
   BlackjackRoomConfig,
   ConfigureRoomInput,
   RegisterPlayerInput,
   RegisterPlayerResult,
   RoomEvent,
+  RoomSession,
   RoomSummary,
   StartGameInput,
+  cashOutPlayerResultSchema,
   registerPlayerResultSchema,
   roomSummarySchema,
 } from './protocol';
+import { signRoomEvent } from './event-signature';
+import { FairRound, createFairRound } from './provably-fair';
+import type { Rng } from './rng';
 
 const CHIP_EPSILON = 1e-6;
 type RoomStatus = 'waiting' | 'running' | 'idle' | 'error';
@@ -26,6 +33,7 @@ interface RegisteredPlayer {
   actionSkill: string;
   agentCardUrl: string;
   stack: number;
+  clientSeed: string;
   card: AgentCard;
 }
 
@@ -37,13 +45,17 @@ export class BlackjackRoom {
   private readonly runtime: RoomRuntime;
   private roomId: string;
   private roomConfig?: BlackjackRoomConfig;
-  private casinoCallback?: { card: AgentCard; eventSkill: string };
+  private casinoCallback?: { card: AgentCard; eventSkill: string; eventSecret: string };
   private casinoName = 'casino-agent';
   private status: RoomStatus = 'waiting';
   private players = new Map<string, RegisteredPlayer>();
   private roundCount = 0;
+  private handCount = 0;
   private lastMessage?: string;
+  private session?: RoomSession;
   private readonly eventLog: RoomEvent[] = [];
+  private eventSequence = 0;
+  private readonly cashOuts = new Map<string, CashOutPlayerResult>();
 
   constructor(runtime: RoomRuntime, roomId: string) {
     this.runtime = runtime;
@@ -57,13 +69,20 @@ export class BlackjackRoom {
 
     const a2a = this.requireA2ARuntime();
     const casinoCard = await a2a.fetchCard(input.casinoCallback.agentCardUrl);
-    this.casinoCallback = { card: casinoCard, eventSkill: input.casinoCallback.eventSkill };
+    this.casinoCallback = {
+      card: casinoCard,
+      eventSkill: input.casinoCallback.eventSkill,
+      eventSecret: input.casinoCallback.eventSecret,
+    };
 
     this.status = 'waiting';
     this.players.clear();
     this.roundCount = 0;
+    this.handCount = 0;
     this.lastMessage = undefined;
+    this.session = undefined;
     this.eventLog.length = 0;
+    this.eventSequence = 0;
 
     await this.publishEvent('room_status', `Blackjack room ${this.roomId} configured.`, {
       casinoName: this.casinoName,
@@ -87,6 +106,7 @@ export class BlackjackRoom {
         })),
       handCount: this.roundCount,
       message: this.lastMessage,
+      session: this.session,
     };
 
     return roomSummarySchema.parse(summary);
@@ -121,6 +141,7 @@ export class BlackjackRoom {
       actionSkill: input.actionSkill,
       agentCardUrl: input.agentCardUrl,
       stack: input.startingStack,
+      clientSeed: input.clientSeed ?? input.playerId,
       card,
     };
 
@@ -142,6 +163,31 @@ export class BlackjackRoom {
     return registerPlayerResultSchema.parse(result);
   }
 
+  public async cashOutPlayer(input: CashOutPlayerInput): Promise<CashOutPlayerResult> {
+    // The lobby retries a cash-out it could not record, so a departed player gets the stack they left with.
+    const previous = this.cashOuts.get(input.playerId);
+    if (previous) {
+      return previous;
+    }
+    if (this.status === 'running') {
+      throw new Error('Players cannot cash out while a session is running.');
+    }
+    const player = this.players.get(input.playerId);
+    if (!player) {
+      throw new Error(`Player ${input.playerId} is not seated in room ${this.roomId}.`);
+    }
+    this.players.delete(player.id);
+    const stack = Number(Math.max(player.stack, 0).toFixed(4));
+    const result = cashOutPlayerResultSchema.parse({ playerId: player.id, displayName: player.displayName, stack });
+    this.cashOuts.set(player.id, result);
+    await this.publishEvent('room_status', `${player.displayName} left the blackjack table with ${stack} credits.`, {
+      playerId: player.id,
+      stack,
+      cashedOut: true,
+    });
+    return result;
+  }
+
   public async startGame(input?: StartGameInput): Promise<RoomSummary> {
     const config = this.requireConfig();
     if (!this.players.size) {
@@ -156,15 +202,30 @@ export class BlackjackRoom {
 
     this.status = 'running';
     this.lastMessage = undefined;
-    await this.publishEvent(
-      'hand_started',
-      `Starting ${roundsRequested} round${roundsRequested === 1 ? '' : 's'} at ${this.roomId}.`,
-      { roundsRequested },
-    );
+    this.session = {
+      sessionId: randomUUID(),
+      status: 'running',
+      startedAt: new Date().toISOString(),
+    };
+    void this.runSession(config, orderedPlayers, roundsRequested, this.session);
+    return this.getSummary();
+  }
 
+  private async runSession(
+    config: BlackjackRoomConfig,
+    orderedPlayers: RegisteredPlayer[],
+    roundsRequested: number,
+    session: RoomSession,
+  ): Promise<void> {
+    const { sessionId } = session;
     let roundsCompleted = 0;
 
     try {
+      await this.publishEvent(
+        'hand_started',
+        `Starting ${roundsRequested} round${roundsRequested === 1 ? '' : 's'} at ${this.roomId}.`,
+        { sessionId, roundsRequested, rngSeed: config.rngSeed },
+      );
       for (let round = 0; round < roundsRequested; round += 1) {
         let active = false;
         for (const player of orderedPlayers) {
@@ -173,7 +234,8 @@ export class BlackjackRoom {
           }
           active = true;
           const bet = this.determineBet(player.stack, config);
-          const outcome = this.resolveHand(config);
+          const fairRound = await this.commitRound(player, config.rngSeed);
+          const outcome = this.resolveHand(config, fairRound.random);
           const delta = this.applyOutcome(player, bet, outcome, config.blackjackPayout);
           const payload = {
             playerId: player.id,
@@ -181,10 +243,14 @@ export class BlackjackRoom {
             bet,
             outcome,
             delta,
+            nonce: fairRound.commitment.nonce,
             stack: Number(player.stack.toFixed(2)),
           };
           const description = this.describeOutcome(player.displayName, outcome, bet, delta);
           await this.publishEvent('action_taken', description, payload);
+          await this.publishEvent('hand_completed', `Hand ${fairRound.reveal.nonce} server seed revealed.`, {
+            fairness: fairRound.reveal,
+          });
           if (player.stack <= CHIP_EPSILON) {
             player.stack = 0;
             await this.publishEvent('player_busted', `${player.displayName} is out of chips.`, {
@@ -201,21 +267,28 @@ export class BlackjackRoom {
 
       this.status = 'idle';
       this.lastMessage = `Completed ${roundsCompleted} round${roundsCompleted === 1 ? '' : 's'}.`;
+      this.finishSession(session, 'completed');
       await this.publishEvent('hand_completed', this.lastMessage, {
+        sessionId,
         roundsCompleted,
       });
     } catch (error) {
+      console.error(`[blackjack-room] Session ${sessionId} failed:`, error);
       this.status = 'error';
       this.lastMessage = error instanceof Error ? error.message : 'Unknown blackjack error.';
-      await this.publishEvent('room_error', this.lastMessage);
-      throw error;
+      this.finishSession(session, 'failed', this.lastMessage);
+      await this.publishEvent('room_error', this.lastMessage, { sessionId });
     } finally {
       if (this.status === 'running') {
         this.status = 'idle';
       }
     }
+  }
 
-    return this.getSummary();
+  private finishSession(session: RoomSession, status: RoomSession['status'], error?: string): void {
+    session.status = status;
+    session.finishedAt = new Date().toISOString();
+    session.error = error;
   }
 
   private determineBet(stack: number, config: BlackjackRoomConfig): number {
@@ -223,8 +296,19 @@ export class BlackjackRoom {
     return Number(Math.min(bet, stack).toFixed(2));
   }
 
-  private resolveHand(config: BlackjackRoomConfig): HandOutcome {
-    const roll = Math.random();
+  private async commitRound(player: RegisteredPlayer, rngSeed?: string): Promise<FairRound> {
+    this.handCount += 1;
+    const round = createFairRound(player.clientSeed, this.handCount, rngSeed);
+    await this.publishEvent(
+      'hand_started',
+      `Hand ${this.handCount} committed to server seed hash ${round.commitment.serverSeedHash.slice(0, 12)}.`,
+      { playerId: player.id, fairness: round.commitment },
+    );
+    return round;
+  }
+
+  private resolveHand(config: BlackjackRoomConfig, rng: Rng): HandOutcome {
+    const roll = rng.random();
     const blackjackChance = Math.min(0.05 * config.deckCount, 0.15);
     const winChance = 0.45;
     const pushChance = 0.15;
@@ -306,18 +390,17 @@ export class BlackjackRoom {
   }
 
   private async publishEvent(eventType: RoomEvent['eventType'], message: string, payload?: Record<string, unknown>) {
+    this.eventSequence += 1;
     const event: RoomEvent = {
       roomId: this.roomId,
       eventType,
       message,
       timestamp: new Date().toISOString(),
       payload,
+      roomSequence: this.eventSequence,
     };
 
     this.eventLog.push(event);
-    if (this.eventLog.length > 200) {
-      this.eventLog.shift();
-    }
 
     await this.sendCasinoEvent(event);
   }
@@ -328,7 +411,10 @@ export class BlackjackRoom {
     }
     try {
       const a2a = this.requireA2ARuntime();
-      await a2a.client.invoke(this.casinoCallback.card, this.casinoCallback.eventSkill, event);
+      await a2a.client.invoke(this.casinoCallback.card, this.casinoCallback.eventSkill, {
+        ...event,
+        signature: signRoomEvent(this.casinoCallback.eventSecret, event),
+      });
     } catch (error) {
       console.warn('[blackjack-room] Failed to emit casino event', error);
     }
@@ -8,12 +8,14 @@ export const blackjackRoomConfigSchema = z.object({
   blackjackPayout: z.number().positive().default(1.5),
   roundsPerSession: z.number().int().min(1).max(50),
   deckCount: z.number().int().min(1).max(8),
+  rngSeed: z.string().min(1).max(128).optional(),
 });
 export type BlackjackRoomConfig = z.infer<typeof blackjackRoomConfigSchema>;
 
 export const casinoCallbackSchema = z.object({
   agentCardUrl: z.string().url(),
   eventSkill: z.string().min(1),
+  eventSecret: z.string().min(32),
 });
 export type CasinoCallback = z.infer<typeof casinoCallbackSchema>;
 
@@ -33,12 +35,22 @@ export const playerSeatSchema = z.object({
 });
 export type PlayerSeatSummary = z.infer<typeof playerSeatSchema>;
 
+export const roomSessionSchema = z.object({
+  sessionId: z.string(),
+  status: z.enum(['running', 'completed', 'failed']),
+  startedAt: z.string(),
+  finishedAt: z.string().optional(),
+  error: z.string().optional(),
+});
+export type RoomSession = z.infer<typeof roomSessionSchema>;
+
 export const roomSummarySchema = z.object({
   roomId: z.string(),
   status: z.enum(['waiting', 'running', 'idle', 'error', 'ended']),
   handCount: z.number().int().nonnegative(),
   players: z.array(playerSeatSchema),
   message: z.string().optional(),
+  session: roomSessionSchema.optional(),
 });
 export type RoomSummary = z.infer<typeof roomSummarySchema>;
 
@@ -49,6 +61,7 @@ export const registerPlayerInputSchema = z.object({
   actionSkill: z.string().min(1),
   startingStack: z.number().positive(),
   preferredSeat: z.number().int().nonnegative().optional(),
+  clientSeed: z.string().min(1).max(128).optional(),
 });
 export type RegisterPlayerInput = z.infer<typeof registerPlayerInputSchema>;
 
@@ -60,6 +73,18 @@ export const registerPlayerResultSchema = z.object({
 });
 export type RegisterPlayerResult = z.infer<typeof registerPlayerResultSchema>;
 
+export const cashOutPlayerInputSchema = z.object({
+  playerId: z.string(),
+});
+export type CashOutPlayerInput = z.infer<typeof cashOutPlayerInputSchema>;
+
+export const cashOutPlayerResultSchema = z.object({
+  playerId: z.string(),
+  displayName: z.string(),
+  stack: z.number().nonnegative(),
+});
+export type CashOutPlayerResult = z.infer<typeof cashOutPlayerResultSchema>;
+
 export const startGameInputSchema = z.object({
   rounds: z.number().int().positive().max(100).optional(),
 });
@@ -80,5 +105,6 @@ export const roomEventSchema = z.object({
   message: z.string(),
   timestamp: z.string(),
   payload: z.record(z.string(), z.any()).optional(),
+  roomSequence: z.number().int().positive().optional(),
 });
 export type RoomEvent = z.infer<typeof roomEventSchema>;
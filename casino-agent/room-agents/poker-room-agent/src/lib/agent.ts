@@ -8,6 +8,7 @@ import {
   configureRoomInputSchema,
   registerPlayerInputSchema,
   registerPlayerResultSchema,
+  restoreRoomInputSchema,
   startGameInputSchema,
   roomSummarySchema,
 } from './protocol';
@@ -54,7 +55,7 @@ addEntrypoint({
 
 addEntrypoint({
   key: 'startRoom',
-  description: 'Start one or more hands with the current roster.',
+  description: 'Start a background session with the current roster and return its session id.',
   input: startGameInputSchema,
   output: roomSummarySchema,
   handler: async (ctx) => {
@@ -63,6 +64,17 @@ addEntrypoint({
   },
 });
 
+addEntrypoint({
+  key: 'restoreRoom',
+  description: 'Restore the room from a completed-hand snapshot and resume its running session.',
+  input: restoreRoomInputSchema,
+  output: roomSummarySchema,
+  handler: async (ctx) => {
+    const summary = await roomEngine.restore(ctx.input);
+    return { output: summary };
+  },
+});
+
 addEntrypoint({
   key: 'roomSummary',
   description: 'Inspect room status.',
@@ -1,4 +1,5 @@
 import type { Card, Rank, Suit } from './protocol';
+import { cryptoRng, type Rng } from './rng';
 
 const ranks: Rank[] = ['2', '3', '4', '5', '6', '7', '8', '9', 'T', 'J', 'Q', 'K', 'A'];
 const suits: Suit[] = ['hearts', 'diamonds', 'clubs', 'spades'];
@@ -13,9 +14,9 @@ export const createDeck = (): Card[] => {
   return deck;
 };
 
-export const shuffleDeck = (deck: Card[], random = Math.random): Card[] => {
+export const shuffleDeck = (deck: Card[], rng: Rng = cryptoRng): Card[] => {
   for (let i = deck.length - 1; i > 0; i -= 1) {
-    const j = Math.floor(random() * (i + 1));
+    const j = rng.randomInt(i + 1);
     [deck[i], deck[j]] = [deck[j], deck[i]];
   }
   return deck;
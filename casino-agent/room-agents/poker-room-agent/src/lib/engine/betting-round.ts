@@ -1,7 +1,7 @@
 import assert from 'assert';
 import { ChipRange } from './chip-range';
 import { Round, RoundActionFlag } from './round';
-import type { Chips, SeatArray, SeatIndex } from './types';
+import type { BettingRoundSnapshot, Chips, SeatArray, SeatIndex, SeatPlayerResolver } from './types';
 import { Player } from './player';
 
 export enum BettingActionFlag {
@@ -16,7 +16,7 @@ export class BettingActionRange {
 
 export class BettingRound {
   private readonly players: SeatArray<Player>;
-  private readonly round: Round;
+  private round: Round;
   private biggestBet: Chips;
   private minRaise: Chips;
 
@@ -29,6 +29,22 @@ export class BettingRound {
     this.minRaise = minRaise;
   }
 
+  static fromSnapshot(snapshot: BettingRoundSnapshot, resolvePlayer: SeatPlayerResolver): BettingRound {
+    const players = snapshot.players.map((player, seat) => (player ? resolvePlayer(seat, player) : null));
+    const bettingRound = new BettingRound(players, snapshot.round.playerToAct, snapshot.minRaise, snapshot.biggestBet);
+    bettingRound.round = Round.fromSnapshot(snapshot.round);
+    return bettingRound;
+  }
+
+  toSnapshot(): BettingRoundSnapshot {
+    return {
+      players: this.players.map((player) => player?.toSnapshot() ?? null),
+      round: this.round.toSnapshot(),
+      biggestBet: this.biggestBet,
+      minRaise: this.minRaise,
+    };
+  }
+
   inProgress(): boolean {
     return this.round.inProgress();
   }
@@ -2,7 +2,15 @@ import assert from 'assert';
 import { Deck } from './deck';
 import { CommunityCards, RoundOfBetting, nextRound } from './community-cards';
 import { BettingRound, BettingActionFlag } from './betting-round';
-import type { Chips, ForcedBets, HoleCards, SeatArray, SeatIndex } from './types';
+import type {
+  Chips,
+  DealerSnapshot,
+  ForcedBets,
+  HoleCards,
+  SeatArray,
+  SeatIndex,
+  SeatPlayerResolver,
+} from './types';
 import { PotManager } from './pot-manager';
 import { Pot } from './pot';
 import { Player } from './player';
@@ -47,7 +55,7 @@ export class Dealer {
   private handRunning = false;
   private bettingRoundIndex: RoundOfBetting = RoundOfBetting.PREFLOP;
   private completedBettingRounds = false;
-  private readonly potManager = new PotManager();
+  private potManager = new PotManager();
   private winners: PotResolution[] = [];
 
   constructor(players: SeatArray<Player>, button: SeatIndex, forcedBets: ForcedBets, deck: Deck, communityCards: CommunityCards, numSeats: number) {
@@ -61,10 +69,56 @@ export class Dealer {
     assert(this.communityCards.cardsSnapshot().length === 0, 'Community cards must be empty');
   }
 
+  public static fromSnapshot(
+    snapshot: DealerSnapshot,
+    communityCards: CommunityCards,
+    numSeats: number,
+    resolvePlayer: SeatPlayerResolver,
+    players?: SeatArray<Player>,
+  ): Dealer {
+    const dealer = new Dealer(
+      players ?? snapshot.players.map((player, seat) => (player ? resolvePlayer(seat, player) : null)),
+      snapshot.buttonSeat,
+      snapshot.forcedBets,
+      new Deck(),
+      communityCards,
+      numSeats,
+    );
+    communityCards.deal(snapshot.communityCards);
+    snapshot.holeCards.forEach((cards, seat) => {
+      dealer.holeCards[seat] = cards ? [cards[0], cards[1]] : null;
+    });
+    dealer.bettingRound = snapshot.bettingRound
+      ? BettingRound.fromSnapshot(snapshot.bettingRound, resolvePlayer)
+      : null;
+    dealer.deck = Deck.fromSnapshot(snapshot.deck);
+    dealer.handRunning = snapshot.handRunning;
+    dealer.bettingRoundIndex = snapshot.roundOfBetting as RoundOfBetting;
+    dealer.completedBettingRounds = snapshot.completedBettingRounds;
+    dealer.potManager = PotManager.fromSnapshot(snapshot.potManager);
+    return dealer;
+  }
+
   public static isAggressive(action: DealerAction): boolean {
     return !!(action & DealerAction.BET) || !!(action & DealerAction.RAISE);
   }
 
+  toSnapshot(): DealerSnapshot {
+    return {
+      buttonSeat: this.buttonSeat,
+      forcedBets: this.forcedBets,
+      players: this.players.map((player) => player?.toSnapshot() ?? null),
+      holeCards: this.holeCards.map((cards) => (cards ? [cards[0], cards[1]] : null)),
+      communityCards: this.communityCards.cardsSnapshot(),
+      bettingRound: this.bettingRound?.toSnapshot() ?? null,
+      deck: this.deck.toSnapshot(),
+      handRunning: this.handRunning,
+      roundOfBetting: this.bettingRoundIndex,
+      completedBettingRounds: this.completedBettingRounds,
+      potManager: this.potManager.toSnapshot(),
+    };
+  }
+
   handInProgress(): boolean {
     return this.handRunning;
   }
@@ -1,18 +1,33 @@
 import { shuffleInPlace } from './utils';
 import { createDeck } from '../cards';
 import type { Card } from '../protocol';
+import type { Rng } from '../rng';
+import type { DeckSnapshot } from './types';
 
 export class Deck {
   private cards: Card[] = [];
   private remaining = 0;
+  private readonly rng?: Rng;
 
-  constructor() {
+  constructor(rng?: Rng) {
+    this.rng = rng;
     this.fillAndShuffle();
   }
 
+  public static fromSnapshot(snapshot: DeckSnapshot): Deck {
+    const deck = new Deck();
+    deck.cards = [...snapshot.cards];
+    deck.remaining = snapshot.remaining;
+    return deck;
+  }
+
+  public toSnapshot(): DeckSnapshot {
+    return { cards: [...this.cards], remaining: this.remaining };
+  }
+
   public fillAndShuffle(): void {
     this.cards = createDeck();
-    shuffleInPlace(this.cards);
+    shuffleInPlace(this.cards, this.rng);
     this.remaining = this.cards.length;
   }
 
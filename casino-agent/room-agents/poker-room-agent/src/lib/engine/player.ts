@@ -1,5 +1,5 @@
 import assert from 'assert';
-import type { Chips } from './types';
+import type { Chips, PlayerSnapshot } from './types';
 
 export class Player {
   private total: Chips;
@@ -16,6 +16,16 @@ export class Player {
     }
   }
 
+  static fromSnapshot(snapshot: PlayerSnapshot): Player {
+    const player = new Player(snapshot.totalChips);
+    player.betSizeValue = snapshot.betSize;
+    return player;
+  }
+
+  toSnapshot(): PlayerSnapshot {
+    return { totalChips: this.total, betSize: this.betSizeValue };
+  }
+
   stack(): Chips {
     return this.total - this.betSizeValue;
   }
@@ -1,11 +1,22 @@
-import type { SeatArray, Chips } from './types';
+import type { SeatArray, Chips, PotManagerSnapshot } from './types';
 import { Pot } from './pot';
 import type { Player } from './player';
 
 export class PotManager {
-  private readonly potsValue: Pot[] = [new Pot()];
+  private potsValue: Pot[] = [new Pot()];
   private aggregateFoldedBets: Chips = 0;
 
+  static fromSnapshot(snapshot: PotManagerSnapshot): PotManager {
+    const manager = new PotManager();
+    manager.potsValue = snapshot.pots.map((pot) => Pot.fromSnapshot(pot));
+    manager.aggregateFoldedBets = snapshot.foldedBets;
+    return manager;
+  }
+
+  toSnapshot(): PotManagerSnapshot {
+    return { pots: this.potsValue.map((pot) => pot.toSnapshot()), foldedBets: this.aggregateFoldedBets };
+  }
+
   pots(): Pot[] {
     return this.potsValue;
   }
@@ -1,11 +1,22 @@
 import assert from 'assert';
-import type { Chips, SeatArray, SeatIndex } from './types';
+import type { Chips, PotSnapshot, SeatArray, SeatIndex } from './types';
 import type { Player } from './player';
 
 export class Pot {
   private eligible: SeatIndex[] = [];
   private sizeValue: Chips = 0;
 
+  static fromSnapshot(snapshot: PotSnapshot): Pot {
+    const pot = new Pot();
+    pot.eligible = [...snapshot.eligiblePlayers];
+    pot.sizeValue = snapshot.size;
+    return pot;
+  }
+
+  toSnapshot(): PotSnapshot {
+    return { size: this.sizeValue, eligiblePlayers: [...this.eligible] };
+  }
+
   size(): Chips {
     return this.sizeValue;
   }
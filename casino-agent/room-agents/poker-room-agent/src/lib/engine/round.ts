@@ -1,5 +1,5 @@
 import assert from 'assert';
-import type { SeatIndex } from './types';
+import type { RoundSnapshot, SeatIndex } from './types';
 
 export enum RoundActionFlag {
   LEAVE = 1 << 0,
@@ -23,6 +23,24 @@ export class Round {
     this.activeCount = activePlayers.filter(Boolean).length;
   }
 
+  static fromSnapshot(snapshot: RoundSnapshot): Round {
+    const round = new Round([...snapshot.active], snapshot.playerToAct);
+    round.lastAggressive = snapshot.lastAggressive;
+    round.contested = snapshot.contested;
+    round.firstAction = snapshot.firstAction;
+    return round;
+  }
+
+  toSnapshot(): RoundSnapshot {
+    return {
+      active: [...this.activePlayers],
+      playerToAct: this.playerIndex,
+      lastAggressive: this.lastAggressive,
+      contested: this.contested,
+      firstAction: this.firstAction,
+    };
+  }
+
   active(): boolean[] {
     return this.activePlayers;
   }
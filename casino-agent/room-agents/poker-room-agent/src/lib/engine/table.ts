@@ -1,10 +1,11 @@
 import assert from 'assert';
-import type { Chips, ForcedBets, SeatArray, SeatIndex } from './types';
+import type { Chips, ForcedBets, SeatArray, SeatIndex, SeatPlayerResolver, TableSnapshot } from './types';
 import { Player } from './player';
 import { Deck } from './deck';
 import { CommunityCards, RoundOfBetting } from './community-cards';
 import { Dealer, DealerAction, DealerActionRange, PotResolution } from './dealer';
 import type { Card } from '../protocol';
+import type { Rng } from '../rng';
 
 export class Table {
   private readonly numSeats: number;
@@ -23,6 +24,49 @@ export class Table {
     this.tablePlayers = new Array(numSeats).fill(null);
   }
 
+  public static fromSnapshot(snapshot: TableSnapshot): Table {
+    const table = new Table(snapshot.forcedBets, snapshot.numSeats);
+    table.tablePlayers = snapshot.players.map((player) => (player ? Player.fromSnapshot(player) : null));
+    table.buttonSeat = snapshot.buttonSeat;
+    table.handCounter = snapshot.handCount;
+    if (snapshot.hand) {
+      const seatPlayers = new Map<SeatIndex, Player>();
+      const resolvePlayer: SeatPlayerResolver = (seat, player) => {
+        const existing = seatPlayers.get(seat) ?? Player.fromSnapshot(player);
+        seatPlayers.set(seat, existing);
+        return existing;
+      };
+      table.handPlayers = snapshot.hand.players.map((player, seat) => (player ? resolvePlayer(seat, player) : null));
+      table.communityCards = new CommunityCards();
+      table.dealer = Dealer.fromSnapshot(
+        snapshot.hand.dealer,
+        table.communityCards,
+        snapshot.numSeats,
+        resolvePlayer,
+        snapshot.hand.dealerSharesPlayers ? table.handPlayers : undefined,
+      );
+    }
+    return table;
+  }
+
+  public toSnapshot(): TableSnapshot {
+    return {
+      numSeats: this.numSeats,
+      forcedBets: this.forcedBets,
+      players: this.tablePlayers.map((player) => player?.toSnapshot() ?? null),
+      buttonSeat: this.buttonSeat,
+      handCount: this.handCounter,
+      hand:
+        this.handPlayers && this.dealer
+          ? {
+              players: this.handPlayers.map((player) => player?.toSnapshot() ?? null),
+              dealerSharesPlayers: this.dealer.bettingRoundPlayers() === this.handPlayers,
+              dealer: this.dealer.toSnapshot(),
+            }
+          : undefined,
+    };
+  }
+
   public sitDown(seat: SeatIndex, buyIn: Chips): void {
     assert(seat >= 0 && seat < this.numSeats, 'Seat index out of range');
     assert(this.tablePlayers[seat] === null, 'Seat already occupied');
@@ -61,14 +105,14 @@ export class Table {
     );
   }
 
-  public startHand(): void {
+  public startHand(rng?: Rng): void {
     assert(!this.handInProgress(), 'Hand already in progress');
     const seated = this.tablePlayers.filter((player) => player !== null);
     assert(seated.length >= 2, 'Need at least two players');
 
     this.handPlayers = this.tablePlayers.map((player) => (player ? new Player(player) : null));
     this.communityCards = new CommunityCards();
-    const deck = new Deck();
+    const deck = new Deck(rng);
     this.advanceButton();
     this.dealer = new Dealer(
       this.handPlayers,
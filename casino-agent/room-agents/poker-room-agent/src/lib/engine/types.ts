@@ -25,6 +25,65 @@ export type PotSnapshot = {
 
 export type HoleCards = [Card, Card];
 
+export type PlayerSnapshot = {
+  totalChips: Chips;
+  betSize: Chips;
+};
+
+export type PotManagerSnapshot = {
+  pots: PotSnapshot[];
+  foldedBets: Chips;
+};
+
+export type RoundSnapshot = {
+  active: boolean[];
+  playerToAct: SeatIndex;
+  lastAggressive: SeatIndex;
+  contested: boolean;
+  firstAction: boolean;
+};
+
+export type BettingRoundSnapshot = {
+  players: SeatArray<PlayerSnapshot>;
+  round: RoundSnapshot;
+  biggestBet: Chips;
+  minRaise: Chips;
+};
+
+export type DeckSnapshot = {
+  cards: Card[];
+  remaining: number;
+};
+
+export type DealerSnapshot = {
+  buttonSeat: SeatIndex;
+  forcedBets: ForcedBets;
+  players: SeatArray<PlayerSnapshot>;
+  holeCards: (HoleCards | null)[];
+  communityCards: Card[];
+  bettingRound: BettingRoundSnapshot | null;
+  deck: DeckSnapshot;
+  handRunning: boolean;
+  roundOfBetting: number;
+  completedBettingRounds: boolean;
+  potManager: PotManagerSnapshot;
+};
+
+export type TableSnapshot = {
+  numSeats: number;
+  forcedBets: ForcedBets;
+  players: SeatArray<PlayerSnapshot>;
+  buttonSeat: SeatIndex;
+  handCount: number;
+  hand?: {
+    players: SeatArray<PlayerSnapshot>;
+    dealerSharesPlayers: boolean;
+    dealer: DealerSnapshot;
+  };
+};
+
+export type SeatPlayerResolver = (seat: SeatIndex, snapshot: PlayerSnapshot) => EnginePlayer;
+
 export type EngineCard = Card;
 
 export class EngineError extends Error {}
@@ -1,8 +1,8 @@
-import { randomInt } from 'crypto';
+import { cryptoRng, type Rng } from '../rng';
 
-export function shuffleInPlace<T>(array: T[]): void {
+export function shuffleInPlace<T>(array: T[], rng: Rng = cryptoRng): void {
   for (let index = array.length - 1; index > 0; index -= 1) {
-    const nextIndex = randomInt(index + 1);
+    const nextIndex = rng.randomInt(index + 1);
     [array[index], array[nextIndex]] = [array[nextIndex], array[index]];
   }
 }
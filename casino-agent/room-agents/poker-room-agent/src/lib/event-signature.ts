@@ -0,0 +1,31 @@
+import { createHmac } from 'crypto';
+
+import type { RoomCheckpoint, RoomEvent } from './protocol';
+
+const canonicalJson = (value: unknown): string =>
+  JSON.stringify(value ?? null, (_key, entry: unknown) =>
+    entry && typeof entry === 'object' && !Array.isArray(entry)
+      ? Object.fromEntries(
+          Object.entries(entry as Record<string, unknown>).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+        )
+      : entry,
+  );
+
+export const signRoomEvent = (secret: string, event: RoomEvent): string =>
+  createHmac('sha256', secret)
+    .update(
+      [
+        event.roomId,
+        event.eventType,
+        event.timestamp,
+        event.message,
+        canonicalJson(event.payload),
+        String(event.roomSequence ?? ''),
+      ].join('\n'),
+    )
+    .digest('hex');
+
+export const signRoomCheckpoint = (secret: string, checkpoint: RoomCheckpoint): string =>
+  createHmac('sha256', secret)
+    .update([checkpoint.roomId, 'checkpoint', checkpoint.timestamp, canonicalJson(checkpoint)].join('\n'))
+    .digest('hex');
@@ -3,13 +3,22 @@ import type { AgentCard, A2ARuntime } from '@lucid-agents/types/a2a';
 import { randomUUID } from 'crypto';
 
 import {
+  ActionRequest,
+  ActionResponse,
+  AutoActionReason,
   Card,
   BettingRound,
   RegisterPlayerInput,
   RegisterPlayerResult,
+  RestoreRoomInput,
+  RoomCheckpoint,
+  RoomSession,
+  RoomSnapshot,
   RoomSummary,
   StartGameInput,
   ConfigureRoomInput,
+  HandActionKind,
+  HandRecord,
   RoomConfig,
   actionRequestSchema,
   actionResponseSchema,
@@ -17,8 +26,10 @@ import {
   roomSummarySchema,
   RoomEvent,
 } from './protocol';
+import { signRoomCheckpoint, signRoomEvent } from './event-signature';
+import { FairRound, createFairRound } from './provably-fair';
 import { cardToString } from './cards';
-import { describeHand } from './hand-evaluator';
+import { describeHand, evaluateBestHand } from './hand-evaluator';
 import { Table } from './engine/table';
 import { DealerAction, type DealerActionRange, type PotResolution } from './engine/dealer';
 import { RoundOfBetting } from './engine/community-cards';
@@ -26,6 +37,7 @@ import { RoundOfBetting } from './engine/community-cards';
 type RoomStatus = 'waiting' | 'running' | 'idle' | 'error' | 'ended';
 const CHIP_EPSILON = 1e-6;
 type HandStage = 'preflop' | 'flop' | 'turn' | 'river' | 'showdown';
+const DECISION_TIMEOUT = Symbol('decision-timeout');
 
 interface RegisteredPlayer {
   id: string;
@@ -34,8 +46,26 @@ interface RegisteredPlayer {
   actionSkill: string;
   agentCardUrl: string;
   stack: number;
+  clientSeed: string;
   card: AgentCard;
+  timeBankMs: number;
+  consecutiveFailures: number;
+  sittingOut: boolean;
 }
+
+type AutoAction = {
+  reason: AutoActionReason;
+  detail?: string;
+  consecutiveFailures: number;
+  sittingOut: boolean;
+};
+
+type Decision = {
+  action: ActionResponse;
+  elapsedMs: number;
+  autoAction?: AutoAction;
+};
+
 type BettingState = {
   pot: number;
   contributions: Map<string, number>;
@@ -44,23 +74,43 @@ type BettingState = {
   currentBet: number;
 };
 
+type CompletedHand = {
+  message: string;
+  payload: Record<string, unknown>;
+  communityCards: Card[];
+  record?: HandRecord;
+};
+
 export type RoomRuntime = AgentRuntime & {
   a2a?: A2ARuntime;
 };
 
+// Published hand records only carry the hole cards shown at showdown; the full record goes to the lobby privately.
+const toPublicHandRecord = (record: HandRecord): HandRecord => {
+  const shown = new Map(record.showdown.map((hand) => [hand.playerId, hand.cards]));
+  return {
+    ...record,
+    seats: record.seats.map((seat) => ({ ...seat, holeCards: shown.get(seat.playerId) ?? [] })),
+  };
+};
+
 export class PokerRoom {
   private readonly runtime: RoomRuntime;
   private roomId: string;
   private roomConfig?: RoomConfig;
-  private casinoCallback?: { card: AgentCard; eventSkill: string };
+  private casinoCallback?: { card: AgentCard; eventSkill: string; eventSecret: string; checkpointSkill?: string };
   private casinoName = 'casino-agent';
   private status: RoomStatus = 'waiting';
   private players = new Map<string, RegisteredPlayer>();
   private handCount = 0;
   private lastMessage?: string;
+  private session?: RoomSession;
+  private sessionConfig?: RoomConfig;
   private readonly eventLog: RoomEvent[] = [];
+  private eventSequence = 0;
   private buttonSeat = -1;
   private table?: Table;
+  private currentHand?: HandRecord;
   private readonly seatAssignments = new Map<number, string>();
 
   constructor(runtime: RoomRuntime, roomId: string) {
@@ -74,13 +124,21 @@ export class PokerRoom {
     this.casinoName = input.casinoName;
     const a2a = this.requireA2ARuntime();
     const casinoCard = await a2a.fetchCard(input.casinoCallback.agentCardUrl);
-    this.casinoCallback = { card: casinoCard, eventSkill: input.casinoCallback.eventSkill };
+    this.casinoCallback = {
+      card: casinoCard,
+      eventSkill: input.casinoCallback.eventSkill,
+      eventSecret: input.casinoCallback.eventSecret,
+      checkpointSkill: input.casinoCallback.checkpointSkill,
+    };
     this.status = 'waiting';
     this.players.clear();
     this.seatAssignments.clear();
     this.handCount = 0;
     this.lastMessage = undefined;
+    this.session = undefined;
+    this.sessionConfig = undefined;
     this.eventLog.length = 0;
+    this.eventSequence = 0;
     this.buttonSeat = -1;
     this.table = new Table(
       {
@@ -99,6 +157,100 @@ export class PokerRoom {
     return this.getSummary();
   }
 
+  public async restore(input: RestoreRoomInput): Promise<RoomSummary> {
+    const { snapshot } = input;
+    if (snapshot.table.hand) {
+      throw new Error('Snapshots taken mid-hand cannot be restored. Use the last completed-hand snapshot.');
+    }
+    if (this.status === 'running') {
+      throw new Error('A hand is already running.');
+    }
+    const a2a = this.requireA2ARuntime();
+    const casinoCard = await a2a.fetchCard(input.casinoCallback.agentCardUrl);
+    const players = await Promise.all(
+      snapshot.players.map(
+        async (player): Promise<RegisteredPlayer> => ({
+          id: player.playerId,
+          seatNumber: player.seatNumber,
+          displayName: player.displayName,
+          actionSkill: player.actionSkill,
+          agentCardUrl: player.agentCardUrl,
+          stack: player.stack,
+          clientSeed: player.clientSeed,
+          card: await a2a.fetchCard(player.agentCardUrl),
+          timeBankMs: player.timeBankMs,
+          consecutiveFailures: player.consecutiveFailures,
+          sittingOut: player.sittingOut,
+        }),
+      ),
+    );
+
+    this.roomId = snapshot.roomId;
+    this.roomConfig = snapshot.config;
+    this.casinoName = snapshot.casinoName;
+    this.casinoCallback = {
+      card: casinoCard,
+      eventSkill: input.casinoCallback.eventSkill,
+      eventSecret: input.casinoCallback.eventSecret,
+      checkpointSkill: input.casinoCallback.checkpointSkill,
+    };
+    this.players.clear();
+    this.seatAssignments.clear();
+    for (const player of players) {
+      this.players.set(player.id, player);
+      this.seatAssignments.set(player.seatNumber, player.id);
+    }
+    this.handCount = snapshot.handCount;
+    this.buttonSeat = snapshot.buttonSeat;
+    this.lastMessage = snapshot.message;
+    this.session = snapshot.session;
+    this.sessionConfig = snapshot.sessionConfig;
+    this.currentHand = undefined;
+    this.eventLog.length = 0;
+    this.eventSequence = input.eventSequence;
+    this.table = Table.fromSnapshot(snapshot.table);
+    this.status = snapshot.status;
+
+    if (this.session?.status === 'running' && this.sessionConfig) {
+      this.status = 'running';
+      void this.runSession(this.sessionConfig, this.session, true);
+    } else if (this.status === 'running') {
+      this.status = 'idle';
+    }
+    return this.getSummary();
+  }
+
+  public snapshot(): RoomSnapshot {
+    if (!this.roomConfig) {
+      throw new Error('Room is not configured.');
+    }
+    return {
+      roomId: this.roomId,
+      casinoName: this.casinoName,
+      config: this.roomConfig,
+      sessionConfig: this.sessionConfig,
+      status: this.status,
+      handCount: this.handCount,
+      buttonSeat: this.buttonSeat,
+      message: this.lastMessage,
+      session: this.session,
+      players: Array.from(this.players.values()).map((player) => ({
+        playerId: player.id,
+        seatNumber: player.seatNumber,
+        displayName: player.displayName,
+        actionSkill: player.actionSkill,
+        agentCardUrl: player.agentCardUrl,
+        stack: player.stack,
+        clientSeed: player.clientSeed,
+        timeBankMs: player.timeBankMs,
+        consecutiveFailures: player.consecutiveFailures,
+        sittingOut: player.sittingOut,
+      })),
+      table: this.ensureTable().toSnapshot(),
+      currentHand: this.currentHand,
+    };
+  }
+
   public getSummary(): RoomSummary {
     const summary: RoomSummary = {
       roomId: this.roomId,
@@ -110,9 +262,12 @@ export class PokerRoom {
           seatNumber: player.seatNumber,
           displayName: player.displayName,
           stack: player.stack,
+          timeBankMs: player.timeBankMs,
+          sittingOut: player.sittingOut,
         })),
       handCount: this.handCount,
       message: this.lastMessage,
+      session: this.session,
     };
 
     return roomSummarySchema.parse(summary);
@@ -150,7 +305,11 @@ export class PokerRoom {
       actionSkill: input.actionSkill,
       agentCardUrl: input.agentCardUrl,
       stack: input.startingStack,
+      clientSeed: input.clientSeed ?? input.playerId,
       card,
+      timeBankMs: this.roomConfig.timeBankMs,
+      consecutiveFailures: 0,
+      sittingOut: false,
     };
 
     table.sitDown(seatNumber, input.startingStack);
@@ -199,22 +358,46 @@ export class PokerRoom {
 
     this.status = 'running';
     this.lastMessage = undefined;
-    await this.publishEvent('hand_started', `Starting winner-takes-all session at ${this.roomId}.`, {});
+    this.session = {
+      sessionId: randomUUID(),
+      status: 'running',
+      startedAt: new Date().toISOString(),
+    };
+    this.sessionConfig = config;
+    void this.runSession(config, this.session);
+    return this.getSummary();
+  }
 
+  private async runSession(config: RoomConfig, session: RoomSession, resumed = false): Promise<void> {
+    const { sessionId } = session;
     const initialHandCount = this.handCount;
     try {
+      if (!resumed) {
+        await this.publishEvent('hand_started', `Starting winner-takes-all session at ${this.roomId}.`, {
+          sessionId,
+          rngSeed: config.rngSeed,
+        });
+        await this.publishCheckpoint();
+      }
+
       while (this.players.size > 1) {
-        await this.playHand(config);
+        const completed = await this.playHand(config, sessionId);
         this.handCount += 1;
         const bustedSeat = this.findBankruptSeat();
         if (bustedSeat) {
-          await this.publishEvent('player_busted', `${bustedSeat.displayName} is out of chips.`, {
-            playerId: bustedSeat.id,
-          });
           this.table?.standUp(bustedSeat.seatNumber);
           this.seatAssignments.delete(bustedSeat.seatNumber);
           this.players.delete(bustedSeat.id);
         }
+        // Checkpoint before publishing the results, so a resumed room never replays a hand the lobby already recorded.
+        await this.publishCheckpoint(completed.record);
+        await this.publishEvent('hand_completed', completed.message, completed.payload);
+        await this.publishHandStage('showdown', completed.communityCards);
+        if (bustedSeat) {
+          await this.publishEvent('player_busted', `${bustedSeat.displayName} is out of chips.`, {
+            playerId: bustedSeat.id,
+          });
+        }
       }
 
       const handsPlayed = this.handCount - initialHandCount;
@@ -222,27 +405,35 @@ export class PokerRoom {
         const winner = Array.from(this.players.values())[0];
         this.status = 'ended';
         this.lastMessage = `${winner.displayName} won the table.`;
+        this.finishSession(session, 'completed');
         await this.publishEvent('room_ended', this.lastMessage, {
+          sessionId,
           winnerId: winner.id,
           stack: winner.stack,
         });
       } else {
         this.status = 'idle';
         this.lastMessage = `Stopped after ${handsPlayed} hand${handsPlayed === 1 ? '' : 's'}.`;
-        await this.publishEvent('hand_completed', this.lastMessage, { handsPlayed });
+        this.finishSession(session, 'completed');
+        await this.publishEvent('hand_completed', this.lastMessage, { sessionId, handsPlayed });
       }
     } catch (error) {
+      console.error(`[poker-room] Session ${sessionId} failed:`, error);
       this.status = 'error';
       this.lastMessage = error instanceof Error ? error.message : 'Unknown error occurred.';
-      await this.publishEvent('room_error', this.lastMessage ?? 'Room error.');
-      throw error;
+      this.finishSession(session, 'failed', this.lastMessage);
+      await this.publishEvent('room_error', this.lastMessage ?? 'Room error.', { sessionId });
     } finally {
       if (this.status === 'running') {
         this.status = 'idle';
       }
     }
+  }
 
-    return this.getSummary();
+  private finishSession(session: RoomSession, status: RoomSession['status'], error?: string): void {
+    session.status = status;
+    session.finishedAt = new Date().toISOString();
+    session.error = error;
   }
 
   private findSeat(preferredSeat?: number): number {
@@ -261,7 +452,7 @@ export class PokerRoom {
     return seat;
   }
 
-  private async playHand(config: RoomConfig): Promise<void> {
+  private async playHand(config: RoomConfig, sessionId: string): Promise<CompletedHand> {
     const table = this.ensureTable();
     const bettingState: BettingState = {
       pot: 0,
@@ -271,9 +462,12 @@ export class PokerRoom {
       currentBet: 0,
     };
 
-    table.startHand();
+    const fairRound = await this.commitRound(this.handCount + 1, config.rngSeed);
+    table.startHand(fairRound.random);
     this.buttonSeat = table.button();
     this.syncStacksFromHand(table);
+    this.currentHand = this.openHandRecord(table, config, sessionId);
+    await this.publishCheckpoint();
     await this.publishHandStage('preflop', table.communityCardsSnapshot());
     await this.playBettingRound('preflop', table, config, bettingState, true);
 
@@ -287,12 +481,12 @@ export class PokerRoom {
     const showdownCards = table.holeCardsSnapshot();
     const resolutions = table.showdown();
     this.syncStacksFromTable();
-    await this.publishShowdown(communityCards, showdownCards, resolutions);
-    await this.publishHandStage('showdown', communityCards);
+    const completed = this.describeShowdown(communityCards, showdownCards, resolutions, bettingState.folded, fairRound);
 
     this.lastMessage = `Hand #${this.handCount + 1} completed. Community cards: ${communityCards
       .map(cardToString)
       .join(' ')}`;
+    return completed;
   }
 
   private async playBettingRound(
@@ -337,11 +531,11 @@ export class PokerRoom {
         legalActions,
       });
 
-      const result = await this.requireA2ARuntime().client.invoke(seat.card, seat.actionSkill, actionRequest);
-      const action = actionResponseSchema.parse(result.output ?? {});
+      const decision = await this.requestDecision(seat, actionRequest, config);
       const resolved = await this.applyAction({
         seat,
-        action,
+        action: decision.action,
+        decision,
         stage,
         state,
         allowedActions: legalActions,
@@ -360,9 +554,82 @@ export class PokerRoom {
     table.endBettingRound();
   }
 
+  private async requestDecision(seat: RegisteredPlayer, request: ActionRequest, config: RoomConfig): Promise<Decision> {
+    const safeDefault: ActionResponse = { action: request.legalActions.includes('check') ? 'check' : 'fold' };
+    if (seat.sittingOut) {
+      return {
+        action: safeDefault,
+        elapsedMs: 0,
+        autoAction: { reason: 'sitting_out', consecutiveFailures: seat.consecutiveFailures, sittingOut: true },
+      };
+    }
+
+    const startedAt = Date.now();
+    let reason: AutoActionReason;
+    let detail: string | undefined;
+    try {
+      const result = await this.raceDecision(
+        this.requireA2ARuntime().client.invoke(seat.card, seat.actionSkill, request),
+        config.decisionTimeoutMs + seat.timeBankMs,
+      );
+      if (result === DECISION_TIMEOUT) {
+        reason = 'timeout';
+        detail = `No decision within ${config.decisionTimeoutMs + seat.timeBankMs}ms.`;
+      } else {
+        const parsed = actionResponseSchema.safeParse(result.output ?? {});
+        if (parsed.success) {
+          const elapsedMs = Date.now() - startedAt;
+          seat.timeBankMs = Math.max(0, seat.timeBankMs - Math.max(0, elapsedMs - config.decisionTimeoutMs));
+          seat.consecutiveFailures = 0;
+          return { action: parsed.data, elapsedMs };
+        }
+        reason = 'invalid_response';
+        detail = parsed.error.issues.map((issue) => issue.message).join('; ');
+      }
+    } catch (error) {
+      reason = 'error';
+      detail = error instanceof Error ? error.message : 'Unknown player error.';
+    }
+
+    const elapsedMs = Date.now() - startedAt;
+    seat.timeBankMs = Math.max(0, seat.timeBankMs - Math.max(0, elapsedMs - config.decisionTimeoutMs));
+    seat.consecutiveFailures += 1;
+    if (seat.consecutiveFailures >= config.maxConsecutiveFailures && !seat.sittingOut) {
+      seat.sittingOut = true;
+      console.warn(`[poker-room] ${seat.displayName} is sitting out after ${seat.consecutiveFailures} failed decisions.`);
+    }
+    return {
+      action: safeDefault,
+      elapsedMs,
+      autoAction: {
+        reason,
+        detail,
+        consecutiveFailures: seat.consecutiveFailures,
+        sittingOut: seat.sittingOut,
+      },
+    };
+  }
+
+  private raceDecision<T>(decision: Promise<T>, timeoutMs: number): Promise<T | typeof DECISION_TIMEOUT> {
+    return new Promise((resolvePromise, rejectPromise) => {
+      const timer = setTimeout(() => resolvePromise(DECISION_TIMEOUT), timeoutMs);
+      decision.then(
+        (value) => {
+          clearTimeout(timer);
+          resolvePromise(value);
+        },
+        (error) => {
+          clearTimeout(timer);
+          rejectPromise(error);
+        },
+      );
+    });
+  }
+
   private async applyAction(params: {
     seat: RegisteredPlayer;
     action: { action: string; amount?: number; message?: string };
+    decision?: Decision;
     stage: BettingRound;
     state: BettingState;
     allowedActions: string[];
@@ -372,13 +639,33 @@ export class PokerRoom {
     communityCards: Card[];
     range: DealerActionRange;
   }): Promise<'fold' | 'call' | 'check' | 'bet' | 'raise'> {
-    const { seat, action, stage, state, allowedActions, table, seatIndex, amountToCall, communityCards, range } = params;
+    const { seat, action, decision, stage, state, allowedActions, table, seatIndex, amountToCall, communityCards, range } =
+      params;
+    const autoAction = decision?.autoAction;
 
     const seatState = this.getHandSeatState(table, seatIndex);
     const available = seatState?.stack ?? seat.stack;
 
-    const notify = async (message: string, payload?: Record<string, unknown>) => {
+    const notify = async (
+      kind: HandActionKind,
+      text: string,
+      payload: { pot: number; playerStack: number; amount?: number },
+    ) => {
+      const message = autoAction ? text.replace(/\.$/, ` (auto: ${autoAction.reason.replace('_', ' ')}).`) : text;
       this.lastMessage = message;
+      this.currentHand?.actions.push({
+        street: stage,
+        playerId: seat.id,
+        seatNumber: seat.seatNumber,
+        action: kind,
+        amount: payload.amount,
+        totalBet: contribution + (payload.amount ?? 0),
+        allIn: payload.playerStack <= CHIP_EPSILON && kind !== 'fold',
+        pot: payload.pot,
+        stack: payload.playerStack,
+        autoAction: autoAction?.reason,
+        timestamp: new Date().toISOString(),
+      });
       await this.publishEvent('action_taken', message, {
         playerId: seat.id,
         playerName: seat.displayName,
@@ -388,8 +675,12 @@ export class PokerRoom {
         currentBet: state.currentBet,
         legalActions: allowedActions,
         ...(action.message ? { agentMessage: action.message } : {}),
+        ...(decision ? { decisionMs: decision.elapsedMs, timeBankMs: seat.timeBankMs } : {}),
+        ...(autoAction ? { autoAction } : {}),
+        action: kind,
         ...payload,
       });
+      await this.publishCheckpoint();
     };
 
     const allow = (name: string) => allowedActions.includes(name);
@@ -427,8 +718,8 @@ export class PokerRoom {
       case 'fold':
         state.folded.add(seat.id);
         table.applyAction(DealerAction.FOLD);
-        await notify(`${seat.displayName} folded during ${stage}.`, {
-          pot: state.pot,
+        await notify('fold', `${seat.displayName} folded during ${stage}.`, {
+                    pot: state.pot,
           playerStack: seat.stack,
         });
         return 'fold';
@@ -446,8 +737,8 @@ export class PokerRoom {
         const delta = Math.max(0, targetTotal - contribution);
         if (delta <= 0) {
           table.applyAction(DealerAction.CHECK);
-          await notify(`${seat.displayName} checked during ${stage}.`, {
-            pot: state.pot,
+          await notify('check', `${seat.displayName} checked during ${stage}.`, {
+                        pot: state.pot,
             playerStack: seat.stack,
           });
           return 'check';
@@ -455,8 +746,8 @@ export class PokerRoom {
         table.applyAction(normalizedAction === 'raise' ? DealerAction.RAISE : DealerAction.BET, targetTotal);
         updateStacks(delta);
         this.syncStacksFromHand(table);
-        await notify(`${seat.displayName} ${normalizedAction} ${delta} during ${stage}.`, {
-          amount: delta,
+        await notify(normalizedAction, `${seat.displayName} ${normalizedAction} ${delta} during ${stage}.`, {
+                    amount: delta,
           pot: state.pot,
           playerStack: seat.stack,
         });
@@ -465,8 +756,8 @@ export class PokerRoom {
       case 'call': {
         if (amountToCall <= 0 && allow('check')) {
           table.applyAction(DealerAction.CHECK);
-          await notify(`${seat.displayName} checked during ${stage}.`, {
-            pot: state.pot,
+          await notify('check', `${seat.displayName} checked during ${stage}.`, {
+                        pot: state.pot,
             playerStack: seat.stack,
           });
           return 'check';
@@ -476,15 +767,15 @@ export class PokerRoom {
         updateStacks(callAmount);
         if (callAmount > 0) {
           this.syncStacksFromHand(table);
-          await notify(`${seat.displayName} called ${callAmount} during ${stage}.`, {
-            amount: callAmount,
+          await notify('call', `${seat.displayName} called ${callAmount} during ${stage}.`, {
+                        amount: callAmount,
             pot: state.pot,
             playerStack: seat.stack,
           });
           return 'call';
         }
-        await notify(`${seat.displayName} checked during ${stage}.`, {
-          pot: state.pot,
+        await notify('check', `${seat.displayName} checked during ${stage}.`, {
+                    pot: state.pot,
           playerStack: seat.stack,
         });
         return 'check';
@@ -492,8 +783,8 @@ export class PokerRoom {
       case 'check':
       default:
         table.applyAction(DealerAction.CHECK);
-        await notify(`${seat.displayName} checked during ${stage}.`, {
-          pot: state.pot,
+        await notify('check', `${seat.displayName} checked during ${stage}.`, {
+                    pot: state.pot,
           playerStack: seat.stack,
         });
         return 'check';
@@ -563,14 +854,129 @@ export class PokerRoom {
     }
   }
 
-  private async publishShowdown(
+  private openHandRecord(table: Table, config: RoomConfig, sessionId: string): HandRecord {
+    const holeCards = table.holeCardsSnapshot();
+    const seatCount = config.maxPlayers;
+    const seats = table.handSeatStates().flatMap((seatState, seatIndex) => {
+      const player = this.getSeatPlayer(seatIndex);
+      return seatState && player
+        ? [
+            {
+              seatNumber: seatIndex,
+              playerId: player.id,
+              displayName: player.displayName,
+              startingStack: seatState.totalChips,
+              endingStack: seatState.totalChips,
+              holeCards: (holeCards[seatIndex] ?? []).map(cardToString),
+              betSize: seatState.betSize,
+            },
+          ]
+        : [];
+    });
+    const blinds = seats
+      .filter((seat) => seat.betSize > 0)
+      .sort(
+        (a, b) =>
+          ((a.seatNumber - this.buttonSeat + seatCount) % seatCount) -
+          ((b.seatNumber - this.buttonSeat + seatCount) % seatCount),
+      )
+      .slice(0, 2)
+      .map((seat, index) => ({
+        type: index === 0 ? ('small' as const) : ('big' as const),
+        playerId: seat.playerId,
+        seatNumber: seat.seatNumber,
+        amount: seat.betSize,
+      }));
+    return {
+      roomId: this.roomId,
+      handNumber: this.handCount + 1,
+      sessionId,
+      startedAt: new Date().toISOString(),
+      completedAt: new Date().toISOString(),
+      smallBlind: config.smallBlind,
+      bigBlind: config.bigBlind,
+      maxPlayers: config.maxPlayers,
+      buttonSeat: this.buttonSeat,
+      seats: seats.map(({ betSize: _betSize, ...seat }) => seat),
+      blinds,
+      actions: [],
+      board: [],
+      pots: [],
+      showdown: [],
+      winners: [],
+    };
+  }
+
+  private closeHandRecord(
     communityCards: Card[],
     showdownCards: (Card[] | null)[],
     resolutions: PotResolution[],
-  ): Promise<void> {
+    folded: Set<string>,
+  ): HandRecord | undefined {
+    const record = this.currentHand;
+    this.currentHand = undefined;
+    if (!record) {
+      return undefined;
+    }
+    const seatPlayerId = (seatIndex: number) => this.getSeatPlayer(seatIndex)?.id ?? `seat-${seatIndex}`;
+    const winners = new Map<string, { playerId: string; amount: number; description?: string }>();
+    for (const resolution of resolutions) {
+      for (const winner of resolution.winners) {
+        const playerId = seatPlayerId(winner.seatIndex);
+        const entry = winners.get(playerId) ?? { playerId, amount: 0 };
+        entry.amount += winner.share;
+        winners.set(playerId, entry);
+      }
+    }
+    const contested = record.seats.filter((seat) => !folded.has(seat.playerId));
+    const showdown =
+      contested.length > 1
+        ? contested.map((seat) => {
+            const cards = showdownCards[seat.seatNumber] ?? [];
+            const description =
+              cards.length + communityCards.length >= 5
+                ? describeHand(evaluateBestHand([...cards, ...communityCards]))
+                : undefined;
+            const winner = winners.get(seat.playerId);
+            if (winner) {
+              winner.description = description;
+            }
+            return { playerId: seat.playerId, cards: cards.map(cardToString), description };
+          })
+        : [];
+    return {
+      ...record,
+      completedAt: new Date().toISOString(),
+      seats: record.seats.map((seat) => ({
+        ...seat,
+        endingStack: this.players.get(seat.playerId)?.stack ?? seat.endingStack,
+      })),
+      board: communityCards.map(cardToString),
+      pots: resolutions.map((resolution) => ({
+        amount: resolution.pot.size(),
+        eligiblePlayerIds: resolution.pot.eligiblePlayers().map(seatPlayerId),
+        winners: resolution.winners.map((winner) => ({
+          playerId: seatPlayerId(winner.seatIndex),
+          amount: winner.share,
+        })),
+      })),
+      showdown,
+      winners: Array.from(winners.values()),
+    };
+  }
+
+  private describeShowdown(
+    communityCards: Card[],
+    showdownCards: (Card[] | null)[],
+    resolutions: PotResolution[],
+    folded: Set<string>,
+    fairRound: FairRound,
+  ): CompletedHand {
     const handNumber = this.handCount + 1;
     const totalPot = resolutions.reduce((sum, resolution) => sum + resolution.pot.size(), 0);
-    const showdownHands = Array.from(this.players.values())
+    const contested = Array.from(this.players.values()).filter((player) => !folded.has(player.id));
+    const shownDown = contested.length > 1;
+    const showdownHands = (shownDown ? contested : [])
       .sort((a, b) => a.seatNumber - b.seatNumber)
       .map((player) => ({
         playerId: player.id,
@@ -584,26 +990,49 @@ export class PokerRoom {
         return {
           playerId: player?.id,
           displayName: player?.displayName ?? `Seat ${winner.seatIndex}`,
-          cards: winner.holeCards.map(cardToString),
           amountWon: winner.share,
-          description: describeHand(winner.score),
+          // A pot won without a showdown must not reveal the winner's cards or hand class.
+          ...(shownDown ? { cards: winner.holeCards.map(cardToString), description: describeHand(winner.score) } : {}),
         };
       }),
     );
 
     const winnerDescription =
       winningHands.length > 0
-        ? winningHands.map((hand) => `${hand.displayName} (${hand.description})`).join(', ')
+        ? winningHands
+            .map((hand) => (hand.description ? `${hand.displayName} (${hand.description})` : hand.displayName))
+            .join(', ')
         : 'No contest';
-    this.lastMessage = `Pot ${totalPot} awarded to ${winnerDescription}.`;
-
-    await this.publishEvent('hand_completed', this.lastMessage, {
-      pot: totalPot,
-      communityCards: communityCards.map(cardToString),
-      winningHands,
-      showdownHands,
-      handNumber,
-    });
+    const record = this.closeHandRecord(communityCards, showdownCards, resolutions, folded);
+    return {
+      message: `Pot ${totalPot} awarded to ${winnerDescription}.`,
+      payload: {
+        pot: totalPot,
+        communityCards: communityCards.map(cardToString),
+        winningHands,
+        showdownHands,
+        handNumber,
+        playerIds: Array.from(this.players.keys()),
+        handRecord: record ? toPublicHandRecord(record) : undefined,
+        fairness: fairRound.reveal,
+      },
+      communityCards,
+      record,
+    };
+  }
+
+  private async commitRound(handNumber: number, rngSeed?: string): Promise<FairRound> {
+    const clientSeed = Array.from(this.players.values())
+      .sort((a, b) => a.seatNumber - b.seatNumber)
+      .map((player) => player.clientSeed)
+      .join(',');
+    const round = createFairRound(clientSeed, handNumber, rngSeed);
+    await this.publishEvent(
+      'hand_started',
+      `Hand ${handNumber} committed to server seed hash ${round.commitment.serverSeedHash.slice(0, 12)}.`,
+      { handNumber, fairness: round.commitment },
+    );
+    return round;
   }
 
   private getSeatPlayer(seatIndex: number): RegisteredPlayer | undefined {
@@ -681,28 +1110,54 @@ export class PokerRoom {
     message: string,
     payload?: Record<string, unknown>,
   ): Promise<void> {
+    this.eventSequence += 1;
     const entry: RoomEvent = {
       roomId: this.roomId,
       eventType,
       message,
       timestamp: new Date().toISOString(),
       payload,
+      roomSequence: this.eventSequence,
     };
     this.eventLog.push(entry);
-    if (this.eventLog.length > 200) {
-      this.eventLog.shift();
-    }
     if (!this.casinoCallback) {
       return;
     }
 
     try {
-      await this.requireA2ARuntime().client.invoke(this.casinoCallback.card, this.casinoCallback.eventSkill, entry);
+      await this.requireA2ARuntime().client.invoke(this.casinoCallback.card, this.casinoCallback.eventSkill, {
+        ...entry,
+        signature: signRoomEvent(this.casinoCallback.eventSecret, entry),
+      });
     } catch (error) {
       console.error(`[poker-room] Failed to publish event ${eventType}:`, error);
     }
   }
 
+  private async publishCheckpoint(handRecord?: HandRecord): Promise<void> {
+    if (!this.casinoCallback?.checkpointSkill) {
+      return;
+    }
+    const handInProgress = this.table?.handInProgress() ?? false;
+    const checkpoint: RoomCheckpoint = {
+      roomId: this.roomId,
+      timestamp: new Date().toISOString(),
+      handNumber: handInProgress ? this.handCount + 1 : this.handCount,
+      handInProgress,
+      snapshot: this.snapshot(),
+      ...(handRecord ? { handRecord } : {}),
+    };
+
+    try {
+      await this.requireA2ARuntime().client.invoke(this.casinoCallback.card, this.casinoCallback.checkpointSkill, {
+        ...checkpoint,
+        signature: signRoomCheckpoint(this.casinoCallback.eventSecret, checkpoint),
+      });
+    } catch (error) {
+      console.error(`[poker-room] Failed to publish checkpoint for hand ${checkpoint.handNumber}:`, error);
+    }
+  }
+
   private requireA2ARuntime(): A2ARuntime {
     if (!this.runtime.a2a) {
       throw new Error('A2A runtime not configured.');
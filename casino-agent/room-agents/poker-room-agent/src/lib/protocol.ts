@@ -1,5 +1,7 @@
 import { z } from 'zod';
 
+import type { TableSnapshot } from './engine/types';
+
 export const suitSchema = z.enum(['hearts', 'diamonds', 'clubs', 'spades']);
 export type Suit = z.infer<typeof suitSchema>;
 
@@ -38,17 +40,26 @@ export const actionResponseSchema = z.object({
 });
 export type ActionResponse = z.infer<typeof actionResponseSchema>;
 
+export const autoActionReasonSchema = z.enum(['timeout', 'error', 'invalid_response', 'sitting_out']);
+export type AutoActionReason = z.infer<typeof autoActionReasonSchema>;
+
 export const roomConfigSchema = z.object({
   startingStack: z.number().positive(),
   smallBlind: z.number().positive(),
   bigBlind: z.number().positive(),
   maxPlayers: z.number().int().min(2).max(8),
+  decisionTimeoutMs: z.number().int().positive().default(15_000),
+  timeBankMs: z.number().int().nonnegative().default(30_000),
+  maxConsecutiveFailures: z.number().int().positive().default(3),
+  rngSeed: z.string().min(1).max(128).optional(),
 });
 export type RoomConfig = z.infer<typeof roomConfigSchema>;
 
 export const casinoCallbackSchema = z.object({
   agentCardUrl: z.string().url(),
   eventSkill: z.string().min(1),
+  eventSecret: z.string().min(32),
+  checkpointSkill: z.string().min(1).optional(),
 });
 export type CasinoCallback = z.infer<typeof casinoCallbackSchema>;
 
@@ -65,15 +76,27 @@ export const playerSeatSchema = z.object({
   seatNumber: z.number().int().nonnegative(),
   displayName: z.string(),
   stack: z.number().nonnegative(),
+  timeBankMs: z.number().nonnegative().optional(),
+  sittingOut: z.boolean().optional(),
 });
 export type PlayerSeatSummary = z.infer<typeof playerSeatSchema>;
 
+export const roomSessionSchema = z.object({
+  sessionId: z.string(),
+  status: z.enum(['running', 'completed', 'failed']),
+  startedAt: z.string(),
+  finishedAt: z.string().optional(),
+  error: z.string().optional(),
+});
+export type RoomSession = z.infer<typeof roomSessionSchema>;
+
 export const roomSummarySchema = z.object({
   roomId: z.string(),
   status: z.enum(['waiting', 'running', 'idle', 'error', 'ended']),
   handCount: z.number().int().nonnegative(),
   players: z.array(playerSeatSchema),
   message: z.string().optional(),
+  session: roomSessionSchema.optional(),
 });
 export type RoomSummary = z.infer<typeof roomSummarySchema>;
 
@@ -84,6 +107,7 @@ export const registerPlayerInputSchema = z.object({
   actionSkill: z.string().min(1),
   startingStack: z.number().positive(),
   preferredSeat: z.number().int().nonnegative().optional(),
+  clientSeed: z.string().min(1).max(128).optional(),
 });
 export type RegisterPlayerInput = z.infer<typeof registerPlayerInputSchema>;
 
@@ -104,6 +128,83 @@ export const startGameInputSchema = z
   .default({});
 export type StartGameInput = z.infer<typeof startGameInputSchema>;
 
+export const handActionKindSchema = z.enum(['fold', 'check', 'call', 'bet', 'raise']);
+export type HandActionKind = z.infer<typeof handActionKindSchema>;
+
+export const handSeatSchema = z.object({
+  seatNumber: z.number().int().nonnegative(),
+  playerId: z.string(),
+  displayName: z.string(),
+  startingStack: z.number().nonnegative(),
+  endingStack: z.number().nonnegative(),
+  holeCards: z.array(z.string()),
+});
+export type HandSeat = z.infer<typeof handSeatSchema>;
+
+export const handBlindSchema = z.object({
+  type: z.enum(['small', 'big']),
+  playerId: z.string(),
+  seatNumber: z.number().int().nonnegative(),
+  amount: z.number().nonnegative(),
+});
+export type HandBlind = z.infer<typeof handBlindSchema>;
+
+export const handActionSchema = z.object({
+  street: bettingRoundSchema,
+  playerId: z.string(),
+  seatNumber: z.number().int().nonnegative(),
+  action: handActionKindSchema,
+  amount: z.number().nonnegative().optional(),
+  totalBet: z.number().nonnegative(),
+  allIn: z.boolean(),
+  pot: z.number().nonnegative(),
+  stack: z.number().nonnegative(),
+  autoAction: autoActionReasonSchema.optional(),
+  timestamp: z.string(),
+});
+export type HandAction = z.infer<typeof handActionSchema>;
+
+export const handPotSchema = z.object({
+  amount: z.number().nonnegative(),
+  eligiblePlayerIds: z.array(z.string()),
+  winners: z.array(z.object({ playerId: z.string(), amount: z.number().nonnegative() })),
+});
+export type HandPot = z.infer<typeof handPotSchema>;
+
+export const handShowdownSchema = z.object({
+  playerId: z.string(),
+  cards: z.array(z.string()),
+  description: z.string().optional(),
+});
+export type HandShowdown = z.infer<typeof handShowdownSchema>;
+
+export const handWinnerSchema = z.object({
+  playerId: z.string(),
+  amount: z.number().nonnegative(),
+  description: z.string().optional(),
+});
+export type HandWinner = z.infer<typeof handWinnerSchema>;
+
+export const handRecordSchema = z.object({
+  roomId: z.string(),
+  handNumber: z.number().int().positive(),
+  sessionId: z.string().optional(),
+  startedAt: z.string(),
+  completedAt: z.string(),
+  smallBlind: z.number().nonnegative(),
+  bigBlind: z.number().nonnegative(),
+  maxPlayers: z.number().int().positive(),
+  buttonSeat: z.number().int().nonnegative(),
+  seats: z.array(handSeatSchema),
+  blinds: z.array(handBlindSchema),
+  actions: z.array(handActionSchema),
+  board: z.array(z.string()),
+  pots: z.array(handPotSchema),
+  showdown: z.array(handShowdownSchema),
+  winners: z.array(handWinnerSchema),
+});
+export type HandRecord = z.infer<typeof handRecordSchema>;
+
 export const roomEventSchema = z.object({
   roomId: z.string(),
   eventType: z.enum([
@@ -120,5 +221,53 @@ export const roomEventSchema = z.object({
   message: z.string(),
   timestamp: z.string(),
   payload: z.record(z.string(), z.any()).optional(),
+  roomSequence: z.number().int().positive().optional(),
 });
 export type RoomEvent = z.infer<typeof roomEventSchema>;
+
+export const snapshotPlayerSchema = z.object({
+  playerId: z.string(),
+  seatNumber: z.number().int().nonnegative(),
+  displayName: z.string(),
+  actionSkill: z.string().min(1),
+  agentCardUrl: z.string().url(),
+  stack: z.number().nonnegative(),
+  clientSeed: z.string().min(1),
+  timeBankMs: z.number().nonnegative(),
+  consecutiveFailures: z.number().int().nonnegative(),
+  sittingOut: z.boolean(),
+});
+export type SnapshotPlayer = z.infer<typeof snapshotPlayerSchema>;
+
+export const roomSnapshotSchema = z.object({
+  roomId: z.string(),
+  casinoName: z.string(),
+  config: roomConfigSchema,
+  sessionConfig: roomConfigSchema.optional(),
+  status: roomSummarySchema.shape.status,
+  handCount: z.number().int().nonnegative(),
+  buttonSeat: z.number().int(),
+  message: z.string().optional(),
+  session: roomSessionSchema.optional(),
+  players: z.array(snapshotPlayerSchema),
+  table: z.custom<TableSnapshot>((value) => typeof value === 'object' && value !== null),
+  currentHand: handRecordSchema.optional(),
+});
+export type RoomSnapshot = z.infer<typeof roomSnapshotSchema>;
+
+export const roomCheckpointSchema = z.object({
+  roomId: z.string(),
+  timestamp: z.string(),
+  handNumber: z.number().int().nonnegative(),
+  handInProgress: z.boolean(),
+  snapshot: roomSnapshotSchema,
+  handRecord: handRecordSchema.optional(),
+});
+export type RoomCheckpoint = z.infer<typeof roomCheckpointSchema>;
+
+export const restoreRoomInputSchema = z.object({
+  snapshot: roomSnapshotSchema,
+  casinoCallback: casinoCallbackSchema,
+  eventSequence: z.number().int().nonnegative().default(0),
+});
+export type RestoreRoomInput = z.infer<typeof restoreRoomInputSchema>;
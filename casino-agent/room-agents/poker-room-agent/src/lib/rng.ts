@@ -0,0 +1,13 @@
+import { randomInt } from 'crypto';
+
+const FLOAT_RANGE = 2 ** 48;
+
+export interface Rng {
+  randomInt(max: number): number;
+  random(): number;
+}
+
+export const cryptoRng: Rng = {
+  randomInt: (max) => randomInt(max),
+  random: () => randomInt(FLOAT_RANGE) / FLOAT_RANGE,
+};
@@ -5,6 +5,8 @@ import { createAgentApp } from '@lucid-agents/hono';
 import { cors } from 'hono/cors';
 
 import {
+  cashOutPlayerInputSchema,
+  cashOutPlayerResultSchema,
   configureRoomInputSchema,
   registerPlayerInputSchema,
   registerPlayerResultSchema,
@@ -53,7 +55,7 @@ addEntrypoint({
 
 addEntrypoint({
   key: 'startRoom',
-  description: 'Run a batch of spins for the current roster.',
+  description: 'Start a background session of spins and return its session id.',
   input: startGameInputSchema,
   output: roomSummarySchema,
   handler: async (ctx) => {
@@ -62,6 +64,17 @@ addEntrypoint({
   },
 });
 
+addEntrypoint({
+  key: 'cashOutPlayer',
+  description: 'Unseat a player between sessions and return their final stack.',
+  input: cashOutPlayerInputSchema,
+  output: cashOutPlayerResultSchema,
+  handler: async (ctx) => {
+    const result = await roomEngine.cashOutPlayer(ctx.input);
+    return { output: result };
+  },
+});
+
 addEntrypoint({
   key: 'roomSummary',
   description: 'Inspect room status.',
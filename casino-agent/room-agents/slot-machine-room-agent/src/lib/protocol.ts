@@ -7,12 +7,14 @@ export const slotRoomConfigSchema = z.object({
   jackpotMultiplier: z.number().positive(),
   pairMultiplier: z.number().positive(),
   reels: z.number().int().min(3).max(5),
+  rngSeed: z.string().min(1).max(128).optional(),
 });
 export type SlotRoomConfig = z.infer<typeof slotRoomConfigSchema>;
 
 export const casinoCallbackSchema = z.object({
   agentCardUrl: z.string().url(),
   eventSkill: z.string().min(1),
+  eventSecret: z.string().min(32),
 });
 export type CasinoCallback = z.infer<typeof casinoCallbackSchema>;
 
@@ -32,12 +34,22 @@ export const playerSeatSchema = z.object({
 });
 export type PlayerSeatSummary = z.infer<typeof playerSeatSchema>;
 
+export const roomSessionSchema = z.object({
+  sessionId: z.string(),
+  status: z.enum(['running', 'completed', 'failed']),
+  startedAt: z.string(),
+  finishedAt: z.string().optional(),
+  error: z.string().optional(),
+});
+export type RoomSession = z.infer<typeof roomSessionSchema>;
+
 export const roomSummarySchema = z.object({
   roomId: z.string(),
   status: z.enum(['waiting', 'running', 'idle', 'error', 'ended']),
   handCount: z.number().int().nonnegative(),
   players: z.array(playerSeatSchema),
   message: z.string().optional(),
+  session: roomSessionSchema.optional(),
 });
 export type RoomSummary = z.infer<typeof roomSummarySchema>;
 
@@ -48,6 +60,7 @@ export const registerPlayerInputSchema = z.object({
   actionSkill: z.string().min(1),
   startingStack: z.number().positive(),
   preferredSeat: z.number().int().nonnegative().optional(),
+  clientSeed: z.string().min(1).max(128).optional(),
 });
 export type RegisterPlayerInput = z.infer<typeof registerPlayerInputSchema>;
 
@@ -59,6 +72,18 @@ export const registerPlayerResultSchema = z.object({
 });
 export type RegisterPlayerResult = z.infer<typeof registerPlayerResultSchema>;
 
+export const cashOutPlayerInputSchema = z.object({
+  playerId: z.string(),
+});
+export type CashOutPlayerInput = z.infer<typeof cashOutPlayerInputSchema>;
+
+export const cashOutPlayerResultSchema = z.object({
+  playerId: z.string(),
+  displayName: z.string(),
+  stack: z.number().nonnegative(),
+});
+export type CashOutPlayerResult = z.infer<typeof cashOutPlayerResultSchema>;
+
 export const startGameInputSchema = z.object({
   spins: z.number().int().positive().optional(),
 });
@@ -79,5 +104,6 @@ export const roomEventSchema = z.object({
   message: z.string(),
   timestamp: z.string(),
   payload: z.record(z.string(), z.any()).optional(),
+  roomSequence: z.number().int().positive().optional(),
 });
 export type RoomEvent = z.infer<typeof roomEventSchema>;
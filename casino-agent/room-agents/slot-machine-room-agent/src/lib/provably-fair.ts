@@ -0,0 +1,80 @@
+import { createHash, createHmac, randomBytes } from 'crypto';
+
+import type { Rng } from './rng';
+
+export type FairnessCommitment = {
+  nonce: number;
+  serverSeedHash: string;
+  clientSeed: string;
+};
+
+export type FairnessReveal = FairnessCommitment & {
+  serverSeed: string;
+};
+
+export type FairRound = {
+  random: FairRandom;
+  commitment: FairnessCommitment;
+  reveal: FairnessReveal;
+};
+
+const UINT32_RANGE = 2 ** 32;
+
+export const hashServerSeed = (serverSeed: string): string => createHash('sha256').update(serverSeed).digest('hex');
+
+export class FairRandom implements Rng {
+  private readonly serverSeed: string;
+  private readonly clientSeed: string;
+  private readonly nonce: number;
+  private block = Buffer.alloc(0);
+  private offset = 0;
+  private cursor = 0;
+
+  constructor(serverSeed: string, clientSeed: string, nonce: number) {
+    this.serverSeed = serverSeed;
+    this.clientSeed = clientSeed;
+    this.nonce = nonce;
+  }
+
+  public randomInt(max: number): number {
+    const limit = UINT32_RANGE - (UINT32_RANGE % max);
+    for (;;) {
+      const value = this.nextUint32();
+      if (value < limit) {
+        return value % max;
+      }
+    }
+  }
+
+  public random(): number {
+    return this.nextUint32() / UINT32_RANGE;
+  }
+
+  private nextUint32(): number {
+    if (this.offset + 4 > this.block.length) {
+      this.block = createHmac('sha256', this.serverSeed)
+        .update(`${this.clientSeed}:${this.nonce}:${this.cursor}`)
+        .digest();
+      this.cursor += 1;
+      this.offset = 0;
+    }
+    const value = this.block.readUInt32BE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+}
+
+export const createServerSeed = (nonce: number, rngSeed?: string): string =>
+  rngSeed
+    ? createHmac('sha256', rngSeed).update(`server-seed:${nonce}`).digest('hex')
+    : randomBytes(32).toString('hex');
+
+export const createFairRound = (clientSeed: string, nonce: number, rngSeed?: string): FairRound => {
+  const serverSeed = createServerSeed(nonce, rngSeed);
+  const commitment = { nonce, serverSeedHash: hashServerSeed(serverSeed), clientSeed };
+  return {
+    random: new FairRandom(serverSeed, clientSeed, nonce),
+    commitment,
+    reveal: { ...commitment, serverSeed },
+  };
+};
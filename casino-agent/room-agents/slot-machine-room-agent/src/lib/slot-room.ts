@@ -3,16 +3,23 @@ import type { AgentCard, A2ARuntime } from '@lucid-agents/types/a2a';
 import { randomUUID } from 'crypto';
 
 import {
+  CashOutPlayerInput,
+  CashOutPlayerResult,
   ConfigureRoomInput,
   RegisterPlayerInput,
   RegisterPlayerResult,
+  RoomSession,
   RoomSummary,
   SlotRoomConfig,
   StartGameInput,
   RoomEvent,
+  cashOutPlayerResultSchema,
   registerPlayerResultSchema,
   roomSummarySchema,
 } from './protocol';
+import { signRoomEvent } from './event-signature';
+import { FairRound, createFairRound } from './provably-fair';
+import type { Rng } from './rng';
 
 const DEFAULT_SYMBOLS = ['cherry', 'lemon', 'plum', 'bell', 'star', 'seven'];
 type RoomStatus = 'waiting' | 'running' | 'idle' | 'error';
@@ -24,6 +31,7 @@ interface RegisteredPlayer {
   actionSkill: string;
   agentCardUrl: string;
   stack: number;
+  clientSeed: string;
   card: AgentCard;
 }
 
@@ -35,13 +43,16 @@ export class SlotMachineRoom {
   private readonly runtime: RoomRuntime;
   private roomId: string;
   private roomConfig?: SlotRoomConfig;
-  private casinoCallback?: { card: AgentCard; eventSkill: string };
+  private casinoCallback?: { card: AgentCard; eventSkill: string; eventSecret: string };
   private casinoName = 'casino-agent';
   private status: RoomStatus = 'waiting';
   private players = new Map<string, RegisteredPlayer>();
   private spinCount = 0;
   private lastMessage?: string;
+  private session?: RoomSession;
   private readonly eventLog: RoomEvent[] = [];
+  private eventSequence = 0;
+  private readonly cashOuts = new Map<string, CashOutPlayerResult>();
 
   constructor(runtime: RoomRuntime, roomId: string) {
     this.runtime = runtime;
@@ -55,13 +66,19 @@ export class SlotMachineRoom {
 
     const a2a = this.requireA2ARuntime();
     const casinoCard = await a2a.fetchCard(input.casinoCallback.agentCardUrl);
-    this.casinoCallback = { card: casinoCard, eventSkill: input.casinoCallback.eventSkill };
+    this.casinoCallback = {
+      card: casinoCard,
+      eventSkill: input.casinoCallback.eventSkill,
+      eventSecret: input.casinoCallback.eventSecret,
+    };
 
     this.status = 'waiting';
     this.players.clear();
     this.spinCount = 0;
     this.lastMessage = undefined;
+    this.session = undefined;
     this.eventLog.length = 0;
+    this.eventSequence = 0;
 
     await this.publishEvent('room_status', `Slot room ${this.roomId} configured.`, {
       casinoName: this.casinoName,
@@ -85,6 +102,7 @@ export class SlotMachineRoom {
           stack: Number(player.stack.toFixed(4)),
         })),
       message: this.lastMessage,
+      session: this.session,
     };
 
     return roomSummarySchema.parse(summary);
@@ -119,6 +137,7 @@ export class SlotMachineRoom {
       actionSkill: input.actionSkill,
       agentCardUrl: input.agentCardUrl,
       stack: input.startingStack,
+      clientSeed: input.clientSeed ?? input.playerId,
       card,
     };
 
@@ -140,6 +159,31 @@ export class SlotMachineRoom {
     return registerPlayerResultSchema.parse(result);
   }
 
+  public async cashOutPlayer(input: CashOutPlayerInput): Promise<CashOutPlayerResult> {
+    // The lobby retries a cash-out it could not record, so a departed player gets the stack they left with.
+    const previous = this.cashOuts.get(input.playerId);
+    if (previous) {
+      return previous;
+    }
+    if (this.status === 'running') {
+      throw new Error('Players cannot cash out while a session is running.');
+    }
+    const player = this.players.get(input.playerId);
+    if (!player) {
+      throw new Error(`Player ${input.playerId} is not seated in room ${this.roomId}.`);
+    }
+    this.players.delete(player.id);
+    const stack = Number(Math.max(player.stack, 0).toFixed(4));
+    const result = cashOutPlayerResultSchema.parse({ playerId: player.id, displayName: player.displayName, stack });
+    this.cashOuts.set(player.id, result);
+    await this.publishEvent('room_status', `${player.displayName} left the slot room with ${stack} credits.`, {
+      playerId: player.id,
+      stack,
+      cashedOut: true,
+    });
+    return result;
+  }
+
   public async startGame(input?: StartGameInput): Promise<RoomSummary> {
     const config = this.requireConfig();
     if (!this.players.size) {
@@ -154,24 +198,48 @@ export class SlotMachineRoom {
 
     this.status = 'running';
     this.lastMessage = undefined;
-    await this.publishEvent(
-      'hand_started',
-      `Running ${spinsRequested} spin${spinsRequested === 1 ? '' : 's'} for room ${this.roomId}.`,
-      { spinsRequested },
-    );
+    this.session = {
+      sessionId: randomUUID(),
+      status: 'running',
+      startedAt: new Date().toISOString(),
+    };
+    void this.runSession(config, orderedPlayers, spinsRequested, this.session);
+    return this.getSummary();
+  }
 
+  private async runSession(
+    config: SlotRoomConfig,
+    orderedPlayers: RegisteredPlayer[],
+    spinsRequested: number,
+    session: RoomSession,
+  ): Promise<void> {
+    const { sessionId } = session;
     let spinsExecuted = 0;
     const bustedPlayers = new Set<string>();
 
     try {
+      await this.publishEvent(
+        'hand_started',
+        `Running ${spinsRequested} spin${spinsRequested === 1 ? '' : 's'} for room ${this.roomId}.`,
+        { sessionId, spinsRequested, rngSeed: config.rngSeed },
+      );
       for (let spinIndex = 0; spinIndex < spinsRequested; spinIndex += 1) {
         const player = orderedPlayers[spinIndex % orderedPlayers.length];
-        const outcome = this.executeSpin(player, config);
+        const round =
+          player.stack >= config.spinCost
+            ? await this.commitRound(player, this.spinCount + 1, config.rngSeed)
+            : undefined;
+        const outcome = this.executeSpin(player, config, round);
         await this.publishEvent('action_taken', outcome.message, outcome.payload);
         if (outcome.played) {
           spinsExecuted += 1;
           this.spinCount += 1;
         }
+        if (round) {
+          await this.publishEvent('hand_completed', `Spin ${round.reveal.nonce} server seed revealed.`, {
+            fairness: round.reveal,
+          });
+        }
         if (outcome.busted && !bustedPlayers.has(player.id)) {
           bustedPlayers.add(player.id);
           await this.publishEvent('player_busted', `${player.displayName} is out of credits.`, {
@@ -182,28 +250,48 @@ export class SlotMachineRoom {
 
       this.lastMessage = `Completed ${spinsExecuted} spin${spinsExecuted === 1 ? '' : 's'}.`;
       this.status = 'idle';
-      await this.publishEvent('hand_completed', this.lastMessage, { spinsExecuted });
+      this.finishSession(session, 'completed');
+      await this.publishEvent('hand_completed', this.lastMessage, { sessionId, spinsExecuted });
     } catch (error) {
+      console.error(`[slot-room] Session ${sessionId} failed:`, error);
       this.status = 'error';
       this.lastMessage = error instanceof Error ? error.message : 'Unknown slot machine error.';
-      await this.publishEvent('room_error', this.lastMessage);
-      throw error;
+      this.finishSession(session, 'failed', this.lastMessage);
+      await this.publishEvent('room_error', this.lastMessage, { sessionId });
     } finally {
       if (this.status === 'running') {
         this.status = 'idle';
       }
     }
+  }
 
-    return this.getSummary();
+  private finishSession(session: RoomSession, status: RoomSession['status'], error?: string): void {
+    session.status = status;
+    session.finishedAt = new Date().toISOString();
+    session.error = error;
   }
 
-  private executeSpin(player: RegisteredPlayer, config: SlotRoomConfig): {
+  private async commitRound(player: RegisteredPlayer, nonce: number, rngSeed?: string): Promise<FairRound> {
+    const round = createFairRound(player.clientSeed, nonce, rngSeed);
+    await this.publishEvent(
+      'hand_started',
+      `Spin ${nonce} committed to server seed hash ${round.commitment.serverSeedHash.slice(0, 12)}.`,
+      { playerId: player.id, fairness: round.commitment },
+    );
+    return round;
+  }
+
+  private executeSpin(
+    player: RegisteredPlayer,
+    config: SlotRoomConfig,
+    round?: FairRound,
+  ): {
     played: boolean;
     message: string;
     payload: Record<string, unknown>;
     busted: boolean;
   } {
-    if (player.stack < config.spinCost) {
+    if (!round || player.stack < config.spinCost) {
       return {
         played: false,
         message: `${player.displayName} skipped (needs ${config.spinCost} credits).`,
@@ -217,7 +305,7 @@ export class SlotMachineRoom {
     }
 
     player.stack -= config.spinCost;
-    const reels = this.rollReels(config.reels);
+    const reels = this.rollReels(config.reels, round.random);
     const uniqueSymbols = new Set(reels);
 
     let payout = 0;
@@ -236,6 +324,7 @@ export class SlotMachineRoom {
       playerId: player.id,
       seatNumber: player.seatNumber,
       reels,
+      nonce: round.commitment.nonce,
       payout,
       stack: Number(player.stack.toFixed(4)),
     };
@@ -251,10 +340,10 @@ export class SlotMachineRoom {
     };
   }
 
-  private rollReels(count: number): string[] {
+  private rollReels(count: number, rng: Rng): string[] {
     const reels: string[] = [];
     for (let index = 0; index < count; index += 1) {
-      const symbol = DEFAULT_SYMBOLS[Math.floor(Math.random() * DEFAULT_SYMBOLS.length)];
+      const symbol = DEFAULT_SYMBOLS[rng.randomInt(DEFAULT_SYMBOLS.length)];
       reels.push(symbol);
     }
     return reels;
@@ -281,18 +370,17 @@ export class SlotMachineRoom {
   }
 
   private async publishEvent(eventType: RoomEvent['eventType'], message: string, payload?: Record<string, unknown>) {
+    this.eventSequence += 1;
     const event: RoomEvent = {
       roomId: this.roomId,
       eventType,
       message,
       timestamp: new Date().toISOString(),
       payload,
+      roomSequence: this.eventSequence,
     };
 
     this.eventLog.push(event);
-    if (this.eventLog.length > 200) {
-      this.eventLog.shift();
-    }
 
     await this.sendCasinoEvent(event);
   }
@@ -303,7 +391,10 @@ export class SlotMachineRoom {
     }
     try {
       const a2a = this.requireA2ARuntime();
-      await a2a.client.invoke(this.casinoCallback.card, this.casinoCallback.eventSkill, event);
+      await a2a.client.invoke(this.casinoCallback.card, this.casinoCallback.eventSkill, {
+        ...event,
+        signature: signRoomEvent(this.casinoCallback.eventSecret, event),
+      });
     } catch (error) {
       console.warn('[slot-room] Failed to emit casino event', error);
     }
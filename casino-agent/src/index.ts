@@ -7,4 +7,5 @@ console.log(`Starting casino agent on port ${port}...`);
 export default {
   port,
   fetch: app.fetch,
+  idleTimeout: 30,
 };
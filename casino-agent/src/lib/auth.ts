@@ -0,0 +1,238 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+import type { Context, MiddlewareHandler } from 'hono';
+import { verifyMessage } from 'viem';
+import { z } from 'zod';
+
+import {
+  apiKeySummarySchema,
+  walletGrantSchema,
+  type ApiKeySummary,
+  type AuthRole,
+  type CreateApiKeyInput,
+  type WalletGrant,
+} from './protocol';
+
+export type AuthPrincipal = {
+  role: AuthRole;
+  subject: string;
+};
+
+type StoredApiKey = ApiKeySummary & {
+  keyHash: string;
+};
+
+type BootstrapKey = {
+  key: string;
+  role: AuthRole;
+  label: string;
+};
+
+const storedApiKeySchema = apiKeySummarySchema.extend({
+  keyHash: z.string().optional(),
+  key: z.string().min(1).optional(),
+});
+
+const authFileSchema = z.object({
+  apiKeys: z.array(storedApiKeySchema).default([]),
+  wallets: z.array(walletGrantSchema).default([]),
+});
+
+const ROLE_RANK: Record<AuthRole, number> = {
+  viewer: 0,
+  player: 1,
+  operator: 2,
+};
+const WALLET_SIGNATURE_MAX_AGE_MS = 5 * 60_000;
+// EventSource cannot set headers, so event streams are the only routes that read the key from the query string.
+const EVENT_STREAM_SUFFIX = '/events/stream';
+
+const hashApiKey = (key: string) => createHash('sha256').update(key).digest('hex');
+
+export const walletAuthMessage = (casinoName: string, timestamp: string) =>
+  `Sign in to ${casinoName} at ${timestamp}`;
+
+export class LobbyAuth {
+  private readonly casinoName: string;
+  private readonly filePath?: string;
+  public readonly enabled: boolean;
+  private readonly apiKeys = new Map<string, StoredApiKey>();
+  private readonly bootstrapKeys = new Map<string, StoredApiKey>();
+  private readonly wallets = new Map<string, AuthRole>();
+
+  constructor(options: { casinoName: string; filePath?: string; bootstrapKeys?: BootstrapKey[] }) {
+    this.casinoName = options.casinoName;
+    this.filePath = options.filePath;
+    const createdAt = new Date().toISOString();
+    for (const bootstrap of options.bootstrapKeys ?? []) {
+      const keyHash = hashApiKey(bootstrap.key);
+      this.bootstrapKeys.set(keyHash, {
+        keyId: `env:${bootstrap.label}`,
+        label: bootstrap.label,
+        role: bootstrap.role,
+        createdAt,
+        keyHash,
+      });
+    }
+    this.enabled = Boolean(this.filePath) || this.bootstrapKeys.size > 0;
+  }
+
+  public async load(): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+    const parsed = authFileSchema.parse(JSON.parse(raw));
+    for (const entry of parsed.apiKeys) {
+      const keyHash = entry.keyHash ?? (entry.key ? hashApiKey(entry.key) : undefined);
+      if (!keyHash) {
+        throw new Error(`API key ${entry.keyId} in ${this.filePath} needs a key or keyHash.`);
+      }
+      this.apiKeys.set(keyHash, {
+        keyId: entry.keyId,
+        label: entry.label,
+        role: entry.role,
+        createdAt: entry.createdAt,
+        keyHash,
+      });
+    }
+    for (const grant of parsed.wallets) {
+      this.wallets.set(grant.address.toLowerCase(), grant.role);
+    }
+  }
+
+  public require(role: AuthRole): MiddlewareHandler {
+    return async (c, next) => {
+      if (!this.enabled) {
+        await next();
+        return;
+      }
+      const principal = await this.authenticate(c);
+      if (!principal) {
+        return c.json({ ok: false, error: 'Authentication required.' }, 401);
+      }
+      if (ROLE_RANK[principal.role] < ROLE_RANK[role]) {
+        return c.json({ ok: false, error: `The ${role} role is required.` }, 403);
+      }
+      await next();
+    };
+  }
+
+  public async authenticate(c: Context): Promise<AuthPrincipal | undefined> {
+    if (!this.enabled) {
+      return { role: 'operator', subject: 'anonymous' };
+    }
+    const authorization = c.req.header('authorization');
+    const apiKey =
+      (authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length).trim() : undefined) ??
+      c.req.header('x-api-key') ??
+      (c.req.path.endsWith(EVENT_STREAM_SUFFIX) ? c.req.query('apiKey') : undefined);
+    if (apiKey) {
+      const keyHash = hashApiKey(apiKey);
+      const stored = this.apiKeys.get(keyHash) ?? this.bootstrapKeys.get(keyHash);
+      return stored ? { role: stored.role, subject: `key:${stored.keyId}` } : undefined;
+    }
+    const address = c.req.header('x-wallet-address');
+    const timestamp = c.req.header('x-wallet-timestamp');
+    const signature = c.req.header('x-wallet-signature');
+    if (!address || !timestamp || !signature) {
+      return undefined;
+    }
+    return this.authenticateWallet(address, timestamp, signature);
+  }
+
+  public listCredentials(): { apiKeys: ApiKeySummary[]; wallets: WalletGrant[] } {
+    return {
+      apiKeys: Array.from(this.apiKeys.values()).map(({ keyHash: _keyHash, ...summary }) => summary),
+      wallets: Array.from(this.wallets.entries()).map(([address, role]) => ({ address, role })),
+    };
+  }
+
+  public async createApiKey(input: CreateApiKeyInput): Promise<{ apiKey: ApiKeySummary; secret: string }> {
+    this.requireFile();
+    const secret = `casino_${randomBytes(24).toString('hex')}`;
+    const keyHash = hashApiKey(secret);
+    const apiKey: ApiKeySummary = {
+      keyId: randomUUID(),
+      label: input.label,
+      role: input.role,
+      createdAt: new Date().toISOString(),
+    };
+    this.apiKeys.set(keyHash, { ...apiKey, keyHash });
+    await this.persist();
+    return { apiKey, secret };
+  }
+
+  public async revokeApiKey(keyId: string): Promise<void> {
+    this.requireFile();
+    const entry = Array.from(this.apiKeys.entries()).find(([, stored]) => stored.keyId === keyId);
+    if (!entry) {
+      throw new Error(`API key ${keyId} not found.`);
+    }
+    this.apiKeys.delete(entry[0]);
+    await this.persist();
+  }
+
+  public async grantWallet(grant: WalletGrant): Promise<void> {
+    this.requireFile();
+    this.wallets.set(grant.address.toLowerCase(), grant.role);
+    await this.persist();
+  }
+
+  public async revokeWallet(address: string): Promise<void> {
+    this.requireFile();
+    if (!this.wallets.delete(address.toLowerCase())) {
+      throw new Error(`Wallet ${address} has no role.`);
+    }
+    await this.persist();
+  }
+
+  private async authenticateWallet(
+    address: string,
+    timestamp: string,
+    signature: string,
+  ): Promise<AuthPrincipal | undefined> {
+    const role = this.wallets.get(address.toLowerCase());
+    const signedAt = Number(timestamp);
+    if (!role || !Number.isFinite(signedAt) || Math.abs(Date.now() - signedAt) > WALLET_SIGNATURE_MAX_AGE_MS) {
+      return undefined;
+    }
+    try {
+      const valid = await verifyMessage({
+        address: address as `0x${string}`,
+        message: walletAuthMessage(this.casinoName, timestamp),
+        signature: signature as `0x${string}`,
+      });
+      return valid ? { role, subject: `wallet:${address.toLowerCase()}` } : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private requireFile(): string {
+    if (!this.filePath) {
+      throw new Error('Set CASINO_AUTH_FILE to manage credentials.');
+    }
+    return this.filePath;
+  }
+
+  private async persist(): Promise<void> {
+    const filePath = this.requireFile();
+    const contents = {
+      apiKeys: Array.from(this.apiKeys.values()),
+      wallets: this.listCredentials().wallets,
+    };
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, `${JSON.stringify(contents, null, 2)}\n`, { mode: 0o600 });
+  }
+}
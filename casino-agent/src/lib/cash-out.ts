@@ -0,0 +1,18 @@
+export type PlayerCashOut = {
+  chips: number;
+  amountAtomic: string;
+  houseResultAtomic: string;
+  cashedOutAt: string;
+  paidAt?: string;
+};
+
+const CHIP_PRECISION = 10_000;
+
+export const chipsToAtomic = (chips: number, netBuyInAtomic: bigint, buyInChips: number): bigint => {
+  const scaledChips = BigInt(Math.round(Math.max(chips, 0) * CHIP_PRECISION));
+  const scaledBuyInChips = BigInt(Math.round(buyInChips * CHIP_PRECISION));
+  if (scaledBuyInChips <= 0n || netBuyInAtomic <= 0n) {
+    return 0n;
+  }
+  return (netBuyInAtomic * scaledChips) / scaledBuyInChips;
+};
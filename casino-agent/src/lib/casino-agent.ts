@@ -4,31 +4,53 @@ import { createAgent } from '@lucid-agents/core';
 import { http } from '@lucid-agents/http';
 import { a2a } from '@lucid-agents/a2a';
 import { createAgentApp } from '@lucid-agents/hono';
-import type { Context } from 'hono';
+import type { Context, MiddlewareHandler } from 'hono';
 import { cors } from 'hono/cors';
 import { z } from 'zod';
 
 import {
+  CancelRoomInput,
   CasinoState,
   CreateRoomInput,
   RegisterPlayerInput,
   StartRoomInput,
+  cancelRoomInputSchema,
+  cashOutPlayerInputSchema,
+  createApiKeyInputSchema,
+  payoutActionInputSchema,
   createRoomInputSchema,
+  leaderboardQuerySchema,
+  listLedgerInputSchema,
+  listRoomEventsInputSchema,
+  roomEventPageSchema,
   registerPlayerInputSchema,
-  registerPlayerResultSchema,
   roomSnapshotSchema,
   startRoomInputSchema,
-  roomEventSchema,
   roomStateSchema,
+  signedRoomCheckpointSchema,
+  signedRoomEventSchema,
   casinoStateSchema,
+  verifyFairnessInputSchema,
+  walletGrantSchema,
+  type AuthRole,
 } from './protocol';
 import { RoomManager, type CasinoRuntime } from './room-manager';
 import { RoomLauncher } from './room-launcher';
 import type { GameMetadata, RoomGameDefinition } from './room-definitions';
-import { PAYWALL_X402_VERSION, RegistrationPaywall } from './paywall';
+import { PAYWALL_X402_VERSION, RegistrationPaywall, type SettledPayment } from './paywall';
 import type { PaymentRequirements } from 'x402/types';
 import { getDefaultAsset } from 'x402/shared';
 import { PayoutProcessor } from './payout-processor';
+import { PayoutQueue } from './payout-queue';
+import { RefundProcessor } from './refund-processor';
+import { assertValidPrizeStructure, type PrizeStructure } from './prize-structure';
+import type { RakeConfig } from './rake';
+import { SqliteLobbyStore } from './lobby-store';
+import { Ledger } from './ledger';
+import { PlayerRegistry } from './player-registry';
+import { streamRoomEvents } from './event-stream';
+import { LobbyAuth } from './auth';
+import { deriveBlackjackOutcome, deriveDeckOrder, deriveReels } from './provably-fair';
 
 const toNumber = (value: string | undefined, fallback: number): number => {
   if (!value) {
@@ -56,6 +78,16 @@ const clampMaxPlayers = (value: number): number => {
   return Math.min(Math.max(rounded, 2), 8);
 };
 
+const clampInteger = (value: number, min: number, max: number): number =>
+  Math.min(Math.max(Math.round(value), min), max);
+
+const toRngSeed = (value: unknown): string | undefined => {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value);
+  }
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
 const readNumberEnv = (keys: string[], fallback: number): number => {
   for (const key of keys) {
     const value = process.env[key];
@@ -66,6 +98,30 @@ const readNumberEnv = (keys: string[], fallback: number): number => {
   return fallback;
 };
 
+const readPrizeStructureEnv = (key: string, fallback: PrizeStructure): PrizeStructure => {
+  const value = process.env[key];
+  if (!value) {
+    return fallback;
+  }
+  try {
+    const parsed = JSON.parse(value) as PrizeStructure;
+    assertValidPrizeStructure(parsed);
+    return parsed;
+  } catch (error) {
+    console.warn(`[casino-agent] Ignoring invalid ${key}:`, error instanceof Error ? error.message : error);
+    return fallback;
+  }
+};
+
+const readRakeEnv = (percentKey: string, flatKey: string): RakeConfig | undefined => {
+  const flatUsd = toNumber(process.env[flatKey], 0);
+  if (flatUsd > 0) {
+    return { kind: 'flat', amountUsd: flatUsd };
+  }
+  const percent = Math.min(Math.max(toNumber(process.env[percentKey], 0), 0), 100);
+  return percent > 0 ? { kind: 'percentage', percent } : undefined;
+};
+
 const normalizeOptionalUrl = (value: unknown): string | undefined => {
   if (typeof value !== 'string') {
     return undefined;
@@ -74,6 +130,9 @@ const normalizeOptionalUrl = (value: unknown): string | undefined => {
   return trimmed.length > 0 ? trimmed : undefined;
 };
 
+const toPlayerIds = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string') : [];
+
 const parseArgs = (value: string | undefined, fallback: string[]): string[] => {
   if (!value) {
     return fallback;
@@ -92,6 +151,7 @@ if (!casinoCardUrl) {
 }
 
 const defaultGameType = process.env.DEFAULT_GAME_TYPE ?? 'poker';
+const devMode = process.env.CASINO_DEV_MODE === 'true';
 const facilitatorUrl = process.env.DPS_FACILITATOR_URL;
 const payToAddress = process.env.PAYMENTS_RECEIVABLE_ADDRESS;
 const paymentsNetwork = (process.env.PAYMENTS_NETWORK ?? 'base-sepolia') as PaymentRequirements['network'];
@@ -134,6 +194,12 @@ const pokerConfigSchema = z.object({
   bigBlind: z.number().positive(),
   maxPlayers: z.number().int().min(2).max(8),
   buyInPriceUsd: z.number().min(1).max(10),
+  decisionTimeoutMs: z.number().int().min(1_000).max(300_000),
+  timeBankMs: z.number().int().min(0).max(600_000),
+  maxConsecutiveFailures: z.number().int().min(1).max(20),
+  minRating: z.number().min(0),
+  maxRating: z.number().min(0),
+  rngSeed: z.string().min(1).max(128).optional(),
 });
 type PokerConfig = z.infer<typeof pokerConfigSchema>;
 
@@ -144,6 +210,8 @@ const slotMachineConfigSchema = z.object({
   jackpotMultiplier: z.number().positive(),
   pairMultiplier: z.number().positive(),
   reels: z.number().int().min(3).max(5),
+  buyInPriceUsd: z.number().min(1).max(10),
+  rngSeed: z.string().min(1).max(128).optional(),
 });
 type SlotMachineConfig = z.infer<typeof slotMachineConfigSchema>;
 
@@ -155,6 +223,8 @@ const blackjackRoomConfigSchema = z.object({
   blackjackPayout: z.number().positive(),
   roundsPerSession: z.number().int().min(1).max(50),
   deckCount: z.number().int().min(1).max(8),
+  buyInPriceUsd: z.number().min(1).max(10),
+  rngSeed: z.string().min(1).max(128).optional(),
 });
 type BlackjackConfig = z.infer<typeof blackjackRoomConfigSchema>;
 
@@ -164,6 +234,11 @@ const pokerDefaultConfig = pokerConfigSchema.parse({
   bigBlind: readNumberEnv(['POKER_BIG_BLIND', 'BIG_BLIND'], 10),
   maxPlayers: clampMaxPlayers(readNumberEnv(['POKER_MAX_PLAYERS', 'MAX_PLAYERS'], 8)),
   buyInPriceUsd: Math.min(10, Math.max(1, readNumberEnv(['POKER_BUY_IN_PRICE', 'BUY_IN_PRICE'], 1))),
+  decisionTimeoutMs: clampInteger(readNumberEnv(['POKER_DECISION_TIMEOUT_MS'], 15_000), 1_000, 300_000),
+  timeBankMs: clampInteger(readNumberEnv(['POKER_TIME_BANK_MS'], 30_000), 0, 600_000),
+  maxConsecutiveFailures: clampInteger(readNumberEnv(['POKER_MAX_CONSECUTIVE_FAILURES'], 3), 1, 20),
+  minRating: Math.max(0, readNumberEnv(['POKER_MIN_RATING'], 0)),
+  maxRating: Math.max(0, readNumberEnv(['POKER_MAX_RATING'], 0)),
 });
 
 const slotDefaultConfig = slotMachineConfigSchema.parse({
@@ -173,6 +248,7 @@ const slotDefaultConfig = slotMachineConfigSchema.parse({
   jackpotMultiplier: toNumber(process.env.SLOT_JACKPOT_MULTIPLIER, 25),
   pairMultiplier: toNumber(process.env.SLOT_PAIR_MULTIPLIER, 3),
   reels: Math.min(Math.max(Math.round(toNumber(process.env.SLOT_REELS, 3)), 3), 5),
+  buyInPriceUsd: Math.min(10, Math.max(1, toNumber(process.env.SLOT_BUY_IN_PRICE, 1))),
 });
 
 const blackjackDefaultConfig = blackjackRoomConfigSchema.parse({
@@ -186,6 +262,7 @@ const blackjackDefaultConfig = blackjackRoomConfigSchema.parse({
   blackjackPayout: toNumber(process.env.BLACKJACK_BLACKJACK_PAYOUT, 1.5),
   roundsPerSession: Math.max(1, Math.min(50, Math.round(toNumber(process.env.BLACKJACK_ROUNDS, 5)))),
   deckCount: Math.max(1, Math.min(8, Math.round(toNumber(process.env.BLACKJACK_DECKS, 4)))),
+  buyInPriceUsd: Math.min(10, Math.max(1, toNumber(process.env.BLACKJACK_BUY_IN_PRICE, 1))),
 });
 
 const buildPokerConfig = (payload: unknown, defaults: PokerConfig = pokerDefaultConfig): PokerConfig => {
@@ -196,6 +273,16 @@ const buildPokerConfig = (payload: unknown, defaults: PokerConfig = pokerDefault
     bigBlind: toConfigNumber(data.bigBlind, defaults.bigBlind),
     maxPlayers: clampMaxPlayers(toConfigNumber(data.maxPlayers, defaults.maxPlayers)),
     buyInPriceUsd: Math.min(10, Math.max(1, toConfigNumber(data.buyInPriceUsd, defaults.buyInPriceUsd))),
+    decisionTimeoutMs: clampInteger(toConfigNumber(data.decisionTimeoutMs, defaults.decisionTimeoutMs), 1_000, 300_000),
+    timeBankMs: clampInteger(toConfigNumber(data.timeBankMs, defaults.timeBankMs), 0, 600_000),
+    maxConsecutiveFailures: clampInteger(
+      toConfigNumber(data.maxConsecutiveFailures, defaults.maxConsecutiveFailures),
+      1,
+      20,
+    ),
+    minRating: Math.max(0, toConfigNumber(data.minRating, defaults.minRating)),
+    maxRating: Math.max(0, toConfigNumber(data.maxRating, defaults.maxRating)),
+    rngSeed: toRngSeed(data.rngSeed),
   });
 };
 
@@ -208,6 +295,8 @@ const buildSlotConfig = (payload: unknown, defaults: SlotMachineConfig = slotDef
     jackpotMultiplier: toConfigNumber(data.jackpotMultiplier, defaults.jackpotMultiplier),
     pairMultiplier: toConfigNumber(data.pairMultiplier, defaults.pairMultiplier),
     reels: Math.min(Math.max(Math.round(toConfigNumber(data.reels, defaults.reels)), 3), 5),
+    buyInPriceUsd: Math.min(10, Math.max(1, toConfigNumber(data.buyInPriceUsd, defaults.buyInPriceUsd))),
+    rngSeed: toRngSeed(data.rngSeed),
   });
 };
 
@@ -226,6 +315,8 @@ const buildBlackjackConfig = (
     blackjackPayout: toConfigNumber(data.blackjackPayout, defaults.blackjackPayout),
     roundsPerSession: Math.max(1, Math.min(50, Math.round(toConfigNumber(data.roundsPerSession, defaults.roundsPerSession)))),
     deckCount: Math.max(1, Math.min(8, Math.round(toConfigNumber(data.deckCount, defaults.deckCount)))),
+    buyInPriceUsd: Math.min(10, Math.max(1, toConfigNumber(data.buyInPriceUsd, defaults.buyInPriceUsd))),
+    rngSeed: toRngSeed(data.rngSeed),
   });
 };
 
@@ -297,6 +388,15 @@ const blackjackLauncher = enableBlackjackLauncher
 const defaultBlackjackCardUrl =
   process.env.DEFAULT_BLACKJACK_ROOM_AGENT_CARD_URL ?? process.env.BLACKJACK_ROOM_AGENT_CARD_URL;
 
+const pokerPrizeStructure = readPrizeStructureEnv('POKER_PRIZE_STRUCTURE', {
+  kind: 'by_field_size',
+  tiers: [
+    { minPlayers: 2, percentages: [100] },
+    { minPlayers: 4, percentages: [65, 35] },
+    { minPlayers: 6, percentages: [50, 30, 20] },
+  ],
+});
+
 const pokerDefinition: RoomGameDefinition<PokerConfig> = {
   type: 'poker',
   label: 'Texas Hold’em Table',
@@ -310,6 +410,48 @@ const pokerDefinition: RoomGameDefinition<PokerConfig> = {
     { key: 'bigBlind', label: 'Big Blind', type: 'number', step: 0.1 },
     { key: 'maxPlayers', label: 'Max Players', type: 'number', step: 1, min: 2, max: 8 },
     { key: 'buyInPriceUsd', label: 'Buy-in Price (USD)', type: 'number', step: 0.1, min: 1, max: 10 },
+    {
+      key: 'decisionTimeoutMs',
+      label: 'Decision Timeout (ms)',
+      type: 'number',
+      step: 500,
+      min: 1000,
+      max: 300000,
+      helperText: 'Time each player gets per decision before the time bank is used.',
+    },
+    {
+      key: 'timeBankMs',
+      label: 'Time Bank (ms)',
+      type: 'number',
+      step: 1000,
+      min: 0,
+      max: 600000,
+      helperText: 'Extra time per player for the whole session. Afterwards the player checks or folds automatically.',
+    },
+    {
+      key: 'maxConsecutiveFailures',
+      label: 'Failures Before Sitting Out',
+      type: 'number',
+      step: 1,
+      min: 1,
+      max: 20,
+    },
+    {
+      key: 'minRating',
+      label: 'Min Rating',
+      type: 'number',
+      step: 50,
+      min: 0,
+      helperText: 'Players rated below this cannot register. New players start at 1500. 0 disables the limit.',
+    },
+    {
+      key: 'maxRating',
+      label: 'Max Rating',
+      type: 'number',
+      step: 50,
+      min: 0,
+      helperText: 'Players rated above this cannot register. 0 disables the limit.',
+    },
   ],
   normalizeConfig: (payload) => buildPokerConfig(payload, pokerDefaultConfig),
   roomAgent: {
@@ -318,6 +460,7 @@ const pokerDefinition: RoomGameDefinition<PokerConfig> = {
       register: 'registerPlayer',
       start: 'startRoom',
       summary: 'roomSummary',
+      restore: 'restoreRoom',
     },
     defaultCardUrl: defaultPokerCardUrl,
     launcher: pokerLauncher,
@@ -333,8 +476,20 @@ const pokerDefinition: RoomGameDefinition<PokerConfig> = {
     clampBuyIn: (value, config) => {
       return typeof value === 'number' && Number.isFinite(value) ? value : config.startingStack;
     },
+    buyIn: (config) => ({ priceUsd: config.buyInPriceUsd, chips: config.startingStack }),
   },
   shouldAutoStart: ({ summary, config }) => Boolean(summary && summary.players.length >= config.maxPlayers),
+  handParticipants: (event) =>
+    event.eventType === 'hand_completed' && typeof event.payload?.handNumber === 'number'
+      ? toPlayerIds(event.payload.playerIds)
+      : [],
+  ratingBand: (config) =>
+    config.minRating > 0 || config.maxRating > 0
+      ? { min: config.minRating || undefined, max: config.maxRating || undefined }
+      : undefined,
+  fairResult: (random) => ({ deck: deriveDeckOrder(random) }),
+  prizeStructure: pokerPrizeStructure,
+  rake: readRakeEnv('POKER_RAKE_PERCENT', 'POKER_RAKE_FLAT_USD'),
 };
 
 const slotDefinition: RoomGameDefinition<SlotMachineConfig> = {
@@ -351,6 +506,7 @@ const slotDefinition: RoomGameDefinition<SlotMachineConfig> = {
     { key: 'pairMultiplier', label: 'Pair Multiplier', type: 'number', step: 0.1 },
     { key: 'jackpotMultiplier', label: 'Jackpot Multiplier', type: 'number', step: 0.1 },
     { key: 'reels', label: 'Reels', type: 'number', min: 3, max: 5, step: 1 },
+    { key: 'buyInPriceUsd', label: 'Buy-in Price (USD)', type: 'number', step: 0.1, min: 1, max: 10 },
   ],
   normalizeConfig: (payload) => buildSlotConfig(payload, slotDefaultConfig),
   roomAgent: {
@@ -359,6 +515,7 @@ const slotDefinition: RoomGameDefinition<SlotMachineConfig> = {
       register: 'registerPlayer',
       start: 'startRoom',
       summary: 'roomSummary',
+      cashOut: 'cashOutPlayer',
     },
     defaultCardUrl: defaultSlotCardUrl,
     launcher: slotLauncher,
@@ -372,7 +529,14 @@ const slotDefinition: RoomGameDefinition<SlotMachineConfig> = {
     clampBuyIn: (value, config) => {
       return typeof value === 'number' && Number.isFinite(value) ? value : config.spinCost * config.maxSpins;
     },
+    buyIn: (config) => ({ priceUsd: config.buyInPriceUsd, chips: config.spinCost * config.maxSpins }),
   },
+  handParticipants: (event) =>
+    event.eventType === 'action_taken' && Array.isArray(event.payload?.reels)
+      ? toPlayerIds([event.payload.playerId])
+      : [],
+  fairResult: (random, config) => ({ reels: deriveReels(random, config.reels) }),
+  settlement: 'cash_out',
 };
 
 const blackjackDefinition: RoomGameDefinition<BlackjackConfig> = {
@@ -390,6 +554,7 @@ const blackjackDefinition: RoomGameDefinition<BlackjackConfig> = {
     { key: 'blackjackPayout', label: 'Blackjack Payout', type: 'number', step: 0.1 },
     { key: 'roundsPerSession', label: 'Rounds per Session', type: 'number', min: 1, max: 50, step: 1 },
     { key: 'deckCount', label: 'Decks', type: 'number', min: 1, max: 8, step: 1 },
+    { key: 'buyInPriceUsd', label: 'Buy-in Price (USD)', type: 'number', step: 0.1, min: 1, max: 10 },
   ],
   normalizeConfig: (payload) => buildBlackjackConfig(payload, blackjackDefaultConfig),
   roomAgent: {
@@ -398,6 +563,7 @@ const blackjackDefinition: RoomGameDefinition<BlackjackConfig> = {
       register: 'registerPlayer',
       start: 'startRoom',
       summary: 'roomSummary',
+      cashOut: 'cashOutPlayer',
     },
     defaultCardUrl: defaultBlackjackCardUrl,
     launcher: blackjackLauncher,
@@ -411,8 +577,15 @@ const blackjackDefinition: RoomGameDefinition<BlackjackConfig> = {
     clampBuyIn: (value, config) => {
       return typeof value === 'number' && Number.isFinite(value) ? value : config.startingStack;
     },
+    buyIn: (config) => ({ priceUsd: config.buyInPriceUsd, chips: config.startingStack }),
   },
   shouldAutoStart: ({ summary }) => Boolean(summary && summary.players.length > 0),
+  handParticipants: (event) =>
+    event.eventType === 'action_taken' && event.payload?.outcome !== undefined
+      ? toPlayerIds([event.payload.playerId])
+      : [],
+  fairResult: (random, config) => deriveBlackjackOutcome(random, config.deckCount),
+  settlement: 'cash_out',
 };
 
 const roomGames = new Map<string, RoomGameDefinition<any>>([
@@ -427,6 +600,7 @@ const getGameMetadata = (): GameMetadata[] =>
     label: game.label,
     description: game.description,
     supportsRegistration: game.supportsRegistration,
+    settlement: game.settlement ?? 'prize_pool',
     configFields: game.configFields,
     defaultConfig: game.defaultConfig,
   }));
@@ -463,7 +637,90 @@ if (manifestOrigin) {
   const originalBuild = appRuntime.manifest.build.bind(appRuntime.manifest);
   appRuntime.manifest.build = () => originalBuild(manifestOrigin);
 }
-app.use('*', cors());
+
+const allowedOrigins = (process.env.CASINO_ALLOWED_ORIGINS ?? '')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter((origin) => origin.length > 0);
+app.use('*', cors({ origin: allowedOrigins.length > 0 ? allowedOrigins : '*' }));
+
+const operatorApiKey = process.env.CASINO_OPERATOR_API_KEY;
+const lobbyAuth = new LobbyAuth({
+  casinoName,
+  filePath: process.env.CASINO_AUTH_FILE,
+  bootstrapKeys: operatorApiKey ? [{ key: operatorApiKey, role: 'operator', label: 'CASINO_OPERATOR_API_KEY' }] : [],
+});
+await lobbyAuth.load();
+if (!lobbyAuth.enabled) {
+  if (!devMode) {
+    throw new Error(
+      'Lobby authentication is not configured. Set CASINO_AUTH_FILE or CASINO_OPERATOR_API_KEY, ' +
+        'or CASINO_DEV_MODE=true for an open local lobby.',
+    );
+  }
+  console.warn('[casino-agent] Lobby authentication is disabled in dev mode. Every caller is treated as an operator.');
+}
+if (devMode) {
+  console.warn('[casino-agent] Dev mode is enabled. Rooms may set rngSeed, which makes their rounds predictable.');
+}
+const requireViewer = lobbyAuth.require('viewer');
+const requirePlayer = lobbyAuth.require('player');
+const requireOperator = lobbyAuth.require('operator');
+
+const entrypointRoles: Record<string, AuthRole | 'public'> = {
+  createRoom: 'operator',
+  startRoom: 'operator',
+  cancelRoom: 'operator',
+  cashOutPlayer: 'operator',
+  retryPayout: 'operator',
+  abandonPayout: 'operator',
+  listRooms: 'viewer',
+  listRoomEvents: 'viewer',
+  recordGameEvent: 'public',
+  recordRoomCheckpoint: 'public',
+};
+
+const requireEntrypointRole = (key: string | undefined): MiddlewareHandler => {
+  const role = (key ? entrypointRoles[key] : undefined) ?? 'operator';
+  return role === 'public' ? async (_c, next) => next() : lobbyAuth.require(role);
+};
+
+app.use('/entrypoints/:key/*', async (c, next) => requireEntrypointRole(c.req.param('key'))(c, next));
+
+// A2A tasks run the same entrypoints, so a task is checked against the role of the skill it invokes.
+app.use('/tasks', async (c, next) => {
+  if (c.req.method !== 'POST') {
+    return requireViewer(c, next);
+  }
+  const body: unknown = await c.req.raw
+    .clone()
+    .json()
+    .catch(() => undefined);
+  const skillId =
+    body && typeof body === 'object' && typeof (body as { skillId?: unknown }).skillId === 'string'
+      ? (body as { skillId: string }).skillId
+      : undefined;
+  return requireEntrypointRole(skillId)(c, next);
+});
+app.use('/tasks/*', async (c, next) => (c.req.method === 'GET' ? requireViewer(c, next) : requireOperator(c, next)));
+
+const lobbyStore = new SqliteLobbyStore(process.env.CASINO_DB_PATH ?? './data/casino.sqlite');
+const ledger = new Ledger({ store: lobbyStore });
+const playerRegistry = new PlayerRegistry({ store: lobbyStore });
+const detachRoomAgents = process.env.ROOM_AGENT_DETACH !== 'false';
+const roomWaitingTimeoutMs = Math.max(0, Math.round(toNumber(process.env.ROOM_WAITING_TIMEOUT_MS, 3_600_000)));
+const roomUnreachableTimeoutMs = Math.max(0, Math.round(toNumber(process.env.ROOM_UNREACHABLE_TIMEOUT_MS, 600_000)));
+const roomSweepIntervalMs = Math.max(0, Math.round(toNumber(process.env.ROOM_SWEEP_INTERVAL_MS, 60_000)));
+const payoutRetryIntervalMs = Math.max(0, Math.round(toNumber(process.env.PAYOUT_RETRY_INTERVAL_MS, 15_000)));
+const payoutQueue = payoutProcessor
+  ? new PayoutQueue({
+      payoutProcessor,
+      store: lobbyStore,
+      maxAttempts: Math.max(1, Math.round(toNumber(process.env.PAYOUT_MAX_ATTEMPTS, 5))),
+      backoffBaseMs: Math.max(0, Math.round(toNumber(process.env.PAYOUT_RETRY_BASE_MS, 30_000))),
+    })
+  : undefined;
+const refundProcessor = new RefundProcessor({ payoutQueue });
 
 const roomManager = new RoomManager(
   runtime as CasinoRuntime,
@@ -471,21 +728,58 @@ const roomManager = new RoomManager(
   {
     agentCardUrl: casinoCardUrl,
     eventSkill: 'recordGameEvent',
+    checkpointSkill: 'recordRoomCheckpoint',
   },
   {
     games: roomGames,
     defaultGameType,
     paymentsNetwork,
-    payoutProcessor,
+    payoutQueue,
+    refundProcessor,
+    ledger,
+    playerRegistry,
+    store: lobbyStore,
+    waitingTimeoutMs: roomWaitingTimeoutMs,
+    unreachableTimeoutMs: roomUnreachableTimeoutMs,
+    allowRngSeed: devMode,
   },
 );
 
+try {
+  await roomManager.restoreRooms();
+} catch (error) {
+  console.error('[casino-agent] Failed to restore rooms from the lobby store', error);
+}
+
+const roomSweepTimer =
+  roomSweepIntervalMs > 0
+    ? setInterval(() => {
+        roomManager.expireStaleRooms().catch((error) => {
+          console.error('[casino-agent] Failed to expire stale rooms', error);
+        });
+      }, roomSweepIntervalMs)
+    : undefined;
+
+const payoutRetryTimer =
+  payoutQueue && payoutRetryIntervalMs > 0
+    ? setInterval(() => {
+        roomManager.processPayouts().catch((error) => {
+          console.error('[casino-agent] Failed to process queued payouts', error);
+        });
+      }, payoutRetryIntervalMs)
+    : undefined;
+
 const gracefulShutdown = async () => {
+  clearInterval(roomSweepTimer);
+  clearInterval(payoutRetryTimer);
   try {
-    await roomManager.shutdown();
+    if (!detachRoomAgents) {
+      await roomManager.shutdown();
+    }
   } catch (error) {
     console.error('[casino-agent] Failed to shutdown rooms', error);
   }
+  lobbyStore.close();
 };
 
 process.on('SIGINT', async () => {
@@ -497,7 +791,9 @@ process.on('SIGTERM', async () => {
   process.exit(0);
 });
 process.on('exit', () => {
-  roomManager.shutdown().catch(() => undefined);
+  if (!detachRoomAgents) {
+    roomManager.shutdown().catch(() => undefined);
+  }
 });
 
 const listRooms = (): CasinoState =>
@@ -521,20 +817,9 @@ addEntrypoint({
   },
 });
 
-addEntrypoint({
-  key: 'registerPlayer',
-  description: 'Register an external agent to a specific room via A2A.',
-  input: registerPlayerInputSchema,
-  output: registerPlayerResultSchema,
-  handler: async (ctx) => {
-    const result = await roomManager.registerPlayer(ctx.input);
-    return { output: result };
-  },
-});
-
 addEntrypoint({
   key: 'startRoom',
-  description: 'Start gameplay for a specific room.',
+  description: 'Start a background gameplay session for a specific room; progress is reported through room events.',
   input: startRoomInputSchema,
   output: roomStateSchema,
   handler: async (ctx) => {
@@ -543,16 +828,81 @@ addEntrypoint({
   },
 });
 
+addEntrypoint({
+  key: 'cancelRoom',
+  description: 'Cancel a room that has not finished and refund every buy-in to its payout address.',
+  input: cancelRoomInputSchema,
+  output: roomSnapshotSchema,
+  handler: async (ctx) => {
+    const room = await roomManager.cancelRoom(ctx.input);
+    return { output: room };
+  },
+});
+
+addEntrypoint({
+  key: 'cashOutPlayer',
+  description: 'Unseat a player from a cash-out room between sessions and pay out their remaining chips.',
+  input: cashOutPlayerInputSchema,
+  output: roomSnapshotSchema,
+  handler: async (ctx) => {
+    const room = await roomManager.cashOutPlayer(ctx.input);
+    return { output: room };
+  },
+});
+
+addEntrypoint({
+  key: 'retryPayout',
+  description: 'Requeue a pending or failed room payout for immediate submission.',
+  input: payoutActionInputSchema,
+  output: roomSnapshotSchema,
+  handler: async (ctx) => {
+    const room = await roomManager.retryPayout(ctx.input);
+    return { output: room };
+  },
+});
+
+addEntrypoint({
+  key: 'abandonPayout',
+  description: 'Stop retrying a room payout that has not settled.',
+  input: payoutActionInputSchema,
+  output: roomSnapshotSchema,
+  handler: async (ctx) => {
+    const room = await roomManager.abandonPayout(ctx.input);
+    return { output: room };
+  },
+});
+
 addEntrypoint({
   key: 'recordGameEvent',
   description: 'Receive activity emitted by room agents.',
-  input: roomEventSchema,
+  input: signedRoomEventSchema,
   handler: async (ctx) => {
     await roomManager.recordEvent(ctx.input);
     return { output: { ok: true } };
   },
 });
 
+addEntrypoint({
+  key: 'recordRoomCheckpoint',
+  description: 'Receive crash-recovery checkpoints emitted by room agents.',
+  input: signedRoomCheckpointSchema,
+  handler: async (ctx) => {
+    await roomManager.recordCheckpoint(ctx.input);
+    return { output: { ok: true } };
+  },
+});
+
+addEntrypoint({
+  key: 'listRoomEvents',
+  description: 'Page through the recorded event history of a room.',
+  input: listRoomEventsInputSchema,
+  output: roomEventPageSchema,
+  handler: async (ctx) => {
+    const page = await roomManager.listEvents(ctx.input);
+    return { output: page };
+  },
+});
+
 addEntrypoint({
   key: 'listRooms',
   description: 'Return lobby overview.',
@@ -562,7 +912,7 @@ addEntrypoint({
   }),
 });
 
-app.get('/ui/rooms', async (c) => {
+app.get('/ui/rooms', requireViewer, async (c) => {
   const state = await fetchLobbyState();
   return c.json({
     ...state,
@@ -571,7 +921,7 @@ app.get('/ui/rooms', async (c) => {
   });
 });
 
-app.post('/ui/rooms', async (c) => {
+app.post('/ui/rooms', requireOperator, async (c) => {
   try {
     const payload = await c.req.json();
     const requestedGameType =
@@ -608,7 +958,7 @@ app.post('/ui/rooms', async (c) => {
   }
 });
 
-app.get('/ui/rooms/:roomId', async (c) => {
+app.get('/ui/rooms/:roomId', requireViewer, async (c) => {
   try {
     const roomId = c.req.param('roomId');
     const snapshot = await roomManager.refreshRoom(roomId);
@@ -621,21 +971,254 @@ app.get('/ui/rooms/:roomId', async (c) => {
   }
 });
 
-app.post('/ui/rooms/:roomId/register', async (c) => {
+app.get('/ui/rooms/:roomId/events', requireViewer, async (c) => {
+  try {
+    const after = c.req.query('after');
+    const before = c.req.query('before');
+    const limit = c.req.query('limit');
+    const types = c.req.query('types');
+    const input = listRoomEventsInputSchema.parse({
+      roomId: c.req.param('roomId'),
+      after: after ? Number(after) : undefined,
+      before: before ? Number(before) : undefined,
+      limit: limit ? Number(limit) : undefined,
+      types: types
+        ? types
+            .split(',')
+            .map((type) => type.trim())
+            .filter(Boolean)
+        : undefined,
+    });
+    if (!roomManager.hasRoom(input.roomId)) {
+      return c.json({ ok: false, error: `Room ${input.roomId} not found.` }, 404);
+    }
+    const page = await roomManager.listEvents(input);
+    return c.json({ ok: true, ...page });
+  } catch (error) {
+    return c.json(
+      { ok: false, error: error instanceof Error ? error.message : 'Failed to list room events.' },
+      400,
+    );
+  }
+});
+
+app.get('/ui/rooms/:roomId/reconciliation', requireOperator, async (c) => {
   try {
     const roomId = c.req.param('roomId');
-    const snapshot = roomManager.getRoomSnapshot(roomId);
-    if (snapshot.gameType !== 'poker') {
-      return c.json({ ok: false, error: 'Registration paywall only supported for poker rooms.' }, 400);
+    if (!roomManager.hasRoom(roomId)) {
+      return c.json({ ok: false, error: `Room ${roomId} not found.` }, 404);
     }
-    const price = Number(snapshot.config.buyInPriceUsd);
-    if (!Number.isFinite(price) || price < 1) {
-      return c.json({ ok: false, error: 'Room is missing a valid buy-in price.' }, 400);
+    const report = await roomManager.reconcileRoom(roomId);
+    return c.json({ ok: true, report });
+  } catch (error) {
+    return c.json(
+      { ok: false, error: error instanceof Error ? error.message : 'Failed to reconcile room.' },
+      400,
+    );
+  }
+});
+
+app.get('/ui/ledger', requireOperator, async (c) => {
+  try {
+    const after = c.req.query('after');
+    const limit = c.req.query('limit');
+    const input = listLedgerInputSchema.parse({
+      roomId: c.req.query('roomId') || undefined,
+      after: after ? Number(after) : undefined,
+      limit: limit ? Number(limit) : undefined,
+    });
+    const page = await roomManager.listLedger(input);
+    return c.json({ ok: true, ...page });
+  } catch (error) {
+    return c.json(
+      { ok: false, error: error instanceof Error ? error.message : 'Failed to list ledger transactions.' },
+      400,
+    );
+  }
+});
+
+app.get('/ui/leaderboard', requireViewer, (c) => {
+  try {
+    const limit = c.req.query('limit');
+    const query = leaderboardQuerySchema.parse({
+      gameType: c.req.query('gameType') || undefined,
+      since: c.req.query('since') || undefined,
+      until: c.req.query('until') || undefined,
+      sortBy: c.req.query('sortBy') || undefined,
+      limit: limit ? Number(limit) : undefined,
+    });
+    return c.json({ ok: true, leaderboard: roomManager.getLeaderboard(query) });
+  } catch (error) {
+    return c.json(
+      { ok: false, error: error instanceof Error ? error.message : 'Failed to build the leaderboard.' },
+      400,
+    );
+  }
+});
+
+app.get('/ui/ratings', requireViewer, (c) => {
+  try {
+    const gameType = c.req.query('gameType') || defaultGameType;
+    return c.json({ ok: true, gameType, ratings: roomManager.listRatings(gameType) });
+  } catch (error) {
+    return c.json(
+      { ok: false, error: error instanceof Error ? error.message : 'Failed to list ratings.' },
+      400,
+    );
+  }
+});
+
+app.get('/ui/players', requireViewer, (c) => c.json({ ok: true, players: roomManager.listPlayers() }));
+
+app.get('/ui/players/:id', requireViewer, (c) => {
+  try {
+    return c.json({ ok: true, player: roomManager.getPlayer(c.req.param('id')) });
+  } catch (error) {
+    return c.json(
+      { ok: false, error: error instanceof Error ? error.message : 'Player not found.' },
+      404,
+    );
+  }
+});
+
+app.get('/ui/players/:id/hud', requireViewer, async (c) => {
+  try {
+    const gameType = c.req.query('gameType') || defaultGameType;
+    return c.json({ ok: true, hud: await roomManager.getPlayerHud(c.req.param('id'), gameType) });
+  } catch (error) {
+    return c.json(
+      { ok: false, error: error instanceof Error ? error.message : 'Player not found.' },
+      404,
+    );
+  }
+});
+
+app.get('/ui/rooms/:roomId/hud', requireViewer, async (c) => {
+  try {
+    return c.json({ ok: true, hud: await roomManager.getRoomHud(c.req.param('roomId')) });
+  } catch (error) {
+    return c.json(
+      { ok: false, error: error instanceof Error ? error.message : 'Room not found.' },
+      404,
+    );
+  }
+});
+
+app.get('/ui/rooms/:roomId/hands', requireViewer, async (c) => {
+  try {
+    return c.json({ ok: true, hands: await roomManager.listHands(c.req.param('roomId')) });
+  } catch (error) {
+    return c.json(
+      { ok: false, error: error instanceof Error ? error.message : 'Room not found.' },
+      404,
+    );
+  }
+});
+
+app.get('/ui/rooms/:roomId/hands/:handNumber', requireViewer, async (c) => {
+  try {
+    const roomId = c.req.param('roomId');
+    const handNumber = Number(c.req.param('handNumber'));
+    if (c.req.query('format') === 'text') {
+      return c.text(await roomManager.exportHandHistory(roomId, handNumber));
     }
+    return c.json({ ok: true, hand: await roomManager.getHandRecord(roomId, handNumber) });
+  } catch (error) {
+    return c.json(
+      { ok: false, error: error instanceof Error ? error.message : 'Hand not found.' },
+      404,
+    );
+  }
+});
+
+app.get('/ui/rooms/:roomId/hands/:handNumber/private', requireOperator, async (c) => {
+  try {
+    const roomId = c.req.param('roomId');
+    const handNumber = Number(c.req.param('handNumber'));
+    if (c.req.query('format') === 'text') {
+      return c.text(await roomManager.exportPrivateHandHistory(roomId, handNumber));
+    }
+    return c.json({ ok: true, hand: await roomManager.getPrivateHandRecord(roomId, handNumber) });
+  } catch (error) {
+    return c.json(
+      { ok: false, error: error instanceof Error ? error.message : 'Hand not found.' },
+      404,
+    );
+  }
+});
+
+app.get('/ui/rooms/:roomId/hand-history', requireViewer, async (c) => {
+  try {
+    const roomId = c.req.param('roomId');
+    if (c.req.query('format') === 'json') {
+      return c.json({ ok: true, hands: await roomManager.listHandRecords(roomId) });
+    }
+    c.header('Content-Disposition', `attachment; filename="${roomId}-hands.txt"`);
+    return c.text(await roomManager.exportHandHistory(roomId));
+  } catch (error) {
+    return c.json(
+      { ok: false, error: error instanceof Error ? error.message : 'Room not found.' },
+      404,
+    );
+  }
+});
+
+app.get('/ui/rooms/:roomId/fairness/:nonce', requireViewer, async (c) => {
+  try {
+    const verification = await roomManager.verifyRoomRound(c.req.param('roomId'), Number(c.req.param('nonce')));
+    return c.json({ ok: true, verification });
+  } catch (error) {
+    return c.json(
+      { ok: false, error: error instanceof Error ? error.message : 'Round not found.' },
+      404,
+    );
+  }
+});
+
+app.post('/ui/fairness/verify', requireViewer, async (c) => {
+  try {
+    const payload = await c.req.json().catch(() => ({}));
+    const verification = roomManager.verifyFairness(verifyFairnessInputSchema.parse(payload));
+    return c.json({ ok: true, verification });
+  } catch (error) {
+    return c.json(
+      { ok: false, error: error instanceof Error ? error.message : 'Failed to verify the round.' },
+      400,
+    );
+  }
+});
+
+app.get('/ui/rooms/:roomId/events/stream', requireViewer, (c) => {
+  try {
+    return streamRoomEvents(c, roomManager, { roomId: c.req.param('roomId') });
+  } catch (error) {
+    return c.json(
+      { ok: false, error: error instanceof Error ? error.message : 'Room not found.' },
+      404,
+    );
+  }
+});
+
+app.get('/ui/events/stream', requireViewer, (c) => streamRoomEvents(c, roomManager));
+
+app.post('/ui/rooms/:roomId/register', requirePlayer, async (c) => {
+  try {
+    const roomId = c.req.param('roomId');
+    if (!roomManager.hasRoom(roomId)) {
+      return c.json({ ok: false, error: `Room ${roomId} not found.` }, 404);
+    }
+    const price = roomManager.getBuyIn(roomId).priceUsd;
     const paymentHeader = c.req.header('x-payment') ?? null;
+    const payload = await c.req.json().catch(() => ({}));
+    const input: RegisterPlayerInput = registerPlayerInputSchema.parse({
+      roomId,
+      ...payload,
+    });
     if (!paymentHeader) {
+      roomManager.checkRegistration(roomId, input.agentCardUrl);
       const resourceUrl = buildResourceUrl(c);
-      const requirements = await registrationPaywall.createQuote(roomId, price, resourceUrl);
+      const { requirements, dpsFee } = await registrationPaywall.createQuote(roomId, price, resourceUrl);
+      await roomManager.recordDpsFee(roomId, dpsFee);
       return c.json(
         {
           x402Version: PAYWALL_X402_VERSION,
@@ -645,16 +1228,31 @@ app.post('/ui/rooms/:roomId/register', async (c) => {
         402,
       );
     }
-    const payload = await c.req.json().catch(() => ({}));
-    const input: RegisterPlayerInput = registerPlayerInputSchema.parse({
-      roomId,
-      ...payload,
-    });
-    const paymentResponseHeader = await registrationPaywall.verifyAndSettle(roomId, paymentHeader);
-    const player = await roomManager.registerPlayer(input);
-    const response = c.json({ ok: true, player });
-    response.headers.set('X-PAYMENT-RESPONSE', paymentResponseHeader);
-    return response;
+    const reservation = await roomManager.reserveRegistration(input);
+    let payment: SettledPayment;
+    try {
+      payment = await registrationPaywall.verifyAndSettle(roomId, paymentHeader);
+    } catch (error) {
+      roomManager.releaseRegistration(reservation);
+      throw error;
+    }
+    await roomManager.recordBuyIn(reservation, payment);
+    try {
+      const player = await roomManager.completeRegistration(reservation, payment);
+      const response = c.json({ ok: true, player });
+      response.headers.set('X-PAYMENT-RESPONSE', registrationPaywall.encodeResponseHeader(payment));
+      return response;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to register player.';
+      const refund = await roomManager.refundRegistration(reservation, {
+        payTo: payment.payer ?? reservation.payoutAddress,
+        amountAtomic: payment.amountAtomic,
+        reason: `Registration failed: ${message}`,
+      });
+      const response = c.json({ ok: false, error: message, refund }, 400);
+      response.headers.set('X-PAYMENT-RESPONSE', registrationPaywall.encodeResponseHeader(payment));
+      return response;
+    }
   } catch (error) {
     return c.json(
       { ok: false, error: error instanceof Error ? error.message : 'Failed to register player.' },
@@ -663,7 +1261,7 @@ app.post('/ui/rooms/:roomId/register', async (c) => {
   }
 });
 
-app.post('/ui/rooms/:roomId/start', async (c) => {
+app.post('/ui/rooms/:roomId/start', requireOperator, async (c) => {
   try {
     const roomId = c.req.param('roomId');
     const payload = await c.req.json().catch(() => ({}));
@@ -672,7 +1270,7 @@ app.post('/ui/rooms/:roomId/start', async (c) => {
       overrides: payload,
     });
     const summary = await roomManager.startRoom(input);
-    return c.json({ ok: true, summary });
+    return c.json({ ok: true, summary, sessionId: summary.session?.sessionId });
   } catch (error) {
     return c.json(
       { ok: false, error: error instanceof Error ? error.message : 'Failed to start room.' },
@@ -681,7 +1279,148 @@ app.post('/ui/rooms/:roomId/start', async (c) => {
   }
 });
 
-app.get('/ui/state', async (c) => {
+app.post('/ui/rooms/:roomId/cancel', requireOperator, async (c) => {
+  try {
+    const roomId = c.req.param('roomId');
+    const payload = await c.req.json().catch(() => ({}));
+    const input: CancelRoomInput = cancelRoomInputSchema.parse({
+      roomId,
+      reason: payload?.reason,
+    });
+    const room = await roomManager.cancelRoom(input);
+    return c.json({ ok: true, room });
+  } catch (error) {
+    return c.json(
+      { ok: false, error: error instanceof Error ? error.message : 'Failed to cancel room.' },
+      400,
+    );
+  }
+});
+
+app.post('/ui/rooms/:roomId/players/:playerId/cash-out', requireOperator, async (c) => {
+  try {
+    const input = cashOutPlayerInputSchema.parse({
+      roomId: c.req.param('roomId'),
+      playerId: c.req.param('playerId'),
+    });
+    if (!roomManager.hasRoom(input.roomId)) {
+      return c.json({ ok: false, error: `Room ${input.roomId} not found.` }, 404);
+    }
+    const room = await roomManager.cashOutPlayer(input);
+    return c.json({ ok: true, room });
+  } catch (error) {
+    return c.json(
+      { ok: false, error: error instanceof Error ? error.message : 'Failed to cash out player.' },
+      400,
+    );
+  }
+});
+
+app.post('/ui/rooms/:roomId/payouts/:playerId/retry', requireOperator, async (c) => {
+  try {
+    const payload = await c.req.json().catch(() => ({}));
+    const input = payoutActionInputSchema.parse({
+      ...payload,
+      roomId: c.req.param('roomId'),
+      playerId: c.req.param('playerId'),
+    });
+    if (!roomManager.hasRoom(input.roomId)) {
+      return c.json({ ok: false, error: `Room ${input.roomId} not found.` }, 404);
+    }
+    const room = await roomManager.retryPayout(input);
+    return c.json({ ok: true, room });
+  } catch (error) {
+    return c.json(
+      { ok: false, error: error instanceof Error ? error.message : 'Failed to retry payout.' },
+      400,
+    );
+  }
+});
+
+app.post('/ui/rooms/:roomId/payouts/:playerId/abandon', requireOperator, async (c) => {
+  try {
+    const payload = await c.req.json().catch(() => ({}));
+    const input = payoutActionInputSchema.parse({
+      ...payload,
+      roomId: c.req.param('roomId'),
+      playerId: c.req.param('playerId'),
+    });
+    if (!roomManager.hasRoom(input.roomId)) {
+      return c.json({ ok: false, error: `Room ${input.roomId} not found.` }, 404);
+    }
+    const room = await roomManager.abandonPayout(input);
+    return c.json({ ok: true, room });
+  } catch (error) {
+    return c.json(
+      { ok: false, error: error instanceof Error ? error.message : 'Failed to abandon payout.' },
+      400,
+    );
+  }
+});
+
+app.get('/ui/auth/session', async (c) => {
+  const principal = await lobbyAuth.authenticate(c);
+  if (!principal) {
+    return c.json({ ok: false, error: 'Authentication required.' }, 401);
+  }
+  return c.json({ ok: true, authEnabled: lobbyAuth.enabled, ...principal });
+});
+
+app.get('/ui/auth/credentials', requireOperator, (c) => c.json({ ok: true, ...lobbyAuth.listCredentials() }));
+
+app.post('/ui/auth/keys', requireOperator, async (c) => {
+  try {
+    const payload = await c.req.json().catch(() => ({}));
+    const input = createApiKeyInputSchema.parse(payload);
+    const created = await lobbyAuth.createApiKey(input);
+    return c.json({ ok: true, ...created });
+  } catch (error) {
+    return c.json(
+      { ok: false, error: error instanceof Error ? error.message : 'Failed to create API key.' },
+      400,
+    );
+  }
+});
+
+app.delete('/ui/auth/keys/:keyId', requireOperator, async (c) => {
+  try {
+    await lobbyAuth.revokeApiKey(c.req.param('keyId'));
+    return c.json({ ok: true });
+  } catch (error) {
+    return c.json(
+      { ok: false, error: error instanceof Error ? error.message : 'Failed to revoke API key.' },
+      400,
+    );
+  }
+});
+
+app.put('/ui/auth/wallets/:address', requireOperator, async (c) => {
+  try {
+    const payload = await c.req.json().catch(() => ({}));
+    const grant = walletGrantSchema.parse({ address: c.req.param('address'), role: payload?.role });
+    await lobbyAuth.grantWallet(grant);
+    return c.json({ ok: true, wallet: { ...grant, address: grant.address.toLowerCase() } });
+  } catch (error) {
+    return c.json(
+      { ok: false, error: error instanceof Error ? error.message : 'Failed to grant wallet role.' },
+      400,
+    );
+  }
+});
+
+app.delete('/ui/auth/wallets/:address', requireOperator, async (c) => {
+  try {
+    await lobbyAuth.revokeWallet(c.req.param('address'));
+    return c.json({ ok: true });
+  } catch (error) {
+    return c.json(
+      { ok: false, error: error instanceof Error ? error.message : 'Failed to revoke wallet role.' },
+      400,
+    );
+  }
+});
+
+app.get('/ui/state', requireViewer, async (c) => {
   const state = await fetchLobbyState();
   return c.json({
     ...state,
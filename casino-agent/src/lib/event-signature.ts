@@ -0,0 +1,50 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+import type { RoomCheckpoint, RoomEvent } from './protocol';
+
+type SignableRoomEvent = Pick<RoomEvent, 'roomId' | 'eventType' | 'message' | 'timestamp' | 'payload' | 'roomSequence'>;
+
+const canonicalJson = (value: unknown): string =>
+  JSON.stringify(value ?? null, (_key, entry: unknown) =>
+    entry && typeof entry === 'object' && !Array.isArray(entry)
+      ? Object.fromEntries(
+          Object.entries(entry as Record<string, unknown>).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+        )
+      : entry,
+  );
+
+const signingInput = (event: SignableRoomEvent) =>
+  [
+    event.roomId,
+    event.eventType,
+    event.timestamp,
+    event.message,
+    canonicalJson(event.payload),
+    String(event.roomSequence ?? ''),
+  ].join('\n');
+
+export const createEventSecret = () => randomBytes(32).toString('hex');
+
+export const signRoomEvent = (secret: string, event: SignableRoomEvent): string =>
+  createHmac('sha256', secret).update(signingInput(event)).digest('hex');
+
+export const verifyRoomEventSignature = (secret: string, event: SignableRoomEvent, signature: string): boolean => {
+  const expected = Buffer.from(signRoomEvent(secret, event), 'hex');
+  const provided = Buffer.from(signature, 'hex');
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+};
+
+export const signRoomCheckpoint = (secret: string, checkpoint: RoomCheckpoint): string =>
+  createHmac('sha256', secret)
+    .update([checkpoint.roomId, 'checkpoint', checkpoint.timestamp, canonicalJson(checkpoint)].join('\n'))
+    .digest('hex');
+
+export const verifyRoomCheckpointSignature = (
+  secret: string,
+  checkpoint: RoomCheckpoint,
+  signature: string,
+): boolean => {
+  const expected = Buffer.from(signRoomCheckpoint(secret, checkpoint), 'hex');
+  const provided = Buffer.from(signature, 'hex');
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+};
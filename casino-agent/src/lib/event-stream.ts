@@ -0,0 +1,87 @@
+import type { Context } from 'hono';
+import { streamSSE } from 'hono/streaming';
+
+import type { RoomEvent } from './protocol';
+import type { RoomManager } from './room-manager';
+
+const HEARTBEAT_INTERVAL_MS = 15_000;
+const RETRY_INTERVAL_MS = 3_000;
+const BACKLOG_PAGE_SIZE = 200;
+
+const parseLastEventId = (c: Context): number => {
+  const raw = c.req.header('last-event-id') ?? c.req.query('lastEventId');
+  if (!raw) {
+    return 0;
+  }
+  const parsed = Number.parseInt(raw, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+};
+
+export const streamRoomEvents = (c: Context, roomManager: RoomManager, options?: { roomId?: string }) => {
+  const roomId = options?.roomId;
+  if (roomId && !roomManager.hasRoom(roomId)) {
+    throw new Error(`Room ${roomId} not found.`);
+  }
+  const lastEventId = parseLastEventId(c);
+
+  return streamSSE(c, async (stream) => {
+    const queue: RoomEvent[] = [];
+    let lastSent = lastEventId;
+    let wake: (() => void) | undefined;
+
+    const unsubscribe = roomManager.subscribe(
+      (event) => {
+        queue.push(event);
+        wake?.();
+      },
+      { roomId },
+    );
+    stream.onAbort(() => {
+      unsubscribe();
+      wake?.();
+    });
+
+    const writeEvent = async (event: RoomEvent) => {
+      const sequence = event.sequence ?? 0;
+      if (sequence <= lastSent) {
+        return;
+      }
+      await stream.writeSSE({ id: String(sequence), event: 'room_event', data: JSON.stringify(event) });
+      lastSent = sequence;
+    };
+
+    try {
+      await stream.writeSSE({ event: 'ready', data: JSON.stringify({ roomId: roomId ?? null }), retry: RETRY_INTERVAL_MS });
+
+      let hasMore = lastEventId > 0;
+      while (hasMore && !stream.aborted) {
+        const page = await roomManager.listEvents({ roomId, after: lastSent, limit: BACKLOG_PAGE_SIZE });
+        for (const event of page.events) {
+          await writeEvent(event);
+        }
+        hasMore = page.hasMore;
+      }
+
+      while (!stream.aborted) {
+        const event = queue.shift();
+        if (event) {
+          await writeEvent(event);
+          continue;
+        }
+        const woken = await new Promise<boolean>((resolvePromise) => {
+          const timer = setTimeout(() => resolvePromise(false), HEARTBEAT_INTERVAL_MS);
+          wake = () => {
+            clearTimeout(timer);
+            resolvePromise(true);
+          };
+        });
+        wake = undefined;
+        if (!woken && !stream.aborted) {
+          await stream.writeSSE({ event: 'heartbeat', data: new Date().toISOString() });
+        }
+      }
+    } finally {
+      unsubscribe();
+    }
+  });
+};
@@ -0,0 +1,142 @@
+import type { HandAction, HandRecord, HandSeat, HandSummary } from './protocol';
+
+const STREET_HEADERS = [
+  { street: 'flop', title: 'FLOP', cards: 3 },
+  { street: 'turn', title: 'TURN', cards: 4 },
+  { street: 'river', title: 'RIVER', cards: 5 },
+] as const;
+
+const STREET_LABELS: Record<HandAction['street'], string> = {
+  preflop: 'before Flop',
+  flop: 'on the Flop',
+  turn: 'on the Turn',
+  river: 'on the River',
+};
+
+const formatCard = (card: string) => `${card.slice(0, -1)}${card.slice(-1).toLowerCase()}`;
+
+const formatCards = (cards: string[]) => `[${cards.map(formatCard).join(' ')}]`;
+
+const formatTimestamp = (iso: string) => `${iso.slice(0, 19).replace('T', ' ').replace(/-/g, '/')} UTC`;
+
+export const summarizeHand = (record: HandRecord): HandSummary => ({
+  handNumber: record.handNumber,
+  sessionId: record.sessionId,
+  startedAt: record.startedAt,
+  completedAt: record.completedAt,
+  board: record.board,
+  winners: record.winners,
+  pot: record.pots.reduce((total, pot) => total + pot.amount, 0),
+  playerCount: record.seats.length,
+});
+
+const describeAction = (action: HandAction, streetBet: number) => {
+  const allIn = action.allIn ? ' and is all-in' : '';
+  switch (action.action) {
+    case 'fold':
+      return 'folds';
+    case 'check':
+      return 'checks';
+    case 'call':
+      return `calls ${action.amount ?? 0}${allIn}`;
+    case 'bet':
+      return `bets ${action.amount ?? 0}${allIn}`;
+    case 'raise':
+      return `raises ${action.totalBet - streetBet} to ${action.totalBet}${allIn}`;
+  }
+};
+
+const describeSeatResult = (record: HandRecord, seat: HandSeat, foldedOn: Map<string, string>) => {
+  const won = record.winners.find((winner) => winner.playerId === seat.playerId);
+  const shown = record.showdown.find((entry) => entry.playerId === seat.playerId);
+  if (shown) {
+    const hand = shown.description ? ` with ${shown.description}` : '';
+    return won
+      ? `showed ${formatCards(shown.cards)} and won (${won.amount})${hand}`
+      : `showed ${formatCards(shown.cards)} and lost${hand}`;
+  }
+  if (won) {
+    return `collected (${won.amount})`;
+  }
+  const street = foldedOn.get(seat.playerId);
+  return street ? `folded ${street}` : 'mucked';
+};
+
+export const formatHandHistory = (record: HandRecord, casinoName: string): string => {
+  const seats = new Map(record.seats.map((seat) => [seat.playerId, seat]));
+  const name = (playerId: string) => seats.get(playerId)?.displayName ?? playerId;
+  const stakes = `${record.smallBlind}/${record.bigBlind}`;
+  const lines = [
+    `PokerStars Hand #${record.handNumber}: Hold'em No Limit (${stakes}) - ${formatTimestamp(record.startedAt)}`,
+    `Table '${casinoName} ${record.roomId}' ${record.maxPlayers}-max Seat #${record.buttonSeat + 1} is the button`,
+    ...record.seats.map((seat) => `Seat ${seat.seatNumber + 1}: ${seat.displayName} (${seat.startingStack} in chips)`),
+    ...record.blinds.map((blind) => `${name(blind.playerId)}: posts ${blind.type} blind ${blind.amount}`),
+    '*** HOLE CARDS ***',
+    ...record.seats
+      .filter((seat) => seat.holeCards.length > 0)
+      .map((seat) => `Dealt to ${seat.displayName} ${formatCards(seat.holeCards)}`),
+  ];
+
+  const foldedOn = new Map<string, string>();
+  const appendActions = (street: HandAction['street'], initialBet: number) => {
+    let streetBet = initialBet;
+    for (const action of record.actions.filter((entry) => entry.street === street)) {
+      lines.push(`${name(action.playerId)}: ${describeAction(action, streetBet)}`);
+      streetBet = Math.max(streetBet, action.totalBet);
+      if (action.action === 'fold') {
+        foldedOn.set(action.playerId, STREET_LABELS[street]);
+      }
+    }
+  };
+
+  appendActions('preflop', Math.max(0, ...record.blinds.map((blind) => blind.amount)));
+  for (const { street, title, cards } of STREET_HEADERS) {
+    if (record.board.length < cards) {
+      break;
+    }
+    const dealt = record.board.slice(0, cards);
+    lines.push(
+      cards === 3
+        ? `*** ${title} *** ${formatCards(dealt)}`
+        : `*** ${title} *** ${formatCards(dealt.slice(0, -1))} ${formatCards(dealt.slice(-1))}`,
+    );
+    appendActions(street, 0);
+  }
+
+  if (record.showdown.length > 0) {
+    lines.push('*** SHOW DOWN ***');
+    for (const entry of record.showdown) {
+      const hand = entry.description ? ` (${entry.description})` : '';
+      lines.push(`${name(entry.playerId)}: shows ${formatCards(entry.cards)}${hand}`);
+    }
+  }
+  record.pots.forEach((pot, index) => {
+    const label = record.pots.length === 1 ? 'pot' : index === 0 ? 'main pot' : `side pot-${index}`;
+    for (const winner of pot.winners) {
+      lines.push(`${name(winner.playerId)} collected ${winner.amount} from ${label}`);
+    }
+  });
+
+  const positionLabel = (seat: HandSeat) => {
+    const labels = [
+      seat.seatNumber === record.buttonSeat ? ' (button)' : '',
+      ...record.blinds
+        .filter((blind) => blind.playerId === seat.playerId)
+        .map((blind) => ` (${blind.type} blind)`),
+    ];
+    return labels.join('');
+  };
+  const totalPot = record.pots.reduce((total, pot) => total + pot.amount, 0);
+  lines.push('*** SUMMARY ***', `Total pot ${totalPot} | Rake 0`);
+  if (record.board.length > 0) {
+    lines.push(`Board ${formatCards(record.board)}`);
+  }
+  for (const seat of record.seats) {
+    const result = describeSeatResult(record, seat, foldedOn);
+    lines.push(`Seat ${seat.seatNumber + 1}: ${seat.displayName}${positionLabel(seat)} ${result}`);
+  }
+  return lines.join('\n');
+};
+
+export const formatHandHistories = (records: HandRecord[], casinoName: string): string =>
+  records.map((record) => formatHandHistory(record, casinoName)).join('\n\n\n');
@@ -0,0 +1,229 @@
+import type { HudStats, RoomEvent, RoomEventType } from './protocol';
+
+export type HudCounters = {
+  hands: number;
+  vpipHands: number;
+  pfrHands: number;
+  postflopAggressive: number;
+  postflopCalls: number;
+  threeBetOpportunities: number;
+  threeBets: number;
+  foldToCbetOpportunities: number;
+  foldsToCbet: number;
+  sawFlop: number;
+  wentToShowdown: number;
+  wonAtShowdown: number;
+};
+
+type HudAction = 'fold' | 'check' | 'call' | 'bet' | 'raise';
+
+type HandTally = {
+  actors: Set<string>;
+  folded: Set<string>;
+  vpip: Set<string>;
+  pfr: Set<string>;
+  threeBetOpportunities: Set<string>;
+  threeBets: Set<string>;
+  foldToCbetOpportunities: Set<string>;
+  foldsToCbet: Set<string>;
+  preflopRaises: number;
+  preflopAggressor?: string;
+  flopAction: 'none' | 'cbet' | 'closed';
+  sawFlop?: Set<string>;
+};
+
+const HUD_ACTIONS = new Set<string>(['fold', 'check', 'call', 'bet', 'raise']);
+
+export const HUD_EVENT_TYPES: RoomEventType[] = ['hand_status', 'action_taken', 'hand_completed'];
+
+export const emptyHudCounters = (): HudCounters => ({
+  hands: 0,
+  vpipHands: 0,
+  pfrHands: 0,
+  postflopAggressive: 0,
+  postflopCalls: 0,
+  threeBetOpportunities: 0,
+  threeBets: 0,
+  foldToCbetOpportunities: 0,
+  foldsToCbet: 0,
+  sawFlop: 0,
+  wentToShowdown: 0,
+  wonAtShowdown: 0,
+});
+
+export const addHudCounters = (target: HudCounters, source: HudCounters): HudCounters => {
+  for (const key of Object.keys(target) as (keyof HudCounters)[]) {
+    target[key] += source[key];
+  }
+  return target;
+};
+
+const percentage = (count: number, opportunities: number) =>
+  opportunities > 0 ? Math.round((count / opportunities) * 1000) / 10 : null;
+
+export const summarizeHud = (counters: HudCounters): HudStats => ({
+  hands: counters.hands,
+  vpip: percentage(counters.vpipHands, counters.hands),
+  pfr: percentage(counters.pfrHands, counters.hands),
+  aggressionFactor:
+    counters.postflopCalls > 0
+      ? Math.round((counters.postflopAggressive / counters.postflopCalls) * 100) / 100
+      : null,
+  threeBet: percentage(counters.threeBets, counters.threeBetOpportunities),
+  foldToCbet: percentage(counters.foldsToCbet, counters.foldToCbetOpportunities),
+  wentToShowdown: percentage(counters.wentToShowdown, counters.sawFlop),
+  wonAtShowdown: percentage(counters.wonAtShowdown, counters.wentToShowdown),
+});
+
+const newHand = (): HandTally => ({
+  actors: new Set(),
+  folded: new Set(),
+  vpip: new Set(),
+  pfr: new Set(),
+  threeBetOpportunities: new Set(),
+  threeBets: new Set(),
+  foldToCbetOpportunities: new Set(),
+  foldsToCbet: new Set(),
+  preflopRaises: 0,
+  flopAction: 'none',
+});
+
+const readPlayerIds = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string') : [];
+
+export class HudTally {
+  public cursor = 0;
+  private readonly players = new Map<string, HudCounters>();
+  private readonly names = new Map<string, string>();
+  private hand?: HandTally;
+
+  public observe(event: RoomEvent): void {
+    const payload = event.payload ?? {};
+    if (event.eventType === 'hand_status') {
+      this.observeStage(payload.stage);
+    } else if (event.eventType === 'action_taken') {
+      this.observeAction(payload);
+    } else if (event.eventType === 'hand_completed' && typeof payload.handNumber === 'number') {
+      this.completeHand(payload);
+    }
+    this.cursor = Math.max(this.cursor, event.sequence ?? 0);
+  }
+
+  public counters(playerId: string): HudCounters {
+    return this.players.get(playerId) ?? emptyHudCounters();
+  }
+
+  public playerIds(): string[] {
+    return Array.from(this.players.keys());
+  }
+
+  public displayName(playerId: string): string | undefined {
+    return this.names.get(playerId);
+  }
+
+  private observeStage(stage: unknown): void {
+    if (stage === 'preflop') {
+      this.hand = newHand();
+    } else if (stage === 'flop' && this.hand && !this.hand.sawFlop) {
+      const hand = this.hand;
+      hand.sawFlop = new Set(Array.from(hand.actors).filter((playerId) => !hand.folded.has(playerId)));
+    }
+  }
+
+  private observeAction(payload: Record<string, unknown>): void {
+    const hand = this.hand;
+    const { playerId, action, stage } = payload;
+    if (!hand || typeof playerId !== 'string' || typeof action !== 'string' || !HUD_ACTIONS.has(action)) {
+      return;
+    }
+    if (typeof payload.playerName === 'string') {
+      this.names.set(playerId, payload.playerName);
+    }
+    hand.actors.add(playerId);
+    const kind = action as HudAction;
+    const aggressive = kind === 'bet' || kind === 'raise';
+    if (stage === 'preflop') {
+      if (hand.preflopRaises === 1 && hand.preflopAggressor !== playerId) {
+        hand.threeBetOpportunities.add(playerId);
+      }
+      if (kind === 'call' || aggressive) {
+        hand.vpip.add(playerId);
+      }
+      if (aggressive) {
+        if (hand.preflopRaises === 1 && hand.preflopAggressor !== playerId) {
+          hand.threeBets.add(playerId);
+        }
+        hand.preflopRaises += 1;
+        hand.preflopAggressor = playerId;
+        hand.pfr.add(playerId);
+      }
+    } else {
+      const counters = this.require(playerId);
+      counters.postflopAggressive += aggressive ? 1 : 0;
+      counters.postflopCalls += kind === 'call' ? 1 : 0;
+      if (stage === 'flop') {
+        this.observeFlopAction(hand, playerId, kind);
+      }
+    }
+    if (kind === 'fold') {
+      hand.folded.add(playerId);
+    }
+  }
+
+  private observeFlopAction(hand: HandTally, playerId: string, action: HudAction): void {
+    if (hand.flopAction === 'cbet' && playerId !== hand.preflopAggressor) {
+      hand.foldToCbetOpportunities.add(playerId);
+      if (action === 'fold') {
+        hand.foldsToCbet.add(playerId);
+      }
+    }
+    if (hand.flopAction === 'none' && action === 'bet') {
+      hand.flopAction = playerId === hand.preflopAggressor ? 'cbet' : 'closed';
+    } else if (action === 'raise') {
+      hand.flopAction = 'closed';
+    }
+  }
+
+  private completeHand(payload: Record<string, unknown>): void {
+    const hand = this.hand;
+    this.hand = undefined;
+    if (!hand) {
+      return;
+    }
+    const participants = new Set([...readPlayerIds(payload.playerIds), ...hand.actors]);
+    const remaining = Array.from(participants).filter((playerId) => !hand.folded.has(playerId));
+    const showdown = remaining.length > 1 && hand.sawFlop !== undefined;
+    const winners = new Set(
+      Array.isArray(payload.winningHands)
+        ? payload.winningHands.flatMap((winner) =>
+            winner && typeof winner.playerId === 'string' ? [winner.playerId as string] : [],
+          )
+        : [],
+    );
+    for (const playerId of participants) {
+      const counters = this.require(playerId);
+      counters.hands += 1;
+      counters.vpipHands += hand.vpip.has(playerId) ? 1 : 0;
+      counters.pfrHands += hand.pfr.has(playerId) ? 1 : 0;
+      counters.threeBetOpportunities += hand.threeBetOpportunities.has(playerId) ? 1 : 0;
+      counters.threeBets += hand.threeBets.has(playerId) ? 1 : 0;
+      counters.foldToCbetOpportunities += hand.foldToCbetOpportunities.has(playerId) ? 1 : 0;
+      counters.foldsToCbet += hand.foldsToCbet.has(playerId) ? 1 : 0;
+      const sawFlop = hand.sawFlop?.has(playerId) || (showdown && remaining.includes(playerId));
+      counters.sawFlop += sawFlop ? 1 : 0;
+      if (showdown && remaining.includes(playerId)) {
+        counters.wentToShowdown += 1;
+        counters.wonAtShowdown += winners.has(playerId) ? 1 : 0;
+      }
+    }
+  }
+
+  private require(playerId: string): HudCounters {
+    let counters = this.players.get(playerId);
+    if (!counters) {
+      counters = emptyHudCounters();
+      this.players.set(playerId, counters);
+    }
+    return counters;
+  }
+}
@@ -0,0 +1,102 @@
+import type {
+  Leaderboard,
+  LeaderboardEntry,
+  LeaderboardQuery,
+  LeaderboardSort,
+  PlayerRoomRecord,
+  RegisteredPlayer,
+} from './protocol';
+
+type LeaderboardTally = Omit<LeaderboardEntry, 'rank' | 'buyInsAtomic' | 'netProfitAtomic'> & {
+  buyIns: bigint;
+  netProfit: bigint;
+};
+
+const ROI_PRECISION = 10_000n;
+
+const compareBigInt = (a: bigint, b: bigint) => (a === b ? 0 : a > b ? 1 : -1);
+
+const COMPARATORS: Record<LeaderboardSort, (a: LeaderboardTally, b: LeaderboardTally) => number> = {
+  net_profit: (a, b) => compareBigInt(a.netProfit, b.netProfit),
+  roi: (a, b) => a.roi - b.roi,
+  tournaments_won: (a, b) => a.tournamentsWon - b.tournamentsWon,
+  hands_played: (a, b) => a.handsPlayed - b.handsPlayed,
+};
+
+const inWindow = (record: PlayerRoomRecord, query: LeaderboardQuery) => {
+  const joinedAt = Date.parse(record.joinedAt);
+  return (
+    (!query.gameType || record.gameType === query.gameType) &&
+    (!query.since || joinedAt >= Date.parse(query.since)) &&
+    (!query.until || joinedAt < Date.parse(query.until))
+  );
+};
+
+const tallyPlayer = (player: RegisteredPlayer, records: PlayerRoomRecord[]): LeaderboardTally => {
+  const rooms = new Set<string>();
+  let handsPlayed = 0;
+  let buyIns = 0n;
+  let netProfit = 0n;
+  let tournamentsPlayed = 0;
+  let tournamentsWon = 0;
+  for (const record of records) {
+    rooms.add(record.roomId);
+    handsPlayed += record.handsPlayed;
+    if (record.netResultAtomic === undefined) {
+      continue;
+    }
+    buyIns += BigInt(record.buyInAtomic);
+    netProfit += BigInt(record.netResultAtomic);
+    if (record.finish) {
+      tournamentsPlayed += 1;
+      tournamentsWon += record.finish.place === 1 ? 1 : 0;
+    }
+  }
+  return {
+    registryId: player.registryId,
+    displayName: player.displayName,
+    agentCardUrl: player.agentCardUrl,
+    payoutAddress: player.payoutAddress,
+    roomsPlayed: rooms.size,
+    handsPlayed,
+    buyIns,
+    netProfit,
+    roi: buyIns > 0n ? Number((netProfit * ROI_PRECISION) / buyIns) / Number(ROI_PRECISION) : 0,
+    tournamentsPlayed,
+    tournamentsWon,
+  };
+};
+
+export const buildLeaderboard = (
+  players: RegisteredPlayer[],
+  rooms: Map<string, PlayerRoomRecord[]>,
+  query: LeaderboardQuery,
+): Leaderboard => {
+  const primary = COMPARATORS[query.sortBy];
+  const tallies = players
+    .map((player) => ({
+      player,
+      records: (rooms.get(player.registryId) ?? []).filter((record) => !record.refunded && inWindow(record, query)),
+    }))
+    .filter(({ records }) => records.length > 0)
+    .map(({ player, records }) => tallyPlayer(player, records))
+    .sort(
+      (a, b) =>
+        primary(b, a) ||
+        COMPARATORS.net_profit(b, a) ||
+        COMPARATORS.hands_played(b, a) ||
+        a.registryId.localeCompare(b.registryId),
+    );
+  return {
+    gameType: query.gameType,
+    since: query.since,
+    until: query.until,
+    sortBy: query.sortBy,
+    entries: tallies.slice(0, query.limit).map(({ buyIns, netProfit, ...tally }, index) => ({
+      ...tally,
+      rank: index + 1,
+      buyInsAtomic: buyIns.toString(),
+      netProfitAtomic: netProfit.toString(),
+    })),
+  };
+};
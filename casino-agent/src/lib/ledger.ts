@@ -0,0 +1,131 @@
+import type { LobbyStore } from './lobby-store';
+import type { LedgerEntry, LedgerPage, LedgerTransaction, LedgerTransactionKind, ListLedgerInput } from './protocol';
+
+export const CASINO_ACCOUNT = 'casino';
+export const DPS_ACCOUNT = 'dps';
+export const playerAccount = (address: string) => `player:${address.toLowerCase()}`;
+
+export type LedgerRecordInput = {
+  kind: LedgerTransactionKind;
+  roomId: string;
+  playerId?: string;
+  from: string;
+  to: string;
+  amountAtomic: string;
+  asset: string;
+  network: string;
+  facilitatorResponse?: Record<string, unknown>;
+};
+
+export type LedgerQuery = Omit<ListLedgerInput, 'roomId'> & {
+  roomId?: string;
+};
+
+export type LedgerRoomTotals = Record<LedgerTransactionKind, bigint> & {
+  buyInPlayers: Set<string>;
+  paidPlayers: Map<string, bigint>;
+  refundedPlayers: Map<string, bigint>;
+  cashedOutPlayers: Map<string, bigint>;
+};
+
+const ROOM_TOTALS_PAGE_SIZE = 500;
+
+export class Ledger {
+  private readonly store?: LobbyStore;
+  private readonly transactions: LedgerTransaction[] = [];
+
+  constructor(options: { store?: LobbyStore }) {
+    this.store = options.store;
+  }
+
+  public async record(input: LedgerRecordInput): Promise<LedgerTransaction> {
+    const amount = BigInt(input.amountAtomic);
+    if (amount <= 0n) {
+      throw new Error(`Ledger ${input.kind} for room ${input.roomId} must move a positive amount.`);
+    }
+    const entries: LedgerEntry[] = [
+      { account: input.from, amountAtomic: (-amount).toString() },
+      { account: input.to, amountAtomic: amount.toString() },
+    ];
+    const draft: Omit<LedgerTransaction, 'id'> = {
+      ...input,
+      amountAtomic: amount.toString(),
+      entries,
+      createdAt: new Date().toISOString(),
+    };
+    if (this.store) {
+      const id = await this.store.appendLedgerTransaction(draft);
+      return { ...draft, id };
+    }
+    const transaction: LedgerTransaction = { ...draft, id: this.transactions.length + 1 };
+    this.transactions.push(transaction);
+    return transaction;
+  }
+
+  public async recordSafely(input: LedgerRecordInput): Promise<void> {
+    try {
+      await this.record(input);
+    } catch (error) {
+      console.error(`[casino-agent] Failed to record ${input.kind} for room ${input.roomId} in the ledger:`, error);
+    }
+  }
+
+  public async list(query: LedgerQuery): Promise<LedgerPage> {
+    const fetchLimit = query.limit + 1;
+    const transactions = this.store
+      ? await this.store.listLedgerTransactions({ roomId: query.roomId, after: query.after, limit: fetchLimit })
+      : this.transactions
+          .filter((transaction) => transaction.id > query.after && (!query.roomId || transaction.roomId === query.roomId))
+          .slice(0, fetchLimit);
+    const page = transactions.slice(0, query.limit);
+    return {
+      transactions: page,
+      nextCursor: page[page.length - 1]?.id ?? query.after,
+      hasMore: transactions.length > query.limit,
+    };
+  }
+
+  public async summarizeRoom(roomId: string): Promise<LedgerRoomTotals> {
+    const totals: LedgerRoomTotals = {
+      buy_in: 0n,
+      dps_fee: 0n,
+      payout: 0n,
+      refund: 0n,
+      cash_out: 0n,
+      buyInPlayers: new Set(),
+      paidPlayers: new Map(),
+      refundedPlayers: new Map(),
+      cashedOutPlayers: new Map(),
+    };
+    let after = 0;
+    for (;;) {
+      const page = await this.list({ roomId, after, limit: ROOM_TOTALS_PAGE_SIZE });
+      for (const transaction of page.transactions) {
+        const amount = BigInt(transaction.amountAtomic);
+        totals[transaction.kind] += amount;
+        if (!transaction.playerId) {
+          continue;
+        }
+        if (transaction.kind === 'buy_in') {
+          totals.buyInPlayers.add(transaction.playerId);
+        } else if (transaction.kind === 'payout') {
+          totals.paidPlayers.set(transaction.playerId, (totals.paidPlayers.get(transaction.playerId) ?? 0n) + amount);
+        } else if (transaction.kind === 'refund') {
+          totals.refundedPlayers.set(
+            transaction.playerId,
+            (totals.refundedPlayers.get(transaction.playerId) ?? 0n) + amount,
+          );
+        } else if (transaction.kind === 'cash_out') {
+          totals.cashedOutPlayers.set(
+            transaction.playerId,
+            (totals.cashedOutPlayers.get(transaction.playerId) ?? 0n) + amount,
+          );
+        }
+      }
+      if (!page.hasMore) {
+        return totals;
+      }
+      after = page.nextCursor;
+    }
+  }
+}
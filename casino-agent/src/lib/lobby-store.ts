@@ -0,0 +1,819 @@
+import { mkdirSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { Database } from 'bun:sqlite';
+
+import type {
+  HandRecord,
+  LedgerEntry,
+  LedgerTransaction,
+  PlayerFinish,
+  PlayerRating,
+  RegisteredPlayer,
+  RoomCancellation,
+  RoomCheckpoint,
+  RoomConfig,
+  RoomEvent,
+  RoomEventType,
+  RoomState,
+} from './protocol';
+import type { PlayerCashOut } from './cash-out';
+import type { PayoutReceipt } from './payout-processor';
+import type { PayoutJob } from './payout-queue';
+import type { PlayerPayout } from './prize-structure';
+import type { PlayerRefund } from './refund-processor';
+import type { RoomAgentSkills } from './room-definitions';
+
+export type StoredPlayerProfile = {
+  playerId: string;
+  payoutAddress: string;
+  buyInAtomic: string;
+  agentCardUrl?: string;
+  rakeAtomic?: string;
+  refund?: PlayerRefund;
+  payout?: PlayerPayout;
+  cashOut?: PlayerCashOut;
+  cashOutRequestedAt?: string;
+  registryId?: string;
+  finish?: PlayerFinish;
+  joinedAt?: string;
+  handsPlayed?: number;
+};
+
+export type StoredRoom = {
+  roomId: string;
+  gameType: string;
+  config: RoomConfig;
+  roomAgentCardUrl: string;
+  roomAgentSkills: RoomAgentSkills;
+  roomBaseUrl?: string;
+  launchedPort?: number;
+  launchedPid?: number;
+  summary?: RoomState;
+  registrationClosed: boolean;
+  payoutSettled: boolean;
+  cancellation?: RoomCancellation;
+  dpsFeesAtomic: string;
+  eventSecret?: string;
+  roomEventSequence: number;
+  ratingsApplied: boolean;
+};
+
+export type StoredRoomCheckpoints = {
+  latest: RoomCheckpoint;
+  completedHand?: RoomCheckpoint;
+};
+
+export type StoredPlayerRating = PlayerRating & {
+  registryId: string;
+};
+
+export type StoredRoomState = StoredRoom & {
+  createdAt: string;
+  playerProfiles: StoredPlayerProfile[];
+  events: RoomEvent[];
+  eventCount: number;
+  checkpoints?: StoredRoomCheckpoints;
+};
+
+export type StoredEventQuery = {
+  roomId?: string;
+  after: number;
+  before?: number;
+  limit: number;
+  types?: RoomEventType[];
+};
+
+export type StoredLedgerQuery = {
+  roomId?: string;
+  after: number;
+  limit: number;
+};
+
+export interface LobbyStore {
+  loadRooms(options: { eventLimit: number }): Promise<StoredRoomState[]>;
+  saveRoom(room: StoredRoom): Promise<void>;
+  savePlayerProfile(roomId: string, profile: StoredPlayerProfile): Promise<void>;
+  saveRoomCheckpoints(roomId: string, checkpoints: StoredRoomCheckpoints): Promise<void>;
+  savePrivateHandRecord(record: HandRecord): Promise<void>;
+  loadPrivateHandRecord(roomId: string, handNumber: number): Promise<HandRecord | undefined>;
+  appendEvent(event: RoomEvent): Promise<void>;
+  loadLastEventSequence(): Promise<number>;
+  listEvents(query: StoredEventQuery): Promise<RoomEvent[]>;
+  appendLedgerTransaction(transaction: Omit<LedgerTransaction, 'id'>): Promise<number>;
+  listLedgerTransactions(query: StoredLedgerQuery): Promise<LedgerTransaction[]>;
+  savePayoutJob(job: PayoutJob): Promise<void>;
+  loadPayoutJobs(): Promise<PayoutJob[]>;
+  savePlayer(player: RegisteredPlayer): Promise<void>;
+  loadPlayers(): Promise<RegisteredPlayer[]>;
+  savePlayerRating(rating: StoredPlayerRating): Promise<void>;
+  loadPlayerRatings(): Promise<StoredPlayerRating[]>;
+  close(): void;
+}
+
+type RoomRow = {
+  room_id: string;
+  game_type: string;
+  config: string;
+  room_agent_card_url: string;
+  room_agent_skills: string;
+  room_base_url: string | null;
+  launched_port: number | null;
+  launched_pid: number | null;
+  summary: string | null;
+  registration_closed: number;
+  payout_settled: number;
+  cancellation: string | null;
+  dps_fees_atomic: string | null;
+  event_secret: string | null;
+  room_event_sequence: number;
+  ratings_applied: number;
+  created_at: string;
+};
+
+type PlayerRow = {
+  player_id: string;
+  payout_address: string;
+  buy_in_atomic: string;
+  agent_card_url: string | null;
+  rake_atomic: string | null;
+  refund: string | null;
+  payout: string | null;
+  cash_out: string | null;
+  cash_out_requested_at: string | null;
+  registry_id: string | null;
+  finish: string | null;
+  joined_at: string | null;
+  hands_played: number | null;
+};
+
+type CheckpointRow = {
+  latest: string;
+  completed_hand: string | null;
+};
+
+type EventRow = {
+  id: number;
+  event: string;
+};
+
+type LedgerRow = {
+  id: number;
+  kind: LedgerTransaction['kind'];
+  room_id: string;
+  player_id: string | null;
+  from_account: string;
+  to_account: string;
+  amount_atomic: string;
+  asset: string;
+  network: string;
+  facilitator_response: string | null;
+  created_at: string;
+};
+
+type LedgerEntryRow = {
+  transaction_id: number;
+  account: string;
+  amount_atomic: string;
+};
+
+type PayoutJobRow = {
+  idempotency_key: string;
+  kind: PayoutJob['kind'];
+  room_id: string;
+  player_id: string;
+  place: number;
+  payout_address: string;
+  amount_atomic: string;
+  reason: string | null;
+  status: PayoutJob['status'];
+  attempts: number;
+  next_attempt_at: string | null;
+  submitted_at: string | null;
+  last_error: string | null;
+  receipt: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type RegisteredPlayerRow = {
+  registry_id: string;
+  agent_card_url: string;
+  payout_address: string;
+  display_name: string;
+  display_names: string;
+  first_seen_at: string;
+  last_seen_at: string;
+};
+
+type PlayerRatingRow = {
+  registry_id: string;
+  game_type: string;
+  rating: number;
+  rooms_rated: number;
+  updated_at: string;
+};
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS rooms (
+    room_id TEXT PRIMARY KEY,
+    game_type TEXT NOT NULL,
+    config TEXT NOT NULL,
+    room_agent_card_url TEXT NOT NULL,
+    room_agent_skills TEXT NOT NULL,
+    room_base_url TEXT,
+    launched_port INTEGER,
+    launched_pid INTEGER,
+    summary TEXT,
+    registration_closed INTEGER NOT NULL DEFAULT 0,
+    payout_settled INTEGER NOT NULL DEFAULT 0,
+    cancellation TEXT,
+    dps_fees_atomic TEXT,
+    event_secret TEXT,
+    room_event_sequence INTEGER NOT NULL DEFAULT 0,
+    ratings_applied INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS room_players (
+    room_id TEXT NOT NULL REFERENCES rooms(room_id) ON DELETE CASCADE,
+    player_id TEXT NOT NULL,
+    payout_address TEXT NOT NULL,
+    buy_in_atomic TEXT NOT NULL,
+    agent_card_url TEXT,
+    rake_atomic TEXT,
+    refund TEXT,
+    payout TEXT,
+    cash_out TEXT,
+    cash_out_requested_at TEXT,
+    registry_id TEXT,
+    finish TEXT,
+    joined_at TEXT,
+    hands_played INTEGER,
+    PRIMARY KEY (room_id, player_id)
+  );
+  CREATE TABLE IF NOT EXISTS room_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    room_id TEXT NOT NULL REFERENCES rooms(room_id) ON DELETE CASCADE,
+    event TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS room_events_room_idx ON room_events (room_id, id);
+  CREATE TABLE IF NOT EXISTS room_checkpoints (
+    room_id TEXT PRIMARY KEY REFERENCES rooms(room_id) ON DELETE CASCADE,
+    latest TEXT NOT NULL,
+    completed_hand TEXT,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS private_hand_records (
+    room_id TEXT NOT NULL REFERENCES rooms(room_id) ON DELETE CASCADE,
+    hand_number INTEGER NOT NULL,
+    record TEXT NOT NULL,
+    PRIMARY KEY (room_id, hand_number)
+  );
+  CREATE TABLE IF NOT EXISTS ledger_transactions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    kind TEXT NOT NULL,
+    room_id TEXT NOT NULL,
+    player_id TEXT,
+    from_account TEXT NOT NULL,
+    to_account TEXT NOT NULL,
+    amount_atomic TEXT NOT NULL,
+    asset TEXT NOT NULL,
+    network TEXT NOT NULL,
+    facilitator_response TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS ledger_transactions_room_idx ON ledger_transactions (room_id, id);
+  CREATE TABLE IF NOT EXISTS ledger_entries (
+    transaction_id INTEGER NOT NULL REFERENCES ledger_transactions(id) ON DELETE CASCADE,
+    account TEXT NOT NULL,
+    amount_atomic TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS ledger_entries_transaction_idx ON ledger_entries (transaction_id);
+  CREATE TABLE IF NOT EXISTS payout_jobs (
+    idempotency_key TEXT PRIMARY KEY,
+    kind TEXT NOT NULL DEFAULT 'prize',
+    room_id TEXT NOT NULL,
+    player_id TEXT NOT NULL,
+    place INTEGER NOT NULL,
+    payout_address TEXT NOT NULL,
+    amount_atomic TEXT NOT NULL,
+    reason TEXT,
+    status TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TEXT,
+    submitted_at TEXT,
+    last_error TEXT,
+    receipt TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS payout_jobs_room_idx ON payout_jobs (room_id);
+  CREATE TABLE IF NOT EXISTS players (
+    registry_id TEXT PRIMARY KEY,
+    agent_card_url TEXT NOT NULL,
+    payout_address TEXT NOT NULL,
+    display_name TEXT NOT NULL,
+    display_names TEXT NOT NULL,
+    first_seen_at TEXT NOT NULL,
+    last_seen_at TEXT NOT NULL,
+    UNIQUE (agent_card_url, payout_address)
+  );
+  CREATE TABLE IF NOT EXISTS player_ratings (
+    registry_id TEXT NOT NULL REFERENCES players(registry_id) ON DELETE CASCADE,
+    game_type TEXT NOT NULL,
+    rating REAL NOT NULL,
+    rooms_rated INTEGER NOT NULL DEFAULT 0,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (registry_id, game_type)
+  );
+`;
+
+const toRoomEvent = (row: EventRow): RoomEvent => ({
+  ...(JSON.parse(row.event) as RoomEvent),
+  sequence: row.id,
+});
+
+const toRoomCheckpoints = (row: CheckpointRow | null): StoredRoomCheckpoints | undefined =>
+  row
+    ? {
+        latest: JSON.parse(row.latest) as RoomCheckpoint,
+        completedHand: row.completed_hand ? (JSON.parse(row.completed_hand) as RoomCheckpoint) : undefined,
+      }
+    : undefined;
+
+export class SqliteLobbyStore implements LobbyStore {
+  private readonly db: Database;
+
+  constructor(path: string) {
+    if (path !== ':memory:') {
+      mkdirSync(dirname(resolve(path)), { recursive: true });
+    }
+    this.db = new Database(path, { create: true });
+    this.db.exec('PRAGMA journal_mode = WAL;');
+    this.db.exec('PRAGMA foreign_keys = ON;');
+    this.db.exec(SCHEMA);
+    this.ensureColumn('rooms', 'cancellation', 'TEXT');
+    this.ensureColumn('room_players', 'refund', 'TEXT');
+    this.ensureColumn('room_players', 'agent_card_url', 'TEXT');
+    this.ensureColumn('room_players', 'payout', 'TEXT');
+    this.ensureColumn('room_players', 'rake_atomic', 'TEXT');
+    this.ensureColumn('rooms', 'dps_fees_atomic', 'TEXT');
+    this.ensureColumn('room_players', 'cash_out', 'TEXT');
+    this.ensureColumn('payout_jobs', 'kind', "TEXT NOT NULL DEFAULT 'prize'");
+    this.ensureColumn('rooms', 'event_secret', 'TEXT');
+    this.ensureColumn('room_players', 'registry_id', 'TEXT');
+    this.ensureColumn('room_players', 'finish', 'TEXT');
+    this.ensureColumn('room_players', 'joined_at', 'TEXT');
+    this.ensureColumn('room_players', 'hands_played', 'INTEGER');
+    this.ensureColumn('rooms', 'ratings_applied', 'INTEGER NOT NULL DEFAULT 0');
+    this.ensureColumn('payout_jobs', 'reason', 'TEXT');
+    this.ensureColumn('rooms', 'launched_pid', 'INTEGER');
+    this.ensureColumn('room_players', 'cash_out_requested_at', 'TEXT');
+    this.ensureColumn('rooms', 'room_event_sequence', 'INTEGER NOT NULL DEFAULT 0');
+  }
+
+  public async loadRooms(options: { eventLimit: number }): Promise<StoredRoomState[]> {
+    const rooms = this.db.query<RoomRow, []>('SELECT * FROM rooms ORDER BY created_at ASC').all();
+    const playersQuery = this.db.query<PlayerRow, [string]>(
+      `SELECT player_id, payout_address, buy_in_atomic, agent_card_url, rake_atomic, refund, payout, cash_out,
+        cash_out_requested_at, registry_id, finish, joined_at, hands_played
+      FROM room_players WHERE room_id = ?`,
+    );
+    const eventCountQuery = this.db.query<{ count: number }, [string]>(
+      'SELECT COUNT(*) AS count FROM room_events WHERE room_id = ?',
+    );
+    const eventsQuery = this.db.query<EventRow, [string, number]>(
+      'SELECT id, event FROM (SELECT id, event FROM room_events WHERE room_id = ? ORDER BY id DESC LIMIT ?) ORDER BY id ASC',
+    );
+    const checkpointQuery = this.db.query<CheckpointRow, [string]>(
+      'SELECT latest, completed_hand FROM room_checkpoints WHERE room_id = ?',
+    );
+
+    return rooms.map((row) => ({
+      roomId: row.room_id,
+      gameType: row.game_type,
+      config: JSON.parse(row.config) as RoomConfig,
+      roomAgentCardUrl: row.room_agent_card_url,
+      roomAgentSkills: JSON.parse(row.room_agent_skills) as RoomAgentSkills,
+      roomBaseUrl: row.room_base_url ?? undefined,
+      launchedPort: row.launched_port ?? undefined,
+      launchedPid: row.launched_pid ?? undefined,
+      summary: row.summary ? (JSON.parse(row.summary) as RoomState) : undefined,
+      registrationClosed: row.registration_closed === 1,
+      payoutSettled: row.payout_settled === 1,
+      cancellation: row.cancellation ? (JSON.parse(row.cancellation) as RoomCancellation) : undefined,
+      dpsFeesAtomic: row.dps_fees_atomic ?? '0',
+      eventSecret: row.event_secret ?? undefined,
+      roomEventSequence: row.room_event_sequence,
+      ratingsApplied: row.ratings_applied === 1,
+      createdAt: row.created_at,
+      playerProfiles: playersQuery.all(row.room_id).map((player) => ({
+        playerId: player.player_id,
+        payoutAddress: player.payout_address,
+        buyInAtomic: player.buy_in_atomic,
+        agentCardUrl: player.agent_card_url ?? undefined,
+        rakeAtomic: player.rake_atomic ?? undefined,
+        refund: player.refund ? (JSON.parse(player.refund) as PlayerRefund) : undefined,
+        payout: player.payout ? (JSON.parse(player.payout) as PlayerPayout) : undefined,
+        cashOut: player.cash_out ? (JSON.parse(player.cash_out) as PlayerCashOut) : undefined,
+        cashOutRequestedAt: player.cash_out_requested_at ?? undefined,
+        registryId: player.registry_id ?? undefined,
+        finish: player.finish ? (JSON.parse(player.finish) as PlayerFinish) : undefined,
+        joinedAt: player.joined_at ?? undefined,
+        handsPlayed: player.hands_played ?? undefined,
+      })),
+      events: eventsQuery.all(row.room_id, options.eventLimit).map(toRoomEvent),
+      eventCount: eventCountQuery.get(row.room_id)?.count ?? 0,
+      checkpoints: toRoomCheckpoints(checkpointQuery.get(row.room_id)),
+    }));
+  }
+
+  public async saveRoom(room: StoredRoom): Promise<void> {
+    const now = new Date().toISOString();
+    this.db
+      .query(
+        `INSERT INTO rooms (
+          room_id, game_type, config, room_agent_card_url, room_agent_skills, room_base_url,
+          launched_port, launched_pid, summary, registration_closed, payout_settled, cancellation, dps_fees_atomic,
+          event_secret, room_event_sequence, ratings_applied, created_at, updated_at
+        ) VALUES (
+          $roomId, $gameType, $config, $cardUrl, $skills, $baseUrl,
+          $launchedPort, $launchedPid, $summary, $registrationClosed, $payoutSettled, $cancellation, $dpsFeesAtomic,
+          $eventSecret, $roomEventSequence, $ratingsApplied, $now, $now
+        )
+        ON CONFLICT (room_id) DO UPDATE SET
+          config = excluded.config,
+          room_agent_card_url = excluded.room_agent_card_url,
+          room_agent_skills = excluded.room_agent_skills,
+          room_base_url = excluded.room_base_url,
+          launched_port = excluded.launched_port,
+          launched_pid = excluded.launched_pid,
+          summary = excluded.summary,
+          registration_closed = excluded.registration_closed,
+          payout_settled = excluded.payout_settled,
+          cancellation = excluded.cancellation,
+          dps_fees_atomic = excluded.dps_fees_atomic,
+          event_secret = excluded.event_secret,
+          room_event_sequence = excluded.room_event_sequence,
+          ratings_applied = excluded.ratings_applied,
+          updated_at = excluded.updated_at`,
+      )
+      .run({
+        $roomId: room.roomId,
+        $gameType: room.gameType,
+        $config: JSON.stringify(room.config),
+        $cardUrl: room.roomAgentCardUrl,
+        $skills: JSON.stringify(room.roomAgentSkills),
+        $baseUrl: room.roomBaseUrl ?? null,
+        $launchedPort: room.launchedPort ?? null,
+        $launchedPid: room.launchedPid ?? null,
+        $summary: room.summary ? JSON.stringify(room.summary) : null,
+        $registrationClosed: room.registrationClosed ? 1 : 0,
+        $payoutSettled: room.payoutSettled ? 1 : 0,
+        $cancellation: room.cancellation ? JSON.stringify(room.cancellation) : null,
+        $dpsFeesAtomic: room.dpsFeesAtomic,
+        $eventSecret: room.eventSecret ?? null,
+        $roomEventSequence: room.roomEventSequence,
+        $ratingsApplied: room.ratingsApplied ? 1 : 0,
+        $now: now,
+      });
+  }
+
+  public async savePlayerProfile(roomId: string, profile: StoredPlayerProfile): Promise<void> {
+    this.db
+      .query(
+        `INSERT INTO room_players (
+          room_id, player_id, payout_address, buy_in_atomic, agent_card_url, rake_atomic, refund, payout, cash_out,
+          cash_out_requested_at, registry_id, finish, joined_at, hands_played
+        ) VALUES (
+          $roomId, $playerId, $payoutAddress, $buyInAtomic, $agentCardUrl, $rakeAtomic, $refund, $payout, $cashOut,
+          $cashOutRequestedAt, $registryId, $finish, $joinedAt, $handsPlayed
+        )
+        ON CONFLICT (room_id, player_id) DO UPDATE SET
+          payout_address = excluded.payout_address,
+          buy_in_atomic = excluded.buy_in_atomic,
+          agent_card_url = excluded.agent_card_url,
+          rake_atomic = excluded.rake_atomic,
+          refund = excluded.refund,
+          payout = excluded.payout,
+          cash_out = excluded.cash_out,
+          cash_out_requested_at = excluded.cash_out_requested_at,
+          registry_id = excluded.registry_id,
+          finish = excluded.finish,
+          joined_at = excluded.joined_at,
+          hands_played = excluded.hands_played`,
+      )
+      .run({
+        $roomId: roomId,
+        $playerId: profile.playerId,
+        $payoutAddress: profile.payoutAddress,
+        $buyInAtomic: profile.buyInAtomic,
+        $agentCardUrl: profile.agentCardUrl ?? null,
+        $rakeAtomic: profile.rakeAtomic ?? null,
+        $refund: profile.refund ? JSON.stringify(profile.refund) : null,
+        $payout: profile.payout ? JSON.stringify(profile.payout) : null,
+        $cashOut: profile.cashOut ? JSON.stringify(profile.cashOut) : null,
+        $cashOutRequestedAt: profile.cashOutRequestedAt ?? null,
+        $registryId: profile.registryId ?? null,
+        $finish: profile.finish ? JSON.stringify(profile.finish) : null,
+        $joinedAt: profile.joinedAt ?? null,
+        $handsPlayed: profile.handsPlayed ?? null,
+      });
+  }
+
+  public async saveRoomCheckpoints(roomId: string, checkpoints: StoredRoomCheckpoints): Promise<void> {
+    this.db
+      .query(
+        `INSERT INTO room_checkpoints (room_id, latest, completed_hand, updated_at)
+        VALUES ($roomId, $latest, $completedHand, $updatedAt)
+        ON CONFLICT (room_id) DO UPDATE SET
+          latest = excluded.latest,
+          completed_hand = excluded.completed_hand,
+          updated_at = excluded.updated_at`,
+      )
+      .run({
+        $roomId: roomId,
+        $latest: JSON.stringify(checkpoints.latest),
+        $completedHand: checkpoints.completedHand ? JSON.stringify(checkpoints.completedHand) : null,
+        $updatedAt: new Date().toISOString(),
+      });
+  }
+
+  public async savePrivateHandRecord(record: HandRecord): Promise<void> {
+    this.db
+      .query(
+        `INSERT INTO private_hand_records (room_id, hand_number, record) VALUES ($roomId, $handNumber, $record)
+        ON CONFLICT (room_id, hand_number) DO UPDATE SET record = excluded.record`,
+      )
+      .run({ $roomId: record.roomId, $handNumber: record.handNumber, $record: JSON.stringify(record) });
+  }
+
+  public async loadPrivateHandRecord(roomId: string, handNumber: number): Promise<HandRecord | undefined> {
+    const row = this.db
+      .query<{ record: string }, [string, number]>(
+        'SELECT record FROM private_hand_records WHERE room_id = ? AND hand_number = ?',
+      )
+      .get(roomId, handNumber);
+    return row ? (JSON.parse(row.record) as HandRecord) : undefined;
+  }
+
+  public async appendEvent(event: RoomEvent): Promise<void> {
+    this.db
+      .query('INSERT INTO room_events (id, room_id, event) VALUES (?, ?, ?)')
+      .run(event.sequence ?? null, event.roomId, JSON.stringify(event));
+  }
+
+  public async loadLastEventSequence(): Promise<number> {
+    const row = this.db.query<{ last: number | null }, []>('SELECT MAX(id) AS last FROM room_events').get();
+    return row?.last ?? 0;
+  }
+
+  public async listEvents(query: StoredEventQuery): Promise<RoomEvent[]> {
+    const conditions = ['id > $after'];
+    const params: Record<string, string | number> = { $after: query.after, $limit: query.limit };
+    if (query.roomId) {
+      conditions.push('room_id = $roomId');
+      params.$roomId = query.roomId;
+    }
+    if (query.before !== undefined) {
+      conditions.push('id < $before');
+      params.$before = query.before;
+    }
+    if (query.types && query.types.length > 0) {
+      const placeholders = query.types.map((type, index) => {
+        params[`$type${index}`] = type;
+        return `$type${index}`;
+      });
+      conditions.push(`json_extract(event, '$.eventType') IN (${placeholders.join(', ')})`);
+    }
+    return this.db
+      .query<EventRow, [Record<string, string | number>]>(
+        `SELECT id, event FROM room_events WHERE ${conditions.join(' AND ')}
+        ORDER BY id ${query.before === undefined ? 'ASC' : 'DESC'} LIMIT $limit`,
+      )
+      .all(params)
+      .map(toRoomEvent);
+  }
+
+  public async appendLedgerTransaction(transaction: Omit<LedgerTransaction, 'id'>): Promise<number> {
+    const insertTransaction = this.db.query(
+      `INSERT INTO ledger_transactions (
+        kind, room_id, player_id, from_account, to_account, amount_atomic, asset, network, facilitator_response, created_at
+      ) VALUES ($kind, $roomId, $playerId, $from, $to, $amount, $asset, $network, $response, $createdAt)`,
+    );
+    const insertEntry = this.db.query(
+      'INSERT INTO ledger_entries (transaction_id, account, amount_atomic) VALUES (?, ?, ?)',
+    );
+    const write = this.db.transaction(() => {
+      const result = insertTransaction.run({
+        $kind: transaction.kind,
+        $roomId: transaction.roomId,
+        $playerId: transaction.playerId ?? null,
+        $from: transaction.from,
+        $to: transaction.to,
+        $amount: transaction.amountAtomic,
+        $asset: transaction.asset,
+        $network: transaction.network,
+        $response: transaction.facilitatorResponse ? JSON.stringify(transaction.facilitatorResponse) : null,
+        $createdAt: transaction.createdAt,
+      });
+      const id = Number(result.lastInsertRowid);
+      for (const entry of transaction.entries) {
+        insertEntry.run(id, entry.account, entry.amountAtomic);
+      }
+      return id;
+    });
+    return write();
+  }
+
+  public async listLedgerTransactions(query: StoredLedgerQuery): Promise<LedgerTransaction[]> {
+    const conditions = ['id > $after'];
+    const params: Record<string, string | number> = { $after: query.after, $limit: query.limit };
+    if (query.roomId) {
+      conditions.push('room_id = $roomId');
+      params.$roomId = query.roomId;
+    }
+    const rows = this.db
+      .query<LedgerRow, [Record<string, string | number>]>(
+        `SELECT * FROM ledger_transactions WHERE ${conditions.join(' AND ')} ORDER BY id ASC LIMIT $limit`,
+      )
+      .all(params);
+    if (rows.length === 0) {
+      return [];
+    }
+    const entries = new Map<number, LedgerEntry[]>();
+    const entryRows = this.db
+      .query<LedgerEntryRow, number[]>(
+        `SELECT transaction_id, account, amount_atomic FROM ledger_entries
+        WHERE transaction_id IN (${rows.map(() => '?').join(', ')}) ORDER BY rowid ASC`,
+      )
+      .all(...rows.map((row) => row.id));
+    for (const entry of entryRows) {
+      const list = entries.get(entry.transaction_id) ?? [];
+      list.push({ account: entry.account, amountAtomic: entry.amount_atomic });
+      entries.set(entry.transaction_id, list);
+    }
+    return rows.map((row) => ({
+      id: row.id,
+      kind: row.kind,
+      roomId: row.room_id,
+      playerId: row.player_id ?? undefined,
+      from: row.from_account,
+      to: row.to_account,
+      amountAtomic: row.amount_atomic,
+      asset: row.asset,
+      network: row.network,
+      facilitatorResponse: row.facilitator_response
+        ? (JSON.parse(row.facilitator_response) as Record<string, unknown>)
+        : undefined,
+      entries: entries.get(row.id) ?? [],
+      createdAt: row.created_at,
+    }));
+  }
+
+  public async savePayoutJob(job: PayoutJob): Promise<void> {
+    this.db
+      .query(
+        `INSERT INTO payout_jobs (
+          idempotency_key, kind, room_id, player_id, place, payout_address, amount_atomic, reason, status,
+          attempts, next_attempt_at, submitted_at, last_error, receipt, created_at, updated_at
+        ) VALUES (
+          $key, $kind, $roomId, $playerId, $place, $payoutAddress, $amountAtomic, $reason, $status,
+          $attempts, $nextAttemptAt, $submittedAt, $lastError, $receipt, $createdAt, $updatedAt
+        )
+        ON CONFLICT (idempotency_key) DO UPDATE SET
+          status = excluded.status,
+          attempts = excluded.attempts,
+          next_attempt_at = excluded.next_attempt_at,
+          submitted_at = excluded.submitted_at,
+          last_error = excluded.last_error,
+          receipt = excluded.receipt,
+          updated_at = excluded.updated_at`,
+      )
+      .run({
+        $key: job.idempotencyKey,
+        $kind: job.kind,
+        $roomId: job.roomId,
+        $playerId: job.playerId,
+        $place: job.place ?? 0,
+        $payoutAddress: job.payoutAddress,
+        $amountAtomic: job.amountAtomic,
+        $reason: job.reason ?? null,
+        $status: job.status,
+        $attempts: job.attempts,
+        $nextAttemptAt: job.nextAttemptAt ?? null,
+        $submittedAt: job.submittedAt ?? null,
+        $lastError: job.lastError ?? null,
+        $receipt: job.receipt ? JSON.stringify(job.receipt) : null,
+        $createdAt: job.createdAt,
+        $updatedAt: job.updatedAt,
+      });
+  }
+
+  public async loadPayoutJobs(): Promise<PayoutJob[]> {
+    return this.db
+      .query<PayoutJobRow, []>('SELECT * FROM payout_jobs ORDER BY created_at ASC')
+      .all()
+      .map((row) => ({
+        idempotencyKey: row.idempotency_key,
+        kind: row.kind,
+        roomId: row.room_id,
+        playerId: row.player_id,
+        place: row.place > 0 ? row.place : undefined,
+        payoutAddress: row.payout_address,
+        amountAtomic: row.amount_atomic,
+        reason: row.reason ?? undefined,
+        status: row.status,
+        attempts: row.attempts,
+        nextAttemptAt: row.next_attempt_at ?? undefined,
+        submittedAt: row.submitted_at ?? undefined,
+        lastError: row.last_error ?? undefined,
+        receipt: row.receipt ? (JSON.parse(row.receipt) as PayoutReceipt) : undefined,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+      }));
+  }
+
+  public async savePlayer(player: RegisteredPlayer): Promise<void> {
+    this.db
+      .query(
+        `INSERT INTO players (
+          registry_id, agent_card_url, payout_address, display_name, display_names, first_seen_at, last_seen_at
+        ) VALUES (
+          $registryId, $agentCardUrl, $payoutAddress, $displayName, $displayNames, $firstSeenAt, $lastSeenAt
+        )
+        ON CONFLICT (registry_id) DO UPDATE SET
+          display_name = excluded.display_name,
+          display_names = excluded.display_names,
+          first_seen_at = excluded.first_seen_at,
+          last_seen_at = excluded.last_seen_at`,
+      )
+      .run({
+        $registryId: player.registryId,
+        $agentCardUrl: player.agentCardUrl,
+        $payoutAddress: player.payoutAddress,
+        $displayName: player.displayName,
+        $displayNames: JSON.stringify(player.displayNames),
+        $firstSeenAt: player.firstSeenAt,
+        $lastSeenAt: player.lastSeenAt,
+      });
+  }
+
+  public async loadPlayers(): Promise<RegisteredPlayer[]> {
+    return this.db
+      .query<RegisteredPlayerRow, []>('SELECT * FROM players ORDER BY first_seen_at ASC')
+      .all()
+      .map((row) => ({
+        registryId: row.registry_id,
+        agentCardUrl: row.agent_card_url,
+        payoutAddress: row.payout_address,
+        displayName: row.display_name,
+        displayNames: JSON.parse(row.display_names) as string[],
+        firstSeenAt: row.first_seen_at,
+        lastSeenAt: row.last_seen_at,
+      }));
+  }
+
+  public async savePlayerRating(rating: StoredPlayerRating): Promise<void> {
+    this.db
+      .query(
+        `INSERT INTO player_ratings (registry_id, game_type, rating, rooms_rated, updated_at)
+        VALUES ($registryId, $gameType, $rating, $roomsRated, $updatedAt)
+        ON CONFLICT (registry_id, game_type) DO UPDATE SET
+          rating = excluded.rating,
+          rooms_rated = excluded.rooms_rated,
+          updated_at = excluded.updated_at`,
+      )
+      .run({
+        $registryId: rating.registryId,
+        $gameType: rating.gameType,
+        $rating: rating.rating,
+        $roomsRated: rating.roomsRated,
+        $updatedAt: rating.updatedAt,
+      });
+  }
+
+  public async loadPlayerRatings(): Promise<StoredPlayerRating[]> {
+    return this.db
+      .query<PlayerRatingRow, []>('SELECT * FROM player_ratings')
+      .all()
+      .map((row) => ({
+        registryId: row.registry_id,
+        gameType: row.game_type,
+        rating: row.rating,
+        roomsRated: row.rooms_rated,
+        updatedAt: row.updated_at,
+      }));
+  }
+
+  public close(): void {
+    this.db.close();
+  }
+
+  private ensureColumn(table: string, column: string, definition: string): void {
+    const columns = this.db.query<{ name: string }, []>(`PRAGMA table_info(${table})`).all();
+    if (!columns.some((entry) => entry.name === column)) {
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+}
@@ -1,7 +1,16 @@
-import { createPaymentHeader } from 'x402/client';
+import { createPaymentHeader, preparePaymentHeader, signPaymentHeader } from 'x402/client';
 import { exact } from 'x402/schemes';
 import type { PaymentRequirements } from 'x402/types';
-import { createWalletClient, getAddress, http, type Hex } from 'viem';
+import {
+  createPublicClient,
+  createWalletClient,
+  getAddress,
+  http,
+  keccak256,
+  parseAbi,
+  stringToHex,
+  type Hex,
+} from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
 import { chainFromNetwork } from './networks';
 
@@ -13,10 +22,25 @@ type VerifyResponse = {
 type SettleResponse = {
   success: boolean;
   errorReason?: string;
+  transaction?: string;
+  network?: string;
+  payer?: string;
+};
+
+export type PayoutReceipt = {
+  asset: string;
+  network: PaymentRequirements['network'];
+  settlement: SettleResponse;
 };
 
 const X402_VERSION = 1;
 
+const authorizationStateAbi = parseAbi([
+  'function authorizationState(address authorizer, bytes32 nonce) view returns (bool)',
+]);
+
+const payoutNonce = (idempotencyKey: string): Hex => keccak256(stringToHex(`x402-casino:${idempotencyKey}`));
+
 const normalizeHex = (value: string) => {
   try {
     return getAddress(value);
@@ -38,6 +62,7 @@ type PayoutRequest = {
   payTo: string;
   amountAtomic: bigint | string;
   description?: string;
+  idempotencyKey?: string;
 };
 
 export class PayoutProcessor {
@@ -45,6 +70,7 @@ export class PayoutProcessor {
   private readonly network: PaymentRequirements['network'];
   private readonly asset: { address: string; extra?: Record<string, string> };
   private readonly walletClient;
+  private readonly publicClient;
   private readonly resourceBaseUrl: string;
 
   constructor(config: PayoutConfig) {
@@ -60,9 +86,13 @@ export class PayoutProcessor {
       chain,
       transport: http(),
     });
+    this.publicClient = createPublicClient({
+      chain,
+      transport: http(),
+    });
   }
 
-  public async sendPayout(request: PayoutRequest): Promise<void> {
+  public async sendPayout(request: PayoutRequest): Promise<PayoutReceipt> {
     const amount = typeof request.amountAtomic === 'bigint' ? request.amountAtomic.toString() : request.amountAtomic;
     const requirements: PaymentRequirements = {
       scheme: 'exact',
@@ -77,11 +107,7 @@ export class PayoutProcessor {
       extra: this.asset.extra,
     };
 
-    const paymentHeader = await createPaymentHeader(
-      this.walletClient as unknown as Parameters<typeof createPaymentHeader>[0],
-      X402_VERSION,
-      requirements,
-    );
+    const paymentHeader = await this.createPaymentHeader(requirements, request.idempotencyKey);
     const paymentPayload = exact.evm.decodePayment(paymentHeader);
     paymentPayload.x402Version = X402_VERSION;
 
@@ -101,6 +127,35 @@ export class PayoutProcessor {
     if (!settleResponse.success) {
       throw new Error(settleResponse.errorReason ?? 'Failed to settle payout');
     }
+    return { asset: requirements.asset, network: this.network, settlement: settleResponse };
+  }
+
+  public async findSettlement(idempotencyKey: string): Promise<PayoutReceipt | undefined> {
+    const asset = normalizeHex(this.asset.address) as Hex;
+    const used = await this.publicClient.readContract({
+      address: asset,
+      abi: authorizationStateAbi,
+      functionName: 'authorizationState',
+      args: [this.walletClient.account.address, payoutNonce(idempotencyKey)],
+    });
+    if (!used) {
+      return undefined;
+    }
+    return {
+      asset,
+      network: this.network,
+      settlement: { success: true, network: this.network, payer: this.walletClient.account.address },
+    };
+  }
+
+  private async createPaymentHeader(requirements: PaymentRequirements, idempotencyKey?: string): Promise<string> {
+    const signer = this.walletClient as unknown as Parameters<typeof createPaymentHeader>[0];
+    if (!idempotencyKey) {
+      return createPaymentHeader(signer, X402_VERSION, requirements);
+    }
+    const unsigned = preparePaymentHeader(this.walletClient.account.address, X402_VERSION, requirements);
+    unsigned.payload.authorization.nonce = payoutNonce(idempotencyKey);
+    return signPaymentHeader(signer, requirements, unsigned);
   }
 
   private async facilitatorFetch<T>(path: string, body: unknown): Promise<T> {
@@ -0,0 +1,28 @@
+import { randomBytes } from 'crypto';
+
+import { verifyMessage } from 'viem';
+
+type PayoutProofArgs = {
+  casinoName: string;
+  roomId: string;
+  payoutChallenge: string;
+};
+
+export const createPayoutChallenge = () => randomBytes(32).toString('hex');
+
+export const payoutProofMessage = ({ casinoName, roomId, payoutChallenge }: PayoutProofArgs) =>
+  `${casinoName} payout address for room ${roomId}\nChallenge: ${payoutChallenge}`;
+
+export const verifyPayoutProof = async (
+  args: PayoutProofArgs & { payoutAddress: string; payoutSignature: string },
+): Promise<boolean> => {
+  try {
+    return await verifyMessage({
+      address: args.payoutAddress as `0x${string}`,
+      message: payoutProofMessage(args),
+      signature: args.payoutSignature as `0x${string}`,
+    });
+  } catch {
+    return false;
+  }
+};
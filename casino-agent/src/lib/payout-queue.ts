@@ -0,0 +1,212 @@
+import type { LobbyStore } from './lobby-store';
+import type { PayoutProcessor, PayoutReceipt } from './payout-processor';
+import type { PayoutJobStatus, PayoutKind } from './protocol';
+
+export type PayoutJob = {
+  idempotencyKey: string;
+  kind: PayoutKind;
+  roomId: string;
+  playerId: string;
+  place?: number;
+  payoutAddress: string;
+  amountAtomic: string;
+  reason?: string;
+  status: PayoutJobStatus;
+  attempts: number;
+  nextAttemptAt?: string;
+  submittedAt?: string;
+  lastError?: string;
+  receipt?: PayoutReceipt;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type PayoutJobRequest = Pick<
+  PayoutJob,
+  'kind' | 'roomId' | 'playerId' | 'place' | 'payoutAddress' | 'amountAtomic' | 'reason'
+>;
+
+type ProcessPayoutsRequest = {
+  roomId?: string;
+  kinds?: PayoutKind[];
+  onOutcome?: (job: PayoutJob) => Promise<void>;
+};
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BACKOFF_BASE_MS = 30_000;
+const MAX_BACKOFF_MS = 60 * 60_000;
+
+export const payoutIdempotencyKey = (kind: PayoutKind, roomId: string, playerId: string) =>
+  kind === 'prize' ? `${roomId}:payout:${playerId}` : `${roomId}:${kind}:${playerId}`;
+
+const describeJob = (job: PayoutJob) => {
+  if (job.kind === 'cash_out') {
+    return `Room ${job.roomId} cash-out for ${job.playerId}`;
+  }
+  if (job.kind === 'refund') {
+    return `Room ${job.roomId} refund for ${job.playerId}`;
+  }
+  return `Room ${job.roomId} payout (place ${job.place})`;
+};
+
+export class PayoutQueue {
+  private readonly payoutProcessor: PayoutProcessor;
+  private readonly store?: LobbyStore;
+  private readonly maxAttempts: number;
+  private readonly backoffBaseMs: number;
+  private readonly jobs = new Map<string, PayoutJob>();
+  private readonly inFlight = new Set<string>();
+
+  constructor(options: {
+    payoutProcessor: PayoutProcessor;
+    store?: LobbyStore;
+    maxAttempts?: number;
+    backoffBaseMs?: number;
+  }) {
+    this.payoutProcessor = options.payoutProcessor;
+    this.store = options.store;
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+    this.backoffBaseMs = Math.max(0, options.backoffBaseMs ?? DEFAULT_BACKOFF_BASE_MS);
+  }
+
+  public async restore(): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+    for (const job of await this.store.loadPayoutJobs()) {
+      this.jobs.set(job.idempotencyKey, job);
+    }
+  }
+
+  public listRoomJobs(roomId: string): PayoutJob[] {
+    return Array.from(this.jobs.values())
+      .filter((job) => job.roomId === roomId)
+      .sort((a, b) => (a.place ?? Number.MAX_SAFE_INTEGER) - (b.place ?? Number.MAX_SAFE_INTEGER));
+  }
+
+  public async enqueue(request: PayoutJobRequest): Promise<PayoutJob> {
+    const idempotencyKey = payoutIdempotencyKey(request.kind, request.roomId, request.playerId);
+    const existing = this.jobs.get(idempotencyKey);
+    if (existing) {
+      return existing;
+    }
+    const now = new Date().toISOString();
+    const job: PayoutJob = {
+      ...request,
+      idempotencyKey,
+      status: 'pending',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(idempotencyKey, job);
+    await this.store?.savePayoutJob(job);
+    return job;
+  }
+
+  public async processDue(request: ProcessPayoutsRequest): Promise<void> {
+    const now = Date.now();
+    for (const job of Array.from(this.jobs.values())) {
+      if (request.roomId && job.roomId !== request.roomId) {
+        continue;
+      }
+      if (request.kinds && !request.kinds.includes(job.kind)) {
+        continue;
+      }
+      if (!this.isDue(job, now)) {
+        continue;
+      }
+      await this.attempt(job);
+      await request.onOutcome?.(job);
+    }
+  }
+
+  public async retry(roomId: string, playerId: string, kind?: PayoutKind): Promise<PayoutJob> {
+    const job = this.requireJob(roomId, playerId, kind);
+    if (job.status !== 'failed' && job.status !== 'pending') {
+      throw new Error(`Payout ${job.idempotencyKey} is ${job.status} and cannot be retried.`);
+    }
+    await this.update(job, { status: 'pending', attempts: 0, nextAttemptAt: undefined });
+    return job;
+  }
+
+  public async abandon(roomId: string, playerId: string, kind?: PayoutKind): Promise<PayoutJob> {
+    const job = this.requireJob(roomId, playerId, kind);
+    if (this.inFlight.has(job.idempotencyKey)) {
+      throw new Error(`Payout ${job.idempotencyKey} is being submitted.`);
+    }
+    if (job.status === 'settled' || job.status === 'abandoned') {
+      throw new Error(`Payout ${job.idempotencyKey} is already ${job.status}.`);
+    }
+    await this.update(job, { status: 'abandoned', nextAttemptAt: undefined });
+    return job;
+  }
+
+  private isDue(job: PayoutJob, now: number): boolean {
+    if (this.inFlight.has(job.idempotencyKey)) {
+      return false;
+    }
+    if (job.status === 'submitted') {
+      return true;
+    }
+    return job.status === 'pending' && (!job.nextAttemptAt || Date.parse(job.nextAttemptAt) <= now);
+  }
+
+  private async attempt(job: PayoutJob): Promise<void> {
+    this.inFlight.add(job.idempotencyKey);
+    const attempts = job.attempts + 1;
+    try {
+      let receipt = job.submittedAt ? await this.payoutProcessor.findSettlement(job.idempotencyKey) : undefined;
+      if (!receipt) {
+        await this.update(job, {
+          status: 'submitted',
+          attempts,
+          nextAttemptAt: undefined,
+          submittedAt: new Date().toISOString(),
+        });
+        receipt = await this.payoutProcessor.sendPayout({
+          roomId: job.roomId,
+          payTo: job.payoutAddress,
+          amountAtomic: job.amountAtomic,
+          description: describeJob(job),
+          idempotencyKey: job.idempotencyKey,
+        });
+      }
+      await this.update(job, { status: 'settled', attempts, receipt, nextAttemptAt: undefined, lastError: undefined });
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : 'Payout failed.';
+      console.error(`[casino-agent] Payout ${job.idempotencyKey} failed (attempt ${attempts}):`, error);
+      if (attempts >= this.maxAttempts) {
+        await this.update(job, { status: 'failed', attempts, lastError });
+      } else {
+        const delayMs = Math.min(this.backoffBaseMs * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+        await this.update(job, {
+          status: 'pending',
+          attempts,
+          lastError,
+          nextAttemptAt: new Date(Date.now() + delayMs).toISOString(),
+        });
+      }
+    } finally {
+      this.inFlight.delete(job.idempotencyKey);
+    }
+  }
+
+  private async update(job: PayoutJob, changes: Partial<PayoutJob>): Promise<void> {
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+    await this.store?.savePayoutJob(job);
+  }
+
+  private requireJob(roomId: string, playerId: string, kind?: PayoutKind): PayoutJob {
+    const jobs = Array.from(this.jobs.values()).filter(
+      (entry) => entry.roomId === roomId && entry.playerId === playerId && (!kind || entry.kind === kind),
+    );
+    if (jobs.length === 0) {
+      throw new Error(`No ${kind ? `${kind} ` : ''}payout queued for ${playerId} in room ${roomId}.`);
+    }
+    if (jobs.length > 1) {
+      throw new Error(`${playerId} has several payouts in room ${roomId}. Name the payout kind.`);
+    }
+    return jobs[0];
+  }
+}
@@ -29,6 +29,19 @@ type VerifyResponse = {
   invalidReason?: string;
 };
 
+export type RegistrationQuote = {
+  requirements: PaymentRequirements;
+  dpsFee: SettledPayment;
+};
+
+export type SettledPayment = {
+  payer?: string;
+  amountAtomic: string;
+  asset: string;
+  network: PaymentRequirements['network'];
+  settlement: SettleResponse;
+};
+
 type FacilitatorConfig = {
   url: string;
   payTo: string;
@@ -67,7 +80,7 @@ export class RegistrationPaywall {
     }) as unknown as WalletSigner;
   }
 
-  public async createQuote(roomId: string, priceUsd: number, resourceUrl: string): Promise<PaymentRequirements> {
+  public async createQuote(roomId: string, priceUsd: number, resourceUrl: string): Promise<RegistrationQuote> {
     const calculation = processPriceToAtomicAmount(priceUsd, this.network);
     if ('error' in calculation) {
       throw new Error(calculation.error);
@@ -90,12 +103,20 @@ export class RegistrationPaywall {
     };
 
     const quote = await this.requestDynamicQuote(baseRequirements, maxAmountRequired);
-    await this.settleDpsInvoice(quote.dpsPaymentRequirements);
+    const dpsSettlement = await this.settleDpsInvoice(quote.dpsPaymentRequirements);
     this.rememberQuote(roomId, quote);
-    return quote.paymentRequirements;
+    return {
+      requirements: quote.paymentRequirements,
+      dpsFee: {
+        amountAtomic: quote.dpsPaymentRequirements.maxAmountRequired,
+        asset: quote.dpsPaymentRequirements.asset,
+        network: quote.dpsPaymentRequirements.network,
+        settlement: dpsSettlement,
+      },
+    };
   }
 
-  public async verifyAndSettle(roomId: string, paymentHeader: string | null): Promise<string> {
+  public async verifyAndSettle(roomId: string, paymentHeader: string | null): Promise<SettledPayment> {
     const paymentPayload = this.decodePayment(requirePaymentHeader(paymentHeader));
     const quote = this.findMatchingQuote(roomId, paymentPayload);
     if (!quote) {
@@ -124,7 +145,18 @@ export class RegistrationPaywall {
     }
 
     this.deleteQuote(roomId, quote.id);
-    return settleResponseHeader(settleResponse);
+    const payload = paymentPayload.payload;
+    return {
+      payer: settleResponse.payer ?? ('authorization' in payload ? payload.authorization.from : undefined),
+      amountAtomic: quote.requirements.maxAmountRequired,
+      asset: quote.requirements.asset,
+      network: quote.requirements.network,
+      settlement: settleResponse,
+    };
+  }
+
+  public encodeResponseHeader(payment: SettledPayment): string {
+    return settleResponseHeader(payment.settlement);
   }
 
   private decodePayment(header: string): PaymentPayload {
@@ -143,7 +175,7 @@ export class RegistrationPaywall {
     });
   }
 
-  private async settleDpsInvoice(paymentRequirements: PaymentRequirements): Promise<void> {
+  private async settleDpsInvoice(paymentRequirements: PaymentRequirements): Promise<SettleResponse> {
     const dpsPaymentHeader = await createPaymentHeader(this.walletClient, X402_VERSION, paymentRequirements);
     const paymentPayload = exact.evm.decodePayment(dpsPaymentHeader);
     paymentPayload.x402Version = X402_VERSION;
@@ -164,6 +196,7 @@ export class RegistrationPaywall {
     if (!settleResponse.success) {
       throw new Error(settleResponse.errorReason ?? 'Failed to settle DPS invoice');
     }
+    return settleResponse;
   }
 
   private rememberQuote(roomId: string, quote: QuoteResponse) {
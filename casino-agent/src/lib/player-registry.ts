@@ -0,0 +1,131 @@
+import { randomUUID } from 'crypto';
+
+import type { LobbyStore } from './lobby-store';
+import type { PlayerRating, RatingEntry, RegisteredPlayer } from './protocol';
+import { INITIAL_RATING, rateFinishingOrder } from './ratings';
+
+export type PlayerSighting = {
+  agentCardUrl: string;
+  payoutAddress: string;
+  displayName: string;
+  seenAt?: string;
+};
+
+const registryKey = (agentCardUrl: string, payoutAddress: string) =>
+  `${agentCardUrl}\n${payoutAddress.toLowerCase()}`;
+
+export class PlayerRegistry {
+  private readonly store?: LobbyStore;
+  private readonly players = new Map<string, RegisteredPlayer>();
+  private readonly byKey = new Map<string, string>();
+  private readonly ratings = new Map<string, Map<string, PlayerRating>>();
+
+  constructor(options: { store?: LobbyStore }) {
+    this.store = options.store;
+  }
+
+  public async restore(): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+    for (const player of await this.store.loadPlayers()) {
+      this.index(player);
+    }
+    for (const { registryId, ...rating } of await this.store.loadPlayerRatings()) {
+      this.setRating(registryId, rating);
+    }
+  }
+
+  public list(): RegisteredPlayer[] {
+    return Array.from(this.players.values()).sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+  }
+
+  public get(registryId: string): RegisteredPlayer | undefined {
+    return this.players.get(registryId);
+  }
+
+  public find(agentCardUrl: string, payoutAddress: string): RegisteredPlayer | undefined {
+    const registryId = this.byKey.get(registryKey(agentCardUrl, payoutAddress));
+    return registryId ? this.players.get(registryId) : undefined;
+  }
+
+  public listPlayerRatings(registryId: string): PlayerRating[] {
+    return Array.from(this.ratings.get(registryId)?.values() ?? []);
+  }
+
+  public currentRating(registryId: string | undefined, gameType: string): number {
+    return (registryId ? this.ratings.get(registryId)?.get(gameType)?.rating : undefined) ?? INITIAL_RATING;
+  }
+
+  public listRatings(gameType: string): RatingEntry[] {
+    return Array.from(this.players.values())
+      .flatMap((player) => {
+        const rating = this.ratings.get(player.registryId)?.get(gameType);
+        return rating ? [{ ...rating, registryId: player.registryId, displayName: player.displayName }] : [];
+      })
+      .sort((a, b) => b.rating - a.rating)
+      .map((entry, index) => ({ ...entry, rank: index + 1 }));
+  }
+
+  public async rateFinish(gameType: string, finishingOrder: string[], ratedAt: string): Promise<void> {
+    const updated = rateFinishingOrder(finishingOrder.map((registryId) => this.currentRating(registryId, gameType)));
+    for (const [index, registryId] of finishingOrder.entries()) {
+      const rating: PlayerRating = {
+        gameType,
+        rating: updated[index],
+        roomsRated: (this.ratings.get(registryId)?.get(gameType)?.roomsRated ?? 0) + 1,
+        updatedAt: ratedAt,
+      };
+      this.setRating(registryId, rating);
+      await this.store?.savePlayerRating({ registryId, ...rating });
+    }
+  }
+
+  public async link(sighting: PlayerSighting): Promise<RegisteredPlayer> {
+    const seenAt = sighting.seenAt ?? new Date().toISOString();
+    const registryId = this.byKey.get(registryKey(sighting.agentCardUrl, sighting.payoutAddress));
+    const existing = registryId ? this.players.get(registryId) : undefined;
+    const player: RegisteredPlayer = existing
+      ? {
+          ...existing,
+          displayName: seenAt >= existing.lastSeenAt ? sighting.displayName : existing.displayName,
+          displayNames: existing.displayNames.includes(sighting.displayName)
+            ? existing.displayNames
+            : [...existing.displayNames, sighting.displayName],
+          firstSeenAt: seenAt < existing.firstSeenAt ? seenAt : existing.firstSeenAt,
+          lastSeenAt: seenAt > existing.lastSeenAt ? seenAt : existing.lastSeenAt,
+        }
+      : {
+          registryId: randomUUID(),
+          agentCardUrl: sighting.agentCardUrl,
+          payoutAddress: sighting.payoutAddress.toLowerCase(),
+          displayName: sighting.displayName,
+          displayNames: [sighting.displayName],
+          firstSeenAt: seenAt,
+          lastSeenAt: seenAt,
+        };
+    this.index(player);
+    await this.store?.savePlayer(player);
+    return player;
+  }
+
+  public async touch(registryId: string, seenAt: string): Promise<void> {
+    const player = this.players.get(registryId);
+    if (!player || seenAt <= player.lastSeenAt) {
+      return;
+    }
+    player.lastSeenAt = seenAt;
+    await this.store?.savePlayer(player);
+  }
+
+  private setRating(registryId: string, rating: PlayerRating): void {
+    const byGame = this.ratings.get(registryId) ?? new Map<string, PlayerRating>();
+    byGame.set(rating.gameType, rating);
+    this.ratings.set(registryId, byGame);
+  }
+
+  private index(player: RegisteredPlayer): void {
+    this.players.set(player.registryId, player);
+    this.byKey.set(registryKey(player.agentCardUrl, player.payoutAddress), player.registryId);
+  }
+}
@@ -0,0 +1,74 @@
+export type PrizeStructure =
+  | { kind: 'winner_takes_all' }
+  | { kind: 'top_n'; percentages: number[] }
+  | { kind: 'by_field_size'; tiers: Array<{ minPlayers: number; percentages: number[] }> };
+
+export type PrizeAward = {
+  place: number;
+  playerId: string;
+  amountAtomic: bigint;
+};
+
+export type PlayerPayout = {
+  place: number;
+  amountAtomic: string;
+  paidAt: string;
+};
+
+const BASIS_POINTS = 100;
+
+export const WINNER_TAKES_ALL: PrizeStructure = { kind: 'winner_takes_all' };
+
+export const resolvePrizePercentages = (structure: PrizeStructure, fieldSize: number): number[] => {
+  switch (structure.kind) {
+    case 'winner_takes_all':
+      return [100];
+    case 'top_n':
+      return structure.percentages;
+    case 'by_field_size': {
+      const tier = [...structure.tiers]
+        .sort((a, b) => b.minPlayers - a.minPlayers)
+        .find((entry) => fieldSize >= entry.minPlayers);
+      return tier?.percentages ?? [100];
+    }
+  }
+};
+
+export const allocatePrizes = (
+  totalAtomic: bigint,
+  percentages: number[],
+  finishingOrder: string[],
+): PrizeAward[] => {
+  const places = Math.min(percentages.length, finishingOrder.length);
+  const weights = percentages.slice(0, places).map((value) => BigInt(Math.round(value * BASIS_POINTS)));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0n);
+  if (totalAtomic <= 0n || totalWeight <= 0n) {
+    return [];
+  }
+  const awards = weights.map((weight, index) => ({
+    place: index + 1,
+    playerId: finishingOrder[index],
+    amountAtomic: (totalAtomic * weight) / totalWeight,
+  }));
+  const allocated = awards.reduce((sum, award) => sum + award.amountAtomic, 0n);
+  awards[0].amountAtomic += totalAtomic - allocated;
+  return awards.filter((award) => award.amountAtomic > 0n);
+};
+
+export const assertValidPrizeStructure = (structure: PrizeStructure): void => {
+  const tables =
+    structure.kind === 'winner_takes_all'
+      ? []
+      : structure.kind === 'top_n'
+        ? [structure.percentages]
+        : structure.tiers.map((tier) => tier.percentages);
+  if (structure.kind === 'by_field_size' && structure.tiers.length === 0) {
+    throw new Error('Prize structure needs at least one field-size tier.');
+  }
+  for (const table of tables) {
+    const total = table.reduce((sum, value) => sum + value, 0);
+    if (table.length === 0 || table.some((value) => !Number.isFinite(value) || value < 0) || Math.abs(total - 100) > 0.001) {
+      throw new Error(`Prize percentages must be non-negative and add up to 100 (got ${table.join(', ')}).`);
+    }
+  }
+};
@@ -9,6 +9,7 @@ export const signupInvitationSchema = z.object({
   buyInChips: z.number().positive(),
   smallBlind: z.number().positive().optional(),
   bigBlind: z.number().positive().optional(),
+  payoutChallenge: z.string().min(32),
 });
 export type SignupInvitation = z.infer<typeof signupInvitationSchema>;
 
@@ -17,6 +18,8 @@ const evmAddressSchema = z.string().regex(/^0x[a-fA-F0-9]{40}$/);
 export const playerSignupResponseSchema = z.object({
   displayName: z.string().min(1),
   payoutAddress: evmAddressSchema,
+  payoutSignature: z.string().regex(/^0x[a-fA-F0-9]+$/),
+  clientSeed: z.string().min(1).max(128).optional(),
 });
 export type PlayerSignupResponse = z.infer<typeof playerSignupResponseSchema>;
 
@@ -26,49 +29,139 @@ export const playerSeatSchema = z.object({
   displayName: z.string(),
   stack: z.number().nonnegative(),
   payoutAddress: evmAddressSchema.optional(),
+  timeBankMs: z.number().nonnegative().optional(),
+  sittingOut: z.boolean().optional(),
 });
 export type PlayerSeat = z.infer<typeof playerSeatSchema>;
 
+export const roomSessionSchema = z.object({
+  sessionId: z.string(),
+  status: z.enum(['running', 'completed', 'failed']),
+  startedAt: z.string(),
+  finishedAt: z.string().optional(),
+  error: z.string().optional(),
+});
+export type RoomSession = z.infer<typeof roomSessionSchema>;
+
+export const roomStatusSchema = z.enum(['waiting', 'running', 'idle', 'error', 'ended', 'cancelled']);
+export type RoomStatus = z.infer<typeof roomStatusSchema>;
+
 export const roomStateSchema = z.object({
   roomId: z.string(),
-  status: z.enum(['waiting', 'running', 'idle', 'error', 'ended']),
+  status: roomStatusSchema,
   handCount: z.number().int().nonnegative(),
   players: z.array(playerSeatSchema),
   message: z.string().optional(),
+  session: roomSessionSchema.optional(),
 });
 export type RoomState = z.infer<typeof roomStateSchema>;
 
+export const roomEventTypeSchema = z.enum([
+  'player_registered',
+  'hand_started',
+  'hand_status',
+  'action_taken',
+  'hand_completed',
+  'player_busted',
+  'room_error',
+  'room_status',
+  'room_ended',
+]);
+export type RoomEventType = z.infer<typeof roomEventTypeSchema>;
+
 export const roomEventSchema = z.object({
   roomId: z.string(),
-  eventType: z.enum([
-    'player_registered',
-    'hand_started',
-    'hand_status',
-    'action_taken',
-    'hand_completed',
-    'player_busted',
-    'room_error',
-    'room_status',
-    'room_ended',
-  ]),
+  eventType: roomEventTypeSchema,
   message: z.string(),
   timestamp: z.string(),
   payload: z.record(z.string(), z.any()).optional(),
+  sequence: z.number().int().positive().optional(),
+  roomSequence: z.number().int().positive().optional(),
 });
 export type RoomEvent = z.infer<typeof roomEventSchema>;
 
+export const signedRoomEventSchema = roomEventSchema.extend({
+  signature: z.string().regex(/^[a-f0-9]{64}$/),
+});
+export type SignedRoomEvent = z.infer<typeof signedRoomEventSchema>;
+
+export const roomCheckpointSchema = z.object({
+  roomId: z.string(),
+  timestamp: z.string(),
+  handNumber: z.number().int().nonnegative(),
+  handInProgress: z.boolean(),
+  snapshot: z.record(z.string(), z.unknown()),
+  handRecord: z.record(z.string(), z.unknown()).optional(),
+});
+export type RoomCheckpoint = z.infer<typeof roomCheckpointSchema>;
+
+export const signedRoomCheckpointSchema = roomCheckpointSchema.extend({
+  signature: z.string().regex(/^[a-f0-9]{64}$/),
+});
+export type SignedRoomCheckpoint = z.infer<typeof signedRoomCheckpointSchema>;
+
+export const roomCancellationSchema = z.object({
+  reason: z.string(),
+  cancelledAt: z.string(),
+});
+export type RoomCancellation = z.infer<typeof roomCancellationSchema>;
+
+export const playerRefundSchema = z.object({
+  playerId: z.string(),
+  payoutAddress: evmAddressSchema,
+  amountAtomic: z.string(),
+  status: z.enum(['refunded', 'pending', 'failed']),
+  reason: z.string(),
+  error: z.string().optional(),
+  updatedAt: z.string(),
+});
+export type PlayerRefundSummary = z.infer<typeof playerRefundSchema>;
+
+export const payoutJobStatusSchema = z.enum(['pending', 'submitted', 'settled', 'failed', 'abandoned']);
+export type PayoutJobStatus = z.infer<typeof payoutJobStatusSchema>;
+
+export const payoutKindSchema = z.enum(['prize', 'cash_out', 'refund']);
+export type PayoutKind = z.infer<typeof payoutKindSchema>;
+
+export const roomPayoutSchema = z.object({
+  idempotencyKey: z.string(),
+  kind: payoutKindSchema,
+  playerId: z.string(),
+  place: z.number().int().positive().optional(),
+  payoutAddress: evmAddressSchema,
+  amountAtomic: z.string(),
+  status: payoutJobStatusSchema,
+  attempts: z.number().int().nonnegative(),
+  nextAttemptAt: z.string().optional(),
+  lastError: z.string().optional(),
+  transaction: z.string().optional(),
+  updatedAt: z.string(),
+});
+export type RoomPayout = z.infer<typeof roomPayoutSchema>;
+
 export const roomSummarySchema = z.object({
   roomId: z.string(),
   gameType: z.string(),
   roomAgentCardUrl: z.string().url(),
   roomBaseUrl: z.string().url().optional(),
-  status: z.enum(['waiting', 'running', 'idle', 'error', 'ended']),
+  status: roomStatusSchema,
   handCount: z.number().int().nonnegative(),
   playerCount: z.number().int().nonnegative(),
   message: z.string().optional(),
 });
 export type RoomSummary = z.infer<typeof roomSummarySchema>;
 
+export const roomAccountingSchema = z.object({
+  grossBuyInsAtomic: z.string(),
+  rakeAtomic: z.string(),
+  dpsFeesAtomic: z.string(),
+  netPrizePoolAtomic: z.string(),
+  cashOutsAtomic: z.string(),
+  houseGameResultAtomic: z.string(),
+  houseMarginAtomic: z.string(),
+});
+export type RoomAccounting = z.infer<typeof roomAccountingSchema>;
+
 export const roomSnapshotSchema = z.object({
   roomId: z.string(),
   gameType: z.string(),
@@ -77,6 +170,12 @@ export const roomSnapshotSchema = z.object({
   roomAgentCardUrl: z.string().url(),
   roomBaseUrl: z.string().url().optional(),
   events: z.array(roomEventSchema),
+  eventCursor: z.number().int().nonnegative(),
+  hasEarlierEvents: z.boolean(),
+  cancellation: roomCancellationSchema.optional(),
+  refunds: z.array(playerRefundSchema),
+  payouts: z.array(roomPayoutSchema),
+  accounting: roomAccountingSchema,
 });
 export type RoomSnapshot = z.infer<typeof roomSnapshotSchema>;
 
@@ -90,6 +189,8 @@ export const createRoomInputSchema = z.object({
       register: z.string().optional(),
       start: z.string().optional(),
       summary: z.string().optional(),
+      cashOut: z.string().optional(),
+      restore: z.string().optional(),
     })
     .optional(),
   config: roomConfigSchema.optional(),
@@ -117,6 +218,7 @@ export const registerPlayerResultSchema = z.object({
   displayName: z.string(),
   stack: z.number().nonnegative(),
   payoutAddress: evmAddressSchema.optional(),
+  registryId: z.string().optional(),
 });
 export type RegisterPlayerResult = z.infer<typeof registerPlayerResultSchema>;
 
@@ -126,7 +228,381 @@ export const startRoomInputSchema = z.object({
 });
 export type StartRoomInput = z.infer<typeof startRoomInputSchema>;
 
+export const cancelRoomInputSchema = z.object({
+  roomId: z.string(),
+  reason: z.string().min(1).optional(),
+});
+export type CancelRoomInput = z.infer<typeof cancelRoomInputSchema>;
+
+export const payoutActionInputSchema = z.object({
+  roomId: z.string(),
+  playerId: z.string(),
+  kind: payoutKindSchema.optional(),
+});
+export type PayoutActionInput = z.infer<typeof payoutActionInputSchema>;
+
+export const cashOutPlayerInputSchema = z.object({
+  roomId: z.string(),
+  playerId: z.string(),
+});
+export type CashOutPlayerInput = z.infer<typeof cashOutPlayerInputSchema>;
+
+export const roomCashOutResultSchema = z.object({
+  playerId: z.string(),
+  displayName: z.string(),
+  stack: z.number().nonnegative(),
+});
+export type RoomCashOutResult = z.infer<typeof roomCashOutResultSchema>;
+
+export const listRoomEventsInputSchema = z.object({
+  roomId: z.string(),
+  after: z.number().int().nonnegative().default(0),
+  before: z.number().int().positive().optional(),
+  limit: z.number().int().positive().max(500).default(100),
+  types: z.array(roomEventTypeSchema).optional(),
+});
+export type ListRoomEventsInput = z.infer<typeof listRoomEventsInputSchema>;
+
+export const roomEventPageSchema = z.object({
+  events: z.array(roomEventSchema),
+  nextCursor: z.number().int().nonnegative(),
+  hasMore: z.boolean(),
+});
+export type RoomEventPage = z.infer<typeof roomEventPageSchema>;
+
+export const handActionKindSchema = z.enum(['fold', 'check', 'call', 'bet', 'raise']);
+export type HandActionKind = z.infer<typeof handActionKindSchema>;
+
+export const handSeatSchema = z.object({
+  seatNumber: z.number().int().nonnegative(),
+  playerId: z.string(),
+  displayName: z.string(),
+  startingStack: z.number().nonnegative(),
+  endingStack: z.number().nonnegative(),
+  holeCards: z.array(z.string()),
+});
+export type HandSeat = z.infer<typeof handSeatSchema>;
+
+export const handBlindSchema = z.object({
+  type: z.enum(['small', 'big']),
+  playerId: z.string(),
+  seatNumber: z.number().int().nonnegative(),
+  amount: z.number().nonnegative(),
+});
+export type HandBlind = z.infer<typeof handBlindSchema>;
+
+export const handActionSchema = z.object({
+  street: z.enum(['preflop', 'flop', 'turn', 'river']),
+  playerId: z.string(),
+  seatNumber: z.number().int().nonnegative(),
+  action: handActionKindSchema,
+  amount: z.number().nonnegative().optional(),
+  totalBet: z.number().nonnegative(),
+  allIn: z.boolean(),
+  pot: z.number().nonnegative(),
+  stack: z.number().nonnegative(),
+  autoAction: z.string().optional(),
+  timestamp: z.string(),
+});
+export type HandAction = z.infer<typeof handActionSchema>;
+
+export const handPotSchema = z.object({
+  amount: z.number().nonnegative(),
+  eligiblePlayerIds: z.array(z.string()),
+  winners: z.array(z.object({ playerId: z.string(), amount: z.number().nonnegative() })),
+});
+export type HandPot = z.infer<typeof handPotSchema>;
+
+export const handShowdownSchema = z.object({
+  playerId: z.string(),
+  cards: z.array(z.string()),
+  description: z.string().optional(),
+});
+export type HandShowdown = z.infer<typeof handShowdownSchema>;
+
+export const handWinnerSchema = z.object({
+  playerId: z.string(),
+  amount: z.number().nonnegative(),
+  description: z.string().optional(),
+});
+export type HandWinner = z.infer<typeof handWinnerSchema>;
+
+export const handRecordSchema = z.object({
+  roomId: z.string(),
+  handNumber: z.number().int().positive(),
+  sessionId: z.string().optional(),
+  startedAt: z.string(),
+  completedAt: z.string(),
+  smallBlind: z.number().nonnegative(),
+  bigBlind: z.number().nonnegative(),
+  maxPlayers: z.number().int().positive(),
+  buttonSeat: z.number().int().nonnegative(),
+  seats: z.array(handSeatSchema),
+  blinds: z.array(handBlindSchema),
+  actions: z.array(handActionSchema),
+  board: z.array(z.string()),
+  pots: z.array(handPotSchema),
+  showdown: z.array(handShowdownSchema),
+  winners: z.array(handWinnerSchema),
+});
+export type HandRecord = z.infer<typeof handRecordSchema>;
+
+export const handSummarySchema = handRecordSchema
+  .pick({ handNumber: true, sessionId: true, startedAt: true, completedAt: true, board: true, winners: true })
+  .extend({
+    pot: z.number().nonnegative(),
+    playerCount: z.number().int().nonnegative(),
+  });
+export type HandSummary = z.infer<typeof handSummarySchema>;
+
+export const fairnessCommitmentSchema = z.object({
+  nonce: z.number().int().positive(),
+  serverSeedHash: z.string().regex(/^[a-f0-9]{64}$/),
+  clientSeed: z.string(),
+});
+export type FairnessCommitment = z.infer<typeof fairnessCommitmentSchema>;
+
+export const fairnessRevealSchema = fairnessCommitmentSchema.extend({
+  serverSeed: z.string().min(1),
+});
+export type FairnessReveal = z.infer<typeof fairnessRevealSchema>;
+
+export const verifyFairnessInputSchema = z.object({
+  gameType: z.string().min(1),
+  serverSeed: z.string().min(1),
+  serverSeedHash: z.string().optional(),
+  clientSeed: z.string(),
+  nonce: z.number().int().positive(),
+  config: z.record(z.string(), z.unknown()).optional(),
+});
+export type VerifyFairnessInput = z.infer<typeof verifyFairnessInputSchema>;
+
+export const fairnessVerificationSchema = z.object({
+  roomId: z.string().optional(),
+  gameType: z.string(),
+  nonce: z.number().int().positive(),
+  clientSeed: z.string(),
+  serverSeed: z.string(),
+  serverSeedHash: z.string(),
+  hashMatches: z.boolean().optional(),
+  result: z.record(z.string(), z.unknown()),
+});
+export type FairnessVerification = z.infer<typeof fairnessVerificationSchema>;
+
+export const ledgerTransactionKindSchema = z.enum(['buy_in', 'dps_fee', 'payout', 'refund', 'cash_out']);
+export type LedgerTransactionKind = z.infer<typeof ledgerTransactionKindSchema>;
+
+export const ledgerEntrySchema = z.object({
+  account: z.string(),
+  amountAtomic: z.string(),
+});
+export type LedgerEntry = z.infer<typeof ledgerEntrySchema>;
+
+export const ledgerTransactionSchema = z.object({
+  id: z.number().int().positive(),
+  kind: ledgerTransactionKindSchema,
+  roomId: z.string(),
+  playerId: z.string().optional(),
+  from: z.string(),
+  to: z.string(),
+  amountAtomic: z.string(),
+  asset: z.string(),
+  network: z.string(),
+  facilitatorResponse: z.record(z.string(), z.any()).optional(),
+  entries: z.array(ledgerEntrySchema),
+  createdAt: z.string(),
+});
+export type LedgerTransaction = z.infer<typeof ledgerTransactionSchema>;
+
+export const listLedgerInputSchema = z.object({
+  roomId: z.string().optional(),
+  after: z.number().int().nonnegative().default(0),
+  limit: z.number().int().positive().max(500).default(100),
+});
+export type ListLedgerInput = z.infer<typeof listLedgerInputSchema>;
+
+export const ledgerPageSchema = z.object({
+  transactions: z.array(ledgerTransactionSchema),
+  nextCursor: z.number().int().nonnegative(),
+  hasMore: z.boolean(),
+});
+export type LedgerPage = z.infer<typeof ledgerPageSchema>;
+
+export const roomReconciliationSchema = z.object({
+  roomId: z.string(),
+  ledger: z.object({
+    buyInsAtomic: z.string(),
+    dpsFeesAtomic: z.string(),
+    payoutsAtomic: z.string(),
+    refundsAtomic: z.string(),
+    cashOutsAtomic: z.string(),
+  }),
+  expected: z.object({
+    buyInsAtomic: z.string(),
+    payoutsAtomic: z.string(),
+    refundsAtomic: z.string(),
+    cashOutsAtomic: z.string(),
+  }),
+  balanced: z.boolean(),
+  issues: z.array(z.string()),
+});
+export type RoomReconciliation = z.infer<typeof roomReconciliationSchema>;
+
+export const registeredPlayerSchema = z.object({
+  registryId: z.string(),
+  agentCardUrl: z.string().url(),
+  payoutAddress: evmAddressSchema,
+  displayName: z.string(),
+  displayNames: z.array(z.string()),
+  firstSeenAt: z.string(),
+  lastSeenAt: z.string(),
+});
+export type RegisteredPlayer = z.infer<typeof registeredPlayerSchema>;
+
+export const playerFinishSchema = z.object({
+  place: z.number().int().positive(),
+  fieldSize: z.number().int().positive(),
+  prizeAtomic: z.string(),
+  finishedAt: z.string(),
+});
+export type PlayerFinish = z.infer<typeof playerFinishSchema>;
+
+export const playerRoomRecordSchema = z.object({
+  roomId: z.string(),
+  gameType: z.string(),
+  playerId: z.string(),
+  joinedAt: z.string(),
+  handsPlayed: z.number().int().nonnegative(),
+  buyInAtomic: z.string(),
+  winningsAtomic: z.string(),
+  netResultAtomic: z.string().optional(),
+  refunded: z.boolean(),
+  finish: playerFinishSchema.optional(),
+});
+export type PlayerRoomRecord = z.infer<typeof playerRoomRecordSchema>;
+
+export const playerRatingSchema = z.object({
+  gameType: z.string(),
+  rating: z.number(),
+  roomsRated: z.number().int().nonnegative(),
+  updatedAt: z.string(),
+});
+export type PlayerRating = z.infer<typeof playerRatingSchema>;
+
+export const ratingEntrySchema = playerRatingSchema.extend({
+  rank: z.number().int().positive(),
+  registryId: z.string(),
+  displayName: z.string(),
+});
+export type RatingEntry = z.infer<typeof ratingEntrySchema>;
+
+export const playerStatsSchema = registeredPlayerSchema.extend({
+  ratings: z.array(playerRatingSchema),
+  roomsJoined: z.number().int().nonnegative(),
+  totalBuyInsAtomic: z.string(),
+  totalWinningsAtomic: z.string(),
+  finishes: z.array(playerFinishSchema.extend({ roomId: z.string() })),
+});
+export type PlayerStats = z.infer<typeof playerStatsSchema>;
+
+export const playerDetailSchema = playerStatsSchema.extend({
+  rooms: z.array(playerRoomRecordSchema),
+});
+export type PlayerDetail = z.infer<typeof playerDetailSchema>;
+
+export const leaderboardSortSchema = z.enum(['net_profit', 'roi', 'tournaments_won', 'hands_played']);
+export type LeaderboardSort = z.infer<typeof leaderboardSortSchema>;
+
+export const leaderboardQuerySchema = z.object({
+  gameType: z.string().min(1).optional(),
+  since: z.iso.datetime().optional(),
+  until: z.iso.datetime().optional(),
+  sortBy: leaderboardSortSchema.default('net_profit'),
+  limit: z.number().int().positive().max(500).default(50),
+});
+export type LeaderboardQuery = z.infer<typeof leaderboardQuerySchema>;
+
+export const leaderboardEntrySchema = z.object({
+  rank: z.number().int().positive(),
+  registryId: z.string(),
+  displayName: z.string(),
+  agentCardUrl: z.string().url(),
+  payoutAddress: evmAddressSchema,
+  roomsPlayed: z.number().int().nonnegative(),
+  handsPlayed: z.number().int().nonnegative(),
+  buyInsAtomic: z.string(),
+  netProfitAtomic: z.string(),
+  roi: z.number(),
+  tournamentsPlayed: z.number().int().nonnegative(),
+  tournamentsWon: z.number().int().nonnegative(),
+});
+export type LeaderboardEntry = z.infer<typeof leaderboardEntrySchema>;
+
+export const leaderboardSchema = leaderboardQuerySchema.omit({ limit: true }).extend({
+  entries: z.array(leaderboardEntrySchema),
+});
+export type Leaderboard = z.infer<typeof leaderboardSchema>;
+
+export const hudStatsSchema = z.object({
+  hands: z.number().int().nonnegative(),
+  vpip: z.number().nullable(),
+  pfr: z.number().nullable(),
+  aggressionFactor: z.number().nullable(),
+  threeBet: z.number().nullable(),
+  foldToCbet: z.number().nullable(),
+  wentToShowdown: z.number().nullable(),
+  wonAtShowdown: z.number().nullable(),
+});
+export type HudStats = z.infer<typeof hudStatsSchema>;
+
+export const roomHudEntrySchema = z.object({
+  playerId: z.string(),
+  displayName: z.string(),
+  registryId: z.string().optional(),
+  room: hudStatsSchema,
+  lifetime: hudStatsSchema.optional(),
+});
+export type RoomHudEntry = z.infer<typeof roomHudEntrySchema>;
+
+export const roomHudSchema = z.object({
+  roomId: z.string(),
+  gameType: z.string(),
+  players: z.array(roomHudEntrySchema),
+});
+export type RoomHud = z.infer<typeof roomHudSchema>;
+
+export const playerHudSchema = z.object({
+  registryId: z.string(),
+  gameType: z.string(),
+  roomsTracked: z.number().int().nonnegative(),
+  stats: hudStatsSchema,
+});
+export type PlayerHud = z.infer<typeof playerHudSchema>;
+
 export const casinoStateSchema = z.object({
   rooms: z.array(roomSummarySchema),
 });
 export type CasinoState = z.infer<typeof casinoStateSchema>;
+
+export const authRoleSchema = z.enum(['viewer', 'player', 'operator']);
+export type AuthRole = z.infer<typeof authRoleSchema>;
+
+export const apiKeySummarySchema = z.object({
+  keyId: z.string(),
+  label: z.string(),
+  role: authRoleSchema,
+  createdAt: z.string(),
+});
+export type ApiKeySummary = z.infer<typeof apiKeySummarySchema>;
+
+export const walletGrantSchema = z.object({
+  address: evmAddressSchema,
+  role: authRoleSchema,
+});
+export type WalletGrant = z.infer<typeof walletGrantSchema>;
+
+export const createApiKeyInputSchema = z.object({
+  label: z.string().min(1),
+  role: authRoleSchema,
+});
+export type CreateApiKeyInput = z.infer<typeof createApiKeyInputSchema>;
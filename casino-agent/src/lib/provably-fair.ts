@@ -0,0 +1,83 @@
+import { createHash, createHmac } from 'crypto';
+
+const UINT32_RANGE = 2 ** 32;
+const RANKS = ['2', '3', '4', '5', '6', '7', '8', '9', 'T', 'J', 'Q', 'K', 'A'];
+const SUITS = ['H', 'D', 'C', 'S'];
+
+export const SLOT_SYMBOLS = ['cherry', 'lemon', 'plum', 'bell', 'star', 'seven'];
+
+export type BlackjackOutcome = 'blackjack' | 'win' | 'push' | 'lose';
+
+export const hashServerSeed = (serverSeed: string): string => createHash('sha256').update(serverSeed).digest('hex');
+
+export class FairRandom {
+  private readonly serverSeed: string;
+  private readonly clientSeed: string;
+  private readonly nonce: number;
+  private block = Buffer.alloc(0);
+  private offset = 0;
+  private cursor = 0;
+
+  constructor(serverSeed: string, clientSeed: string, nonce: number) {
+    this.serverSeed = serverSeed;
+    this.clientSeed = clientSeed;
+    this.nonce = nonce;
+  }
+
+  public randomInt(max: number): number {
+    const limit = UINT32_RANGE - (UINT32_RANGE % max);
+    for (;;) {
+      const value = this.nextUint32();
+      if (value < limit) {
+        return value % max;
+      }
+    }
+  }
+
+  public random(): number {
+    return this.nextUint32() / UINT32_RANGE;
+  }
+
+  private nextUint32(): number {
+    if (this.offset + 4 > this.block.length) {
+      this.block = createHmac('sha256', this.serverSeed)
+        .update(`${this.clientSeed}:${this.nonce}:${this.cursor}`)
+        .digest();
+      this.cursor += 1;
+      this.offset = 0;
+    }
+    const value = this.block.readUInt32BE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+}
+
+export const deriveDeckOrder = (random: FairRandom): string[] => {
+  const deck = RANKS.flatMap((rank) => SUITS.map((suit) => `${rank}${suit}`));
+  for (let index = deck.length - 1; index > 0; index -= 1) {
+    const nextIndex = random.randomInt(index + 1);
+    [deck[index], deck[nextIndex]] = [deck[nextIndex], deck[index]];
+  }
+  return deck.reverse();
+};
+
+export const deriveReels = (random: FairRandom, count: number): string[] =>
+  Array.from({ length: count }, () => SLOT_SYMBOLS[random.randomInt(SLOT_SYMBOLS.length)]);
+
+export const deriveBlackjackOutcome = (
+  random: FairRandom,
+  deckCount: number,
+): { roll: number; outcome: BlackjackOutcome } => {
+  const roll = random.random();
+  const blackjackChance = Math.min(0.05 * deckCount, 0.15);
+  if (roll < blackjackChance) {
+    return { roll, outcome: 'blackjack' };
+  }
+  if (roll < blackjackChance + 0.45) {
+    return { roll, outcome: 'win' };
+  }
+  if (roll < blackjackChance + 0.6) {
+    return { roll, outcome: 'push' };
+  }
+  return { roll, outcome: 'lose' };
+};
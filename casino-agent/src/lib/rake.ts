@@ -0,0 +1,17 @@
+export type RakeConfig = { kind: 'percentage'; percent: number } | { kind: 'flat'; amountUsd: number };
+
+const BASIS_POINTS = 100;
+
+export const calculateRakeAtomic = (buyInAtomic: bigint, rake: RakeConfig | undefined, flatAtomic?: bigint): bigint => {
+  if (!rake || buyInAtomic <= 0n) {
+    return 0n;
+  }
+  const amount =
+    rake.kind === 'percentage'
+      ? (buyInAtomic * BigInt(Math.round(rake.percent * BASIS_POINTS))) / BigInt(100 * BASIS_POINTS)
+      : (flatAtomic ?? 0n);
+  if (amount <= 0n) {
+    return 0n;
+  }
+  return amount > buyInAtomic ? buyInAtomic : amount;
+};
@@ -0,0 +1,34 @@
+export const INITIAL_RATING = 1500;
+
+const K_FACTOR = 32;
+const ELO_SCALE = 400;
+
+export type RatingBand = {
+  min?: number;
+  max?: number;
+};
+
+export const isWithinBand = (rating: number, band: RatingBand) =>
+  (band.min === undefined || rating >= band.min) && (band.max === undefined || rating <= band.max);
+
+export const describeBand = (band: RatingBand) =>
+  band.max === undefined ? `${band.min} or above` : band.min === undefined ? `${band.max} or below` : `${band.min}–${band.max}`;
+
+// Multiplayer Elo: each finish is scored as a win against everyone placed below and a loss against everyone above.
+export const rateFinishingOrder = (ratings: number[]): number[] => {
+  if (ratings.length < 2) {
+    return [...ratings];
+  }
+  const kPerOpponent = K_FACTOR / (ratings.length - 1);
+  return ratings.map((rating, place) => {
+    let delta = 0;
+    ratings.forEach((opponent, opponentPlace) => {
+      if (opponentPlace === place) {
+        return;
+      }
+      const expected = 1 / (1 + 10 ** ((opponent - rating) / ELO_SCALE));
+      delta += (place < opponentPlace ? 1 : 0) - expected;
+    });
+    return Math.round((rating + kPerOpponent * delta) * 100) / 100;
+  });
+};
@@ -0,0 +1,121 @@
+import type { PayoutReceipt } from './payout-processor';
+import type { PayoutJob, PayoutQueue } from './payout-queue';
+
+export type PlayerRefund = {
+  status: 'refunded' | 'pending' | 'failed';
+  amountAtomic: string;
+  reason: string;
+  error?: string;
+  updatedAt: string;
+};
+
+export type RefundCandidate = {
+  playerId: string;
+  payoutAddress: string;
+  buyInAtomic: string;
+  refund?: PlayerRefund;
+};
+
+export type RefundOutcome = {
+  playerId: string;
+  payoutAddress: string;
+  refund: PlayerRefund;
+  receipt?: PayoutReceipt;
+};
+
+type RefundRoomRequest = {
+  roomId: string;
+  reason: string;
+  players: RefundCandidate[];
+  onOutcome?: (outcome: RefundOutcome) => Promise<void>;
+};
+
+type ProcessRefundsRequest = {
+  roomId?: string;
+  onOutcome?: (outcome: RefundOutcome) => Promise<void>;
+};
+
+export const refundOutcomeFromJob = (job: PayoutJob): RefundOutcome => ({
+  playerId: job.playerId,
+  payoutAddress: job.payoutAddress,
+  refund: {
+    status:
+      job.status === 'settled'
+        ? 'refunded'
+        : job.status === 'pending' || job.status === 'submitted'
+          ? 'pending'
+          : 'failed',
+    amountAtomic: job.amountAtomic,
+    reason: job.reason ?? 'Refund',
+    error: job.status === 'abandoned' ? 'Refund abandoned.' : job.status === 'settled' ? undefined : job.lastError,
+    updatedAt: job.updatedAt,
+  },
+  receipt: job.status === 'settled' ? job.receipt : undefined,
+});
+
+export class RefundProcessor {
+  private readonly payoutQueue?: PayoutQueue;
+
+  constructor(options: { payoutQueue?: PayoutQueue }) {
+    this.payoutQueue = options.payoutQueue;
+  }
+
+  public async refundPlayers(request: RefundRoomRequest): Promise<RefundOutcome[]> {
+    const outcomes: RefundOutcome[] = [];
+    for (const player of request.players) {
+      if (player.refund?.status === 'refunded') {
+        continue;
+      }
+      const amountAtomic = BigInt(player.buyInAtomic);
+      if (amountAtomic === 0n) {
+        continue;
+      }
+      if (!this.payoutQueue) {
+        console.warn(
+          `[casino-agent] Payout processor not configured. Cannot refund ${amountAtomic} wei to ${player.payoutAddress}.`,
+        );
+        const outcome: RefundOutcome = {
+          playerId: player.playerId,
+          payoutAddress: player.payoutAddress,
+          refund: {
+            status: 'failed',
+            amountAtomic: amountAtomic.toString(),
+            reason: request.reason,
+            error: 'Payout processor not configured.',
+            updatedAt: new Date().toISOString(),
+          },
+        };
+        outcomes.push(outcome);
+        await request.onOutcome?.(outcome);
+        continue;
+      }
+      const job = await this.payoutQueue.enqueue({
+        kind: 'refund',
+        roomId: request.roomId,
+        playerId: player.playerId,
+        payoutAddress: player.payoutAddress,
+        amountAtomic: amountAtomic.toString(),
+        reason: request.reason,
+      });
+      if (job.status === 'failed') {
+        await this.payoutQueue.retry(request.roomId, player.playerId, 'refund');
+      }
+    }
+    await this.processDue({
+      roomId: request.roomId,
+      onOutcome: async (outcome) => {
+        outcomes.push(outcome);
+        await request.onOutcome?.(outcome);
+      },
+    });
+    return outcomes;
+  }
+
+  public async processDue(request: ProcessRefundsRequest): Promise<void> {
+    await this.payoutQueue?.processDue({
+      roomId: request.roomId,
+      kinds: ['refund'],
+      onOutcome: (job) => request.onOutcome?.(refundOutcomeFromJob(job)) ?? Promise.resolve(),
+    });
+  }
+}
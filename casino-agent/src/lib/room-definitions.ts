@@ -1,13 +1,26 @@
 import { z } from 'zod';
 
+import type { PrizeStructure } from './prize-structure';
+import type { FairRandom } from './provably-fair';
+import type { RakeConfig } from './rake';
+import type { RatingBand } from './ratings';
 import type { RoomLauncher } from './room-launcher';
-import type { RoomConfig, RoomState, SignupInvitation } from './protocol';
+import type { RoomConfig, RoomEvent, RoomState, SignupInvitation } from './protocol';
 
 export type RoomAgentSkills = {
   configure: string;
   register: string;
   start: string;
   summary: string;
+  cashOut?: string;
+  restore?: string;
+};
+
+export type RoomSettlement = 'prize_pool' | 'cash_out';
+
+export type RoomBuyIn = {
+  priceUsd: number;
+  chips: number;
 };
 
 export type GameConfigField = {
@@ -35,10 +48,17 @@ export type RoomGameDefinition<Config extends RoomConfig = RoomConfig> = {
     launcher?: RoomLauncher;
   };
   registration?: {
-    buildInvitation: (args: { casinoName: string; roomId: string; config: Config }) => SignupInvitation;
+    buildInvitation: (args: { casinoName: string; roomId: string; config: Config }) => Omit<SignupInvitation, 'payoutChallenge'>;
     clampBuyIn: (value: number | undefined, config: Config) => number;
+    buyIn: (config: Config) => RoomBuyIn;
   };
   shouldAutoStart?: (args: { summary?: RoomState; config: Config }) => boolean;
+  handParticipants?: (event: RoomEvent) => string[];
+  ratingBand?: (config: Config) => RatingBand | undefined;
+  fairResult?: (random: FairRandom, config: Config) => Record<string, unknown>;
+  settlement?: RoomSettlement;
+  prizeStructure?: PrizeStructure;
+  rake?: RakeConfig;
 };
 
 export type GameMetadata = {
@@ -46,6 +66,7 @@ export type GameMetadata = {
   label: string;
   description: string;
   supportsRegistration: boolean;
+  settlement: RoomSettlement;
   configFields: GameConfigField[];
   defaultConfig: Record<string, unknown>;
 };
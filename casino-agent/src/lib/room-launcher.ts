@@ -2,6 +2,7 @@ import { resolve } from 'node:path';
 
 type LaunchResult = {
   port: number;
+  pid: number;
   baseUrl: string;
   cardUrl: string;
   stop: () => void;
@@ -17,6 +18,8 @@ type RoomLauncherOptions = {
 
 const wait = (ms: number) => new Promise((resolvePromise) => setTimeout(resolvePromise, ms));
 
+const PROBE_TIMEOUT_MS = 2_000;
+
 export class RoomLauncher {
   private readonly workdir: string;
   private readonly bin: string;
@@ -37,6 +40,9 @@ export class RoomLauncher {
 
   public async launch(roomId: string, overrides?: { port?: number }): Promise<LaunchResult> {
     const port = overrides?.port ?? this.allocatePort();
+    if (overrides?.port !== undefined && (await this.isAnswering(port))) {
+      throw new Error(`Port ${port} still answers. Refusing to launch a second room agent on it.`);
+    }
     const env = {
       ...process.env,
       PORT: String(port),
@@ -50,6 +56,8 @@ export class RoomLauncher {
       stdout: 'inherit',
       stderr: 'inherit',
       env,
+      // Room agents get their own process group so they outlive a lobby restart and can be re-attached by pid.
+      detached: true,
     });
 
     try {
@@ -72,12 +80,61 @@ export class RoomLauncher {
 
     return {
       port,
+      pid: child.pid,
       baseUrl,
       cardUrl,
       stop,
     };
   }
 
+  public attach(port: number, pid: number): LaunchResult {
+    this.reservePort(port);
+    const baseUrl = `http://127.0.0.1:${port}`;
+    const stop = () => {
+      try {
+        process.kill(pid);
+      } catch {
+        // already exited
+      }
+      this.releasePort(port);
+    };
+    return {
+      port,
+      pid,
+      baseUrl,
+      cardUrl: `${baseUrl}/.well-known/agent-card.json`,
+      stop,
+    };
+  }
+
+  public async isAnswering(port: number): Promise<boolean> {
+    try {
+      await fetch(`http://127.0.0.1:${port}/.well-known/agent-card.json`, {
+        method: 'GET',
+        signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+      });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  public isRunning(pid: number): boolean {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch (error) {
+      return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+  }
+
+  public reservePort(port: number): void {
+    if (port < this.portStart || port > this.portEnd) {
+      return;
+    }
+    this.activePorts.add(port);
+  }
+
   private allocatePort(): number {
     let attempts = 0;
     let candidate = this.nextPort;
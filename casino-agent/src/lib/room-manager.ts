@@ -4,43 +4,151 @@ import type { AgentCard, A2ARuntime } from '@lucid-agents/types/a2a';
 import type { AgentRuntime } from '@lucid-agents/types/core';
 
 import {
+  CancelRoomInput,
+  CashOutPlayerInput,
   CreateRoomInput,
+  FairnessCommitment,
+  FairnessReveal,
+  FairnessVerification,
+  HandRecord,
+  HandSummary,
+  Leaderboard,
+  LeaderboardQuery,
+  LedgerPage,
+  ListRoomEventsInput,
+  PayoutActionInput,
+  PlayerDetail,
+  PlayerHud,
+  PlayerFinish,
+  PlayerRoomRecord,
+  PlayerStats,
+  RatingEntry,
   RegisterPlayerInput,
   RegisterPlayerResult,
   RoomSnapshot,
   RoomSummary,
   StartRoomInput,
+  VerifyFairnessInput,
+  RoomAccounting,
+  RoomCancellation,
   RoomConfig,
   RoomEvent,
+  RoomEventPage,
+  RoomHud,
+  RoomPayout,
+  RoomReconciliation,
   RoomState as RoomGameState,
+  SignedRoomCheckpoint,
+  SignedRoomEvent,
+  fairnessCommitmentSchema,
+  fairnessRevealSchema,
+  fairnessVerificationSchema,
+  handRecordSchema,
+  playerDetailSchema,
+  playerHudSchema,
   playerSignupResponseSchema,
   registerPlayerResultSchema,
+  roomCashOutResultSchema,
+  roomHudSchema,
   roomSnapshotSchema,
   roomSummarySchema,
   signupInvitationSchema,
-  roomEventSchema,
   roomStateSchema,
+  signedRoomCheckpointSchema,
+  signedRoomEventSchema,
 } from './protocol';
-import { RoomGameDefinition, RoomAgentSkills } from './room-definitions';
+import { RoomGameDefinition, RoomAgentSkills, type RoomBuyIn } from './room-definitions';
 import { processPriceToAtomicAmount } from 'x402/shared';
 import type { PaymentRequirements } from 'x402/types';
-import { PayoutProcessor } from './payout-processor';
+import { chipsToAtomic, type PlayerCashOut } from './cash-out';
+import { createEventSecret, verifyRoomCheckpointSignature, verifyRoomEventSignature } from './event-signature';
+import { formatHandHistories, summarizeHand } from './hand-history';
+import { HUD_EVENT_TYPES, HudTally, addHudCounters, emptyHudCounters, summarizeHud } from './hud-stats';
+import { buildLeaderboard } from './leaderboard';
+import { createPayoutChallenge, verifyPayoutProof } from './payout-proof';
+import { FairRandom, hashServerSeed } from './provably-fair';
+import type { PayoutReceipt } from './payout-processor';
+import type { PayoutJob, PayoutQueue } from './payout-queue';
+import type { PlayerRegistry } from './player-registry';
+import type { SettledPayment } from './paywall';
+import { CASINO_ACCOUNT, DPS_ACCOUNT, playerAccount, type Ledger, type LedgerQuery } from './ledger';
+import type { LobbyStore, StoredRoomCheckpoints, StoredRoomState } from './lobby-store';
+import { refundOutcomeFromJob, type PlayerRefund, type RefundOutcome, type RefundProcessor } from './refund-processor';
+import {
+  WINNER_TAKES_ALL,
+  allocatePrizes,
+  resolvePrizePercentages,
+  type PlayerPayout,
+  type PrizeAward,
+} from './prize-structure';
+import { calculateRakeAtomic } from './rake';
+import { describeBand, isWithinBand } from './ratings';
 
 export type CasinoRuntime = AgentRuntime & {
   a2a?: A2ARuntime;
 };
 
 const normalizeAddress = (value: string) => value.toLowerCase();
+const isSeated = (profile: PlayerProfile) => !profile.cashOut && profile.refund?.status !== 'refunded';
+const isCashOutPending = (profile: PlayerProfile) => Boolean(profile.cashOutRequestedAt) && !profile.cashOut;
+const describePayout = (job: PayoutJob) =>
+  job.kind === 'cash_out' ? 'cash-out' : job.kind === 'refund' ? 'refund' : `place ${job.place} payout`;
+const RECENT_EVENT_WINDOW = 200;
+const EVENT_MAX_SKEW_MS = 5 * 60_000;
+const RELAUNCH_AFTER_FAILURES = 3;
+
+const isSessionTerminalEvent = (event: RoomEvent): boolean =>
+  event.eventType === 'room_ended' ||
+  event.eventType === 'room_error' ||
+  (event.eventType === 'hand_completed' && typeof event.payload?.sessionId === 'string');
+
+export type RoomEventListener = (event: RoomEvent) => void;
+
+type EventSubscription = {
+  listener: RoomEventListener;
+  roomId?: string;
+};
+
+export type RoomEventQuery = Omit<ListRoomEventsInput, 'roomId'> & {
+  roomId?: string;
+};
+
+export type RegistrationReservation = {
+  reservationId: string;
+  roomId: string;
+  agentCardUrl: string;
+  actionSkill: string;
+  preferredSeat?: number;
+  displayName: string;
+  payoutAddress: string;
+  clientSeed?: string;
+  startingStack: number;
+  buyInAtomic: string;
+  rakeAtomic: string;
+  expiresAt: number;
+};
+
+const RESERVATION_TTL_MS = 5 * 60_000;
 
 interface RoomAgentHandle {
   cardUrl: string;
-  card: AgentCard;
+  card?: AgentCard;
   skills: RoomAgentSkills;
 }
 
 interface PlayerProfile {
   payoutAddress: string;
   buyInAtomic: string;
+  agentCardUrl?: string;
+  rakeAtomic?: string;
+  refund?: PlayerRefund;
+  payout?: PlayerPayout;
+  cashOut?: PlayerCashOut;
+  cashOutRequestedAt?: string;
+  registryId?: string;
+  finish?: PlayerFinish;
+  joinedAt?: string;
+  handsPlayed?: number;
 }
 
 interface RoomProcessHandle {
@@ -56,32 +164,67 @@ interface ManagedRoom {
   roomAgent: RoomAgentHandle;
   roomBaseUrl?: string;
   roomProcess?: RoomProcessHandle;
+  launchedPort?: number;
+  launchedPid?: number;
   summary?: RoomGameState;
   events: RoomEvent[];
+  eventCount: number;
   playerProfiles: Map<string, PlayerProfile>;
+  reservations: Map<string, RegistrationReservation>;
   registrationClosed: boolean;
   payoutSettled: boolean;
+  payoutInFlight?: Promise<void>;
+  createdAt: number;
+  cancellation?: RoomCancellation;
+  unreachableSince?: number;
+  refreshFailures?: number;
+  heldReason?: string;
+  refundInFlight?: Promise<void>;
+  dpsFeesAtomic: bigint;
+  eventSecret?: string;
+  roomEventSequence: number;
+  ratingsApplied: boolean;
+  hud: HudTally;
+  hudInFlight?: Promise<void>;
+  checkpoints?: StoredRoomCheckpoints;
 }
 
 export class RoomManager {
   private readonly rooms = new Map<string, ManagedRoom>();
   private readonly runtime: CasinoRuntime;
   private readonly casinoName: string;
-  private readonly callback: { agentCardUrl: string; eventSkill: string };
+  private readonly callback: { agentCardUrl: string; eventSkill: string; checkpointSkill?: string };
   private readonly games: Map<string, RoomGameDefinition>;
   private readonly defaultGameType: string;
   private readonly paymentsNetwork: PaymentRequirements['network'];
-  private readonly payoutProcessor?: PayoutProcessor;
+  private readonly payoutQueue?: PayoutQueue;
+  private readonly refundProcessor?: RefundProcessor;
+  private readonly ledger?: Ledger;
+  private readonly playerRegistry?: PlayerRegistry;
+  private readonly store?: LobbyStore;
+  private readonly waitingTimeoutMs?: number;
+  private readonly unreachableTimeoutMs?: number;
+  private readonly allowRngSeed: boolean;
+  private readonly eventSubscriptions = new Set<EventSubscription>();
+  private lastEventSequence = 0;
+  private expiryInFlight?: Promise<void>;
 
   constructor(
     runtime: CasinoRuntime,
     casinoName: string,
-    callback: { agentCardUrl: string; eventSkill: string },
+    callback: { agentCardUrl: string; eventSkill: string; checkpointSkill?: string },
     options: {
       games: Map<string, RoomGameDefinition>;
       defaultGameType?: string;
       paymentsNetwork: PaymentRequirements['network'];
-      payoutProcessor?: PayoutProcessor;
+      payoutQueue?: PayoutQueue;
+      refundProcessor?: RefundProcessor;
+      ledger?: Ledger;
+      playerRegistry?: PlayerRegistry;
+      store?: LobbyStore;
+      waitingTimeoutMs?: number;
+      unreachableTimeoutMs?: number;
+      allowRngSeed?: boolean;
     },
   ) {
     this.runtime = runtime;
@@ -90,7 +233,58 @@ export class RoomManager {
     this.games = options.games;
     this.defaultGameType = options.defaultGameType ?? 'poker';
     this.paymentsNetwork = options.paymentsNetwork;
-    this.payoutProcessor = options.payoutProcessor;
+    this.payoutQueue = options.payoutQueue;
+    this.refundProcessor = options.refundProcessor;
+    this.ledger = options.ledger;
+    this.playerRegistry = options.playerRegistry;
+    this.store = options.store;
+    this.waitingTimeoutMs = options.waitingTimeoutMs;
+    this.unreachableTimeoutMs = options.unreachableTimeoutMs;
+    this.allowRngSeed = options.allowRngSeed ?? false;
+  }
+
+  public async restoreRooms(): Promise<void> {
+    await this.payoutQueue?.restore();
+    await this.playerRegistry?.restore();
+    if (!this.store) {
+      return;
+    }
+    this.lastEventSequence = await this.store.loadLastEventSequence();
+    const storedRooms = await this.store.loadRooms({ eventLimit: RECENT_EVENT_WINDOW });
+    for (const record of storedRooms) {
+      const definition = this.games.get(record.gameType);
+      if (!definition) {
+        console.warn(`[casino-agent] Skipping stored room ${record.roomId}: unsupported game type ${record.gameType}.`);
+        continue;
+      }
+      const room = this.toManagedRoom(record, definition);
+      if (room.launchedPort !== undefined) {
+        definition.roomAgent.launcher?.reservePort(room.launchedPort);
+      }
+      this.rooms.set(room.roomId, room);
+      await this.linkStoredPlayers(room);
+      if (room.cancellation) {
+        await this.refundRoom(room);
+        continue;
+      }
+      try {
+        await this.refreshSummary(room);
+        this.attachRoomProcess(room);
+        await this.retryPendingCashOuts(room);
+      } catch (error) {
+        room.unreachableSince = Date.now();
+        room.summary = {
+          roomId: room.roomId,
+          status: 'error',
+          handCount: room.summary?.handCount ?? 0,
+          players: room.summary?.players ?? [],
+          message: `Room agent unreachable after restart: ${
+            error instanceof Error ? error.message : 'unknown error'
+          }`,
+        };
+        console.warn(`[casino-agent] Could not re-bind room ${room.roomId} to ${room.roomAgent.cardUrl}.`, error);
+      }
+    }
   }
 
   public listRooms(): RoomSummary[] {
@@ -100,9 +294,13 @@ export class RoomManager {
   public async refreshAllRooms(): Promise<void> {
     await Promise.all(
       Array.from(this.rooms.values()).map(async (room) => {
+        if (room.cancellation) {
+          return;
+        }
         try {
           await this.refreshSummary(room);
         } catch (error) {
+          room.unreachableSince ??= Date.now();
           room.summary = {
             roomId: room.roomId,
             status: 'error',
@@ -126,11 +324,16 @@ export class RoomManager {
     const rawConfig = typeof input.config === 'object' && input.config ? input.config : undefined;
     const normalizedConfig = definition.normalizeConfig(rawConfig, definition.defaultConfig);
     const config = definition.configSchema.parse(normalizedConfig);
+    if (config.rngSeed !== undefined && !this.allowRngSeed) {
+      throw new Error('rngSeed can only be set when the lobby runs in dev mode (CASINO_DEV_MODE=true).');
+    }
 
     const a2a = this.ensureA2A();
     let roomAgentCardUrl = input.roomAgentCardUrl ?? definition.roomAgent.defaultCardUrl;
     let roomBaseUrl: string | undefined;
     let roomProcess: RoomProcessHandle | undefined;
+    let launchedPort: number | undefined;
+    let launchedPid: number | undefined;
 
     if (!roomAgentCardUrl) {
       const launcher = definition.roomAgent.launcher;
@@ -140,6 +343,8 @@ export class RoomManager {
       const launched = await launcher.launch(roomId, { port: input.launchOptions?.port });
       roomAgentCardUrl = launched.cardUrl;
       roomBaseUrl = launched.baseUrl;
+      launchedPort = launched.port;
+      launchedPid = launched.pid;
       roomProcess = {
         stop: launched.stop,
         baseUrl: launched.baseUrl,
@@ -162,8 +367,11 @@ export class RoomManager {
       register: requestedSkills.register ?? definition.roomAgent.skills.register,
       start: requestedSkills.start ?? definition.roomAgent.skills.start,
       summary: requestedSkills.summary ?? definition.roomAgent.skills.summary,
+      cashOut: requestedSkills.cashOut ?? definition.roomAgent.skills.cashOut,
+      restore: requestedSkills.restore ?? definition.roomAgent.skills.restore,
     };
 
+    const eventSecret = createEventSecret();
     try {
       await a2a.client.invoke(tableCard, skills.configure, {
         roomId,
@@ -172,6 +380,8 @@ export class RoomManager {
         casinoCallback: {
           agentCardUrl: this.callback.agentCardUrl,
           eventSkill: this.callback.eventSkill,
+          checkpointSkill: this.callback.checkpointSkill,
+          eventSecret,
         },
       });
     } catch (error) {
@@ -191,11 +401,21 @@ export class RoomManager {
       },
       roomBaseUrl,
       roomProcess,
+      launchedPort,
+      launchedPid,
       summary: undefined,
       events: [],
+      eventCount: 0,
       playerProfiles: new Map(),
+      reservations: new Map(),
       registrationClosed: false,
       payoutSettled: false,
+      createdAt: Date.now(),
+      dpsFeesAtomic: 0n,
+      eventSecret,
+      roomEventSequence: 0,
+      ratingsApplied: false,
+      hud: new HudTally(),
     };
 
     try {
@@ -205,101 +425,719 @@ export class RoomManager {
       throw error;
     }
     this.rooms.set(roomId, room);
+    await this.persistRoom(room);
     return this.toSnapshot(room);
   }
 
-  public async registerPlayer(input: RegisterPlayerInput): Promise<RegisterPlayerResult> {
+  public getBuyIn(roomId: string): RoomBuyIn {
+    const room = this.requireRoom(roomId);
+    return this.resolveBuyIn(room);
+  }
+
+  public checkRegistration(roomId: string, agentCardUrl?: string): void {
+    const room = this.requireRoom(roomId);
+    this.requireOpenRegistration(room);
+    this.assertSeatAvailable(room, agentCardUrl);
+  }
+
+  public async reserveRegistration(input: RegisterPlayerInput): Promise<RegistrationReservation> {
     const room = this.requireRoom(input.roomId);
-    if (!room.definition.supportsRegistration || !room.definition.registration) {
-      throw new Error(`Room ${room.roomId} does not accept player registrations.`);
-    }
-    if (room.registrationClosed || room.summary?.status === 'ended') {
-      throw new Error(`Room ${room.roomId} is closed for new registrations.`);
-    }
-    const registration = room.definition.registration;
+    const registration = this.requireOpenRegistration(room);
+    this.assertSeatAvailable(room, input.agentCardUrl);
     const a2a = this.ensureA2A();
 
     const playerCard = await a2a.fetchCard(input.agentCardUrl);
-    const invitation = signupInvitationSchema.parse(
-      registration.buildInvitation({
+    const invitation = signupInvitationSchema.parse({
+      ...registration.buildInvitation({
         casinoName: this.casinoName,
         roomId: room.roomId,
         config: room.config,
       }),
-    );
+      payoutChallenge: createPayoutChallenge(),
+    });
 
     const signupResult = await a2a.client.invoke(playerCard, input.signupSkill, invitation);
     const signup = playerSignupResponseSchema.parse(signupResult.output ?? {});
     if (!signup.payoutAddress) {
       throw new Error('Player did not provide a payout address during signup.');
     }
-    const buyIn = registration.clampBuyIn(undefined, room.config);
-    const actionSkill = input.actionSkill ?? 'play';
-    const playerId = randomUUID();
-    const buyInAtomic = this.calculateBuyInAtomic(room.config);
+    const provedPayoutAddress = await verifyPayoutProof({
+      casinoName: invitation.casinoName,
+      roomId: invitation.roomId,
+      payoutChallenge: invitation.payoutChallenge,
+      payoutAddress: signup.payoutAddress,
+      payoutSignature: signup.payoutSignature,
+    });
+    if (!provedPayoutAddress) {
+      throw new Error('Player could not prove control of its payout address.');
+    }
+    const band = room.definition.ratingBand?.(room.config);
+    if (band && this.playerRegistry) {
+      const registered = this.playerRegistry.find(input.agentCardUrl, signup.payoutAddress);
+      const rating = this.playerRegistry.currentRating(registered?.registryId, room.gameType);
+      if (!isWithinBand(rating, band)) {
+        throw new Error(`Rating ${rating} is outside the ${describeBand(band)} band of room ${room.roomId}.`);
+      }
+    }
 
-    const registerPayload = {
-      playerId,
-      displayName: signup.displayName,
+    this.requireOpenRegistration(room);
+    this.assertSeatAvailable(room, input.agentCardUrl);
+    const buyInAtomic = this.toAtomicAmount(this.resolveBuyIn(room).priceUsd);
+    const reservation: RegistrationReservation = {
+      reservationId: randomUUID(),
+      roomId: room.roomId,
       agentCardUrl: input.agentCardUrl,
-      actionSkill,
-      startingStack: buyIn,
+      actionSkill: input.actionSkill ?? 'play',
       preferredSeat: input.preferredSeat,
+      displayName: signup.displayName,
+      payoutAddress: normalizeAddress(signup.payoutAddress),
+      clientSeed: signup.clientSeed,
+      startingStack: registration.clampBuyIn(undefined, room.config),
+      buyInAtomic,
+      rakeAtomic: this.calculateRakeAtomic(room, buyInAtomic),
+      expiresAt: Date.now() + RESERVATION_TTL_MS,
+    };
+    room.reservations.set(reservation.reservationId, reservation);
+    return reservation;
+  }
+
+  public async completeRegistration(
+    reservation: RegistrationReservation,
+    payment: SettledPayment,
+  ): Promise<RegisterPlayerResult> {
+    const room = this.requireRoom(reservation.roomId);
+    let parsed: RegisterPlayerResult;
+    try {
+      if (room.registrationClosed || room.summary?.status === 'ended' || room.cancellation) {
+        throw new Error(`Room ${room.roomId} is closed for new registrations.`);
+      }
+      const registerPayload = {
+        playerId: reservation.reservationId,
+        displayName: reservation.displayName,
+        agentCardUrl: reservation.agentCardUrl,
+        actionSkill: reservation.actionSkill,
+        startingStack: reservation.startingStack,
+        preferredSeat: reservation.preferredSeat,
+        clientSeed: reservation.clientSeed,
+      };
+      const roomCard = await this.requireRoomCard(room);
+      const result = await this.ensureA2A().client.invoke(roomCard, room.roomAgent.skills.register, registerPayload);
+      parsed = registerPlayerResultSchema.parse({
+        roomId: room.roomId,
+        ...(result.output ?? {}),
+      });
+    } catch (error) {
+      room.reservations.delete(reservation.reservationId);
+      throw error;
+    }
+
+    // The room agent has seated the player, so nothing below may fail the registration and trigger a refund.
+    const registered = await this.playerRegistry
+      ?.link({
+        agentCardUrl: reservation.agentCardUrl,
+        payoutAddress: reservation.payoutAddress,
+        displayName: parsed.displayName,
+      })
+      .catch((error) => {
+        console.error(`[casino-agent] Failed to link player ${parsed.playerId} in the registry:`, error);
+        return undefined;
+      });
+    parsed.registryId = registered?.registryId;
+    const profile: PlayerProfile = {
+      payoutAddress: reservation.payoutAddress,
+      buyInAtomic: payment.amountAtomic,
+      agentCardUrl: reservation.agentCardUrl,
+      rakeAtomic: reservation.rakeAtomic,
+      registryId: registered?.registryId,
+      joinedAt: new Date().toISOString(),
+    };
+    room.playerProfiles.set(parsed.playerId, profile);
+    room.reservations.delete(reservation.reservationId);
+    try {
+      await this.store?.savePlayerProfile(room.roomId, { playerId: parsed.playerId, ...profile });
+      await this.refreshSummary(room);
+    } catch (error) {
+      console.error(`[casino-agent] Failed to update room ${room.roomId} after seating ${parsed.playerId}:`, error);
+    }
+    await this.maybeAutoStart(room);
+    return {
+      ...parsed,
+      payoutAddress: reservation.payoutAddress,
     };
+  }
 
-    const result = await a2a.client.invoke(room.roomAgent.card, room.roomAgent.skills.register, registerPayload);
-    const parsed = registerPlayerResultSchema.parse({
+  public async recordDpsFee(roomId: string, fee: SettledPayment): Promise<void> {
+    const room = this.requireRoom(roomId);
+    room.dpsFeesAtomic += BigInt(fee.amountAtomic);
+    await this.persistRoom(room);
+    await this.ledger?.recordSafely({
+      kind: 'dps_fee',
       roomId: room.roomId,
-      ...(result.output ?? {}),
+      from: CASINO_ACCOUNT,
+      to: DPS_ACCOUNT,
+      amountAtomic: fee.amountAtomic,
+      asset: fee.asset,
+      network: fee.network,
+      facilitatorResponse: fee.settlement,
     });
-    const normalizedAddress = normalizeAddress(signup.payoutAddress);
-    room.playerProfiles.set(parsed.playerId, {
-      payoutAddress: normalizedAddress,
-      buyInAtomic,
+  }
+
+  public async recordBuyIn(reservation: RegistrationReservation, payment: SettledPayment): Promise<void> {
+    await this.ledger?.recordSafely({
+      kind: 'buy_in',
+      roomId: reservation.roomId,
+      playerId: reservation.reservationId,
+      from: playerAccount(payment.payer ?? reservation.payoutAddress),
+      to: CASINO_ACCOUNT,
+      amountAtomic: payment.amountAtomic,
+      asset: payment.asset,
+      network: payment.network,
+      facilitatorResponse: payment.settlement,
     });
+  }
 
-    await this.refreshSummary(room);
-    await this.maybeAutoStart(room);
+  public async listLedger(query: LedgerQuery): Promise<LedgerPage> {
+    if (!this.ledger) {
+      return { transactions: [], nextCursor: query.after, hasMore: false };
+    }
+    return this.ledger.list(query);
+  }
+
+  public async reconcileRoom(roomId: string): Promise<RoomReconciliation> {
+    const room = this.requireRoom(roomId);
+    if (!this.ledger) {
+      throw new Error('Ledger is not configured.');
+    }
+    const totals = await this.ledger.summarizeRoom(room.roomId);
+    const issues: string[] = [];
+    let expectedBuyIns = 0n;
+    let expectedPayouts = 0n;
+    let expectedRefunds = 0n;
+    let expectedCashOuts = 0n;
+    for (const [playerId, profile] of room.playerProfiles) {
+      const buyIn = BigInt(profile.buyInAtomic);
+      expectedBuyIns += buyIn;
+      if (buyIn > 0n && !totals.buyInPlayers.has(playerId)) {
+        issues.push(`Player ${playerId} is seated without a recorded buy-in.`);
+      }
+      if (profile.payout) {
+        expectedPayouts += BigInt(profile.payout.amountAtomic);
+        if (totals.paidPlayers.get(playerId) !== BigInt(profile.payout.amountAtomic)) {
+          issues.push(`Payout to ${playerId} does not match the ledger.`);
+        }
+      }
+      if (profile.refund?.status === 'refunded') {
+        expectedRefunds += BigInt(profile.refund.amountAtomic);
+      }
+      if (profile.cashOut?.paidAt) {
+        expectedCashOuts += BigInt(profile.cashOut.amountAtomic);
+        if (totals.cashedOutPlayers.get(playerId) !== BigInt(profile.cashOut.amountAtomic)) {
+          issues.push(`Cash-out to ${playerId} does not match the ledger.`);
+        }
+      }
+    }
+    for (const playerId of totals.refundedPlayers.keys()) {
+      if (!totals.buyInPlayers.has(playerId)) {
+        issues.push(`Refund to ${playerId} has no matching buy-in.`);
+      }
+    }
+    for (const playerId of totals.paidPlayers.keys()) {
+      if (!room.playerProfiles.get(playerId)?.payout) {
+        issues.push(`Ledger payout to ${playerId} is not tracked by the room.`);
+      }
+    }
+    for (const playerId of totals.cashedOutPlayers.keys()) {
+      if (!room.playerProfiles.get(playerId)?.cashOut?.paidAt) {
+        issues.push(`Ledger cash-out to ${playerId} is not tracked by the room.`);
+      }
+    }
+    const outflow = totals.payout + totals.refund;
+    if (outflow > totals.buy_in) {
+      issues.push(`Paid out ${outflow} but only ${totals.buy_in} was received in buy-ins.`);
+    }
     return {
-      ...parsed,
-      payoutAddress: normalizedAddress,
+      roomId: room.roomId,
+      ledger: {
+        buyInsAtomic: totals.buy_in.toString(),
+        dpsFeesAtomic: totals.dps_fee.toString(),
+        payoutsAtomic: totals.payout.toString(),
+        refundsAtomic: totals.refund.toString(),
+        cashOutsAtomic: totals.cash_out.toString(),
+      },
+      expected: {
+        buyInsAtomic: expectedBuyIns.toString(),
+        payoutsAtomic: expectedPayouts.toString(),
+        refundsAtomic: expectedRefunds.toString(),
+        cashOutsAtomic: expectedCashOuts.toString(),
+      },
+      balanced: issues.length === 0,
+      issues,
     };
   }
 
+  public releaseRegistration(reservation: RegistrationReservation): void {
+    this.rooms.get(reservation.roomId)?.reservations.delete(reservation.reservationId);
+  }
+
+  public async refundRegistration(
+    reservation: RegistrationReservation,
+    payment: { payTo: string; amountAtomic: string; reason: string },
+  ): Promise<PlayerRefund | undefined> {
+    const room = this.requireRoom(reservation.roomId);
+    if (!this.refundProcessor) {
+      console.warn(`[casino-agent] Refund processor not configured. Cannot refund ${payment.payTo} for room ${room.roomId}.`);
+      return undefined;
+    }
+    const [outcome] = await this.refundProcessor.refundPlayers({
+      roomId: room.roomId,
+      reason: payment.reason,
+      players: [
+        {
+          playerId: reservation.reservationId,
+          payoutAddress: normalizeAddress(payment.payTo),
+          buyInAtomic: payment.amountAtomic,
+        },
+      ],
+      onOutcome: (refundOutcome) => this.recordRefund(room, refundOutcome),
+    });
+    return outcome?.refund;
+  }
+
   public async startRoom(input: StartRoomInput): Promise<RoomGameState> {
     const room = this.requireRoom(input.roomId);
     if (room.summary?.status === 'ended') {
       throw new Error(`Room ${room.roomId} has already ended.`);
     }
+    if (room.cancellation) {
+      throw new Error(`Room ${room.roomId} has been cancelled.`);
+    }
     const a2a = this.ensureA2A();
     room.registrationClosed = true;
+    await this.persistRoom(room);
 
     const payload = {
       ...(input.overrides ?? {}),
     };
-    const result = await a2a.client.invoke(room.roomAgent.card, room.roomAgent.skills.start, payload);
+    const roomCard = await this.requireRoomCard(room);
+    const result = await a2a.client.invoke(roomCard, room.roomAgent.skills.start, payload);
     const summary = roomStateSchema.parse(result.output ?? {});
     room.summary = summary;
+    await this.persistRoom(room);
     await this.settleRoomPayout(room);
     return summary;
   }
 
+  public async cancelRoom(input: CancelRoomInput): Promise<RoomSnapshot> {
+    const room = this.requireRoom(input.roomId);
+    if (room.cancellation) {
+      await this.refundRoom(room);
+      return this.toSnapshot(room);
+    }
+    if (room.payoutSettled || room.summary?.status === 'ended') {
+      throw new Error(`Room ${room.roomId} has already ended.`);
+    }
+    if (room.summary?.status === 'running') {
+      throw new Error(`Room ${room.roomId} is running and cannot be cancelled.`);
+    }
+    await this.closeRoom(room, input.reason ?? 'Cancelled by operator.');
+    return this.toSnapshot(room);
+  }
+
+  public async expireStaleRooms(): Promise<void> {
+    if (!this.expiryInFlight) {
+      this.expiryInFlight = this.sweepStaleRooms().finally(() => {
+        this.expiryInFlight = undefined;
+      });
+    }
+    await this.expiryInFlight;
+  }
+
+  private async sweepStaleRooms(): Promise<void> {
+    const now = Date.now();
+    for (const room of Array.from(this.rooms.values())) {
+      if (room.cancellation || !this.holdsBuyIns(room)) {
+        continue;
+      }
+      try {
+        await this.refreshSummary(room);
+        await this.retryPendingCashOuts(room);
+      } catch (error) {
+        room.unreachableSince ??= now;
+        room.refreshFailures = (room.refreshFailures ?? 0) + 1;
+        console.warn(`[casino-agent] Room ${room.roomId} is unreachable:`, error);
+        if (await this.isRoomAgentDown(room)) {
+          await this.resumeRoom(room);
+        }
+      }
+      if (room.cancellation) {
+        continue;
+      }
+      if (
+        this.unreachableTimeoutMs &&
+        room.unreachableSince !== undefined &&
+        now - room.unreachableSince >= this.unreachableTimeoutMs
+      ) {
+        if (this.hasPlayedHands(room)) {
+          await this.holdRoom(room, 'Room agent unreachable.');
+        } else {
+          await this.cancelAndRefund(room, 'Room agent unreachable.');
+        }
+        continue;
+      }
+      if (
+        this.waitingTimeoutMs &&
+        room.summary?.status === 'waiting' &&
+        now - room.createdAt >= this.waitingTimeoutMs
+      ) {
+        await this.cancelAndRefund(room, 'Room never started.');
+      }
+    }
+  }
+
+  public async processPayouts(): Promise<void> {
+    for (const room of Array.from(this.rooms.values())) {
+      try {
+        await this.processRefunds(room);
+      } catch (error) {
+        console.error(`[casino-agent] Failed to process refunds for room ${room.roomId}:`, error);
+      }
+      if (room.payoutSettled || !this.isSettlementDue(room)) {
+        continue;
+      }
+      try {
+        await this.settleRoomPayout(room);
+      } catch (error) {
+        console.error(`[casino-agent] Failed to process payouts for room ${room.roomId}:`, error);
+      }
+    }
+  }
+
+  public async cashOutPlayer(input: CashOutPlayerInput): Promise<RoomSnapshot> {
+    const room = this.requireRoom(input.roomId);
+    if (room.definition.settlement !== 'cash_out') {
+      throw new Error(`Room ${room.roomId} pays prizes when the game ends and does not support cash-outs.`);
+    }
+    if (room.cancellation) {
+      throw new Error(`Room ${room.roomId} has been cancelled.`);
+    }
+    if (room.summary?.status === 'running') {
+      throw new Error(`Room ${room.roomId} is running. Players can cash out between sessions.`);
+    }
+    const profile = room.playerProfiles.get(input.playerId);
+    if (!profile) {
+      throw new Error(`Player ${input.playerId} is not registered in room ${room.roomId}.`);
+    }
+    if (!isSeated(profile)) {
+      throw new Error(`Player ${input.playerId} has already left room ${room.roomId}.`);
+    }
+    await this.cashOutStack(room, input.playerId, profile);
+    await this.settleRoomPayout(room);
+    return this.toSnapshot(room);
+  }
+
+  public async retryPayout(input: PayoutActionInput): Promise<RoomSnapshot> {
+    const room = this.requireRoom(input.roomId);
+    const payoutQueue = this.requirePayoutQueue();
+    const job = await payoutQueue.retry(room.roomId, input.playerId, input.kind);
+    if (job.kind === 'refund') {
+      await this.processRefunds(room);
+    } else {
+      await this.settleRoomPayout(room);
+    }
+    return this.toSnapshot(room);
+  }
+
+  public async abandonPayout(input: PayoutActionInput): Promise<RoomSnapshot> {
+    const room = this.requireRoom(input.roomId);
+    const job = await this.requirePayoutQueue().abandon(room.roomId, input.playerId, input.kind);
+    await this.appendEvent(room, {
+      roomId: room.roomId,
+      eventType: 'room_status',
+      message: `Abandoned ${describePayout(job)} to ${job.payoutAddress}.`,
+      timestamp: job.updatedAt,
+      payload: {
+        playerId: job.playerId,
+        place: job.place,
+        payoutAddress: job.payoutAddress,
+        amountAtomic: job.amountAtomic,
+        payoutKind: job.kind,
+        payoutStatus: job.status,
+      },
+    });
+    if (job.kind === 'refund') {
+      await this.saveRefund(room, refundOutcomeFromJob(job));
+    } else {
+      await this.settleRoomPayout(room);
+    }
+    return this.toSnapshot(room);
+  }
+
   public async refreshRoom(roomId: string): Promise<RoomSnapshot> {
     const room = this.requireRoom(roomId);
     await this.refreshSummary(room);
     return this.toSnapshot(room);
   }
 
-  public async recordEvent(event: RoomEvent): Promise<void> {
-    const parsed = roomEventSchema.parse(event);
+  public async recordEvent(event: SignedRoomEvent): Promise<void> {
+    const { signature, ...parsed } = signedRoomEventSchema.parse(event);
     const room = this.findRoomById(parsed.roomId);
     if (!room) {
       return;
     }
-    room.events.push(parsed);
-    if (room.events.length > 200) {
-      room.events.shift();
+    this.verifyRoomEvent(room, parsed, signature);
+    await this.persistRoom(room);
+    await this.appendEvent(room, parsed);
+    await this.recordHandsPlayed(room, parsed);
+    if (isSessionTerminalEvent(parsed)) {
+      void this.refreshSummary(room).catch((error) => {
+        console.error(`[casino-agent] Failed to refresh room ${room.roomId} after session update:`, error);
+      });
+    }
+  }
+
+  public async recordCheckpoint(input: SignedRoomCheckpoint): Promise<void> {
+    const { signature, ...checkpoint } = signedRoomCheckpointSchema.parse(input);
+    const room = this.findRoomById(checkpoint.roomId);
+    if (!room) {
+      return;
+    }
+    if (!room.eventSecret) {
+      throw new Error(`Room ${room.roomId} has no event secret and cannot accept checkpoints.`);
+    }
+    if (!verifyRoomCheckpointSignature(room.eventSecret, checkpoint, signature)) {
+      throw new Error(`Checkpoint signature does not match the room agent bound to ${room.roomId}.`);
+    }
+    if (room.checkpoints && Date.parse(checkpoint.timestamp) < Date.parse(room.checkpoints.latest.timestamp)) {
+      throw new Error(`Checkpoint for room ${room.roomId} is older than the latest recorded checkpoint.`);
+    }
+    const { handRecord, ...stored } = checkpoint;
+    room.checkpoints = {
+      latest: stored,
+      completedHand: stored.handInProgress ? room.checkpoints?.completedHand : stored,
+    };
+    await this.store?.saveRoomCheckpoints(room.roomId, room.checkpoints);
+    const record = handRecordSchema.safeParse(handRecord);
+    if (record.success && record.data.roomId === room.roomId) {
+      await this.store?.savePrivateHandRecord(record.data);
+    }
+  }
+
+  public subscribe(listener: RoomEventListener, options?: { roomId?: string }): () => void {
+    const subscription: EventSubscription = { listener, roomId: options?.roomId };
+    this.eventSubscriptions.add(subscription);
+    return () => {
+      this.eventSubscriptions.delete(subscription);
+    };
+  }
+
+  public listPlayers(): PlayerStats[] {
+    const seats = this.collectPlayerRooms();
+    return (this.playerRegistry?.list() ?? []).map((player) => {
+      const { rooms: _rooms, ...stats } = this.toPlayerDetail(player.registryId, seats);
+      return stats;
+    });
+  }
+
+  public getLeaderboard(query: LeaderboardQuery): Leaderboard {
+    return buildLeaderboard(this.playerRegistry?.list() ?? [], this.collectPlayerRooms(), query);
+  }
+
+  public listRatings(gameType: string): RatingEntry[] {
+    this.requireGame(gameType);
+    return this.playerRegistry?.listRatings(gameType) ?? [];
+  }
+
+  public getPlayer(registryId: string): PlayerDetail {
+    if (!this.playerRegistry?.get(registryId)) {
+      throw new Error(`Player ${registryId} not found.`);
+    }
+    return this.toPlayerDetail(registryId, this.collectPlayerRooms());
+  }
+
+  public async getRoomHud(roomId: string): Promise<RoomHud> {
+    const room = this.requireRoom(roomId);
+    await this.refreshHud(room);
+    const lifetimeRooms = await this.refreshGameHud(room.gameType);
+    const seated = (room.summary?.players ?? []).map((player) => player.playerId);
+    const playerIds = new Set([...seated, ...room.hud.playerIds()]);
+    return roomHudSchema.parse({
+      roomId: room.roomId,
+      gameType: room.gameType,
+      players: Array.from(playerIds).map((playerId) => {
+        const registryId = room.playerProfiles.get(playerId)?.registryId;
+        return {
+          playerId,
+          displayName:
+            room.summary?.players.find((player) => player.playerId === playerId)?.displayName ??
+            room.hud.displayName(playerId) ??
+            playerId,
+          registryId,
+          room: summarizeHud(room.hud.counters(playerId)),
+          lifetime: registryId ? summarizeHud(this.tallyPlayerHud(registryId, lifetimeRooms).counters) : undefined,
+        };
+      }),
+    });
+  }
+
+  public async getPlayerHud(registryId: string, gameType: string): Promise<PlayerHud> {
+    if (!this.playerRegistry?.get(registryId)) {
+      throw new Error(`Player ${registryId} not found.`);
+    }
+    this.requireGame(gameType);
+    const { counters, roomsTracked } = this.tallyPlayerHud(registryId, await this.refreshGameHud(gameType));
+    return playerHudSchema.parse({ registryId, gameType, roomsTracked, stats: summarizeHud(counters) });
+  }
+
+  public async listHandRecords(roomId: string): Promise<HandRecord[]> {
+    const records = new Map<number, HandRecord>();
+    let after = 0;
+    for (;;) {
+      const page = await this.listEvents({ roomId, after, limit: 500, types: ['hand_completed'] });
+      for (const event of page.events) {
+        const parsed = handRecordSchema.safeParse(event.payload?.handRecord);
+        if (parsed.success) {
+          records.set(parsed.data.handNumber, parsed.data);
+        }
+      }
+      if (!page.hasMore) {
+        break;
+      }
+      after = page.nextCursor;
+    }
+    return Array.from(records.values()).sort((a, b) => a.handNumber - b.handNumber);
+  }
+
+  public async listHands(roomId: string): Promise<HandSummary[]> {
+    return (await this.listHandRecords(roomId)).map(summarizeHand);
+  }
+
+  public async getHandRecord(roomId: string, handNumber: number): Promise<HandRecord> {
+    const record = (await this.listHandRecords(roomId)).find((entry) => entry.handNumber === handNumber);
+    if (!record) {
+      throw new Error(`Hand ${handNumber} not found in room ${roomId}.`);
+    }
+    return record;
+  }
+
+  public async getPrivateHandRecord(roomId: string, handNumber: number): Promise<HandRecord> {
+    this.requireRoom(roomId);
+    const record = await this.store?.loadPrivateHandRecord(roomId, handNumber);
+    if (!record) {
+      throw new Error(`No private record of hand ${handNumber} in room ${roomId}.`);
+    }
+    return record;
+  }
+
+  public async exportPrivateHandHistory(roomId: string, handNumber: number): Promise<string> {
+    return formatHandHistories([await this.getPrivateHandRecord(roomId, handNumber)], this.casinoName);
+  }
+
+  public async exportHandHistory(roomId: string, handNumber?: number): Promise<string> {
+    const records =
+      handNumber === undefined ? await this.listHandRecords(roomId) : [await this.getHandRecord(roomId, handNumber)];
+    return formatHandHistories(records, this.casinoName);
+  }
+
+  public async verifyRoomRound(roomId: string, nonce: number): Promise<FairnessVerification> {
+    const room = this.requireRoom(roomId);
+    let commitment: FairnessCommitment | undefined;
+    let reveal: FairnessReveal | undefined;
+    let after = 0;
+    for (;;) {
+      const page = await this.listEvents({ roomId, after, limit: 500, types: ['hand_started', 'hand_completed'] });
+      for (const event of page.events) {
+        if (event.eventType === 'hand_started') {
+          const parsed = fairnessCommitmentSchema.safeParse(event.payload?.fairness);
+          if (parsed.success && parsed.data.nonce === nonce) {
+            commitment = parsed.data;
+            reveal = undefined;
+          }
+        } else {
+          const parsed = fairnessRevealSchema.safeParse(event.payload?.fairness);
+          if (parsed.success && parsed.data.serverSeedHash === commitment?.serverSeedHash) {
+            reveal = parsed.data;
+          }
+        }
+      }
+      if (!page.hasMore) {
+        break;
+      }
+      after = page.nextCursor;
+    }
+    if (!commitment) {
+      throw new Error(`Round ${nonce} not found in room ${roomId}.`);
     }
+    if (!reveal) {
+      throw new Error(`Round ${nonce} in room ${roomId} has not revealed its server seed yet.`);
+    }
+    const verification = this.verifyFairness({
+      gameType: room.gameType,
+      serverSeed: reveal.serverSeed,
+      serverSeedHash: commitment.serverSeedHash,
+      clientSeed: commitment.clientSeed,
+      nonce,
+      config: room.config,
+    });
+    return { ...verification, roomId };
+  }
+
+  public verifyFairness(input: VerifyFairnessInput): FairnessVerification {
+    const definition = this.requireGame(input.gameType);
+    if (!definition.fairResult) {
+      throw new Error(`Game ${input.gameType} does not support fairness verification.`);
+    }
+    const config = definition.normalizeConfig(input.config ?? {}, definition.defaultConfig);
+    const serverSeedHash = hashServerSeed(input.serverSeed);
+    return fairnessVerificationSchema.parse({
+      gameType: input.gameType,
+      nonce: input.nonce,
+      clientSeed: input.clientSeed,
+      serverSeed: input.serverSeed,
+      serverSeedHash,
+      hashMatches:
+        input.serverSeedHash === undefined ? undefined : input.serverSeedHash.toLowerCase() === serverSeedHash,
+      result: definition.fairResult(new FairRandom(input.serverSeed, input.clientSeed, input.nonce), config),
+    });
+  }
+
+  public hasRoom(roomId: string): boolean {
+    return this.rooms.has(roomId);
+  }
+
+  public async listEvents(query: RoomEventQuery): Promise<RoomEventPage> {
+    const rooms = query.roomId ? [this.requireRoom(query.roomId)] : Array.from(this.rooms.values());
+    const fetchLimit = query.limit + 1;
+    // With `before` the page walks backwards: events come newest first and are put back in order below.
+    const backward = query.before !== undefined;
+    const before = query.before ?? Number.POSITIVE_INFINITY;
+    const events = this.store
+      ? await this.store.listEvents({
+          roomId: query.roomId,
+          after: query.after,
+          before: query.before,
+          limit: fetchLimit,
+          types: query.types,
+        })
+      : rooms
+          .flatMap((room) =>
+            room.events.filter(
+              (event) =>
+                (event.sequence ?? 0) > query.after &&
+                (event.sequence ?? 0) < before &&
+                (!query.types || query.types.includes(event.eventType)),
+            ),
+          )
+          .sort((a, b) => (backward ? (b.sequence ?? 0) - (a.sequence ?? 0) : (a.sequence ?? 0) - (b.sequence ?? 0)))
+          .slice(0, fetchLimit);
+    const page = events.slice(0, query.limit);
+    if (backward) {
+      page.reverse();
+    }
+    return {
+      events: page,
+      nextCursor: backward ? (page[0]?.sequence ?? before) : (page[page.length - 1]?.sequence ?? query.after),
+      hasMore: events.length > query.limit,
+    };
   }
 
   public getRoomSnapshot(roomId: string): RoomSnapshot {
@@ -329,20 +1167,167 @@ export class RoomManager {
       summary: room.summary,
       roomAgentCardUrl: room.roomAgent.cardUrl,
       roomBaseUrl: room.roomBaseUrl,
-      events: [...room.events],
+      events: room.events.slice(-RECENT_EVENT_WINDOW),
+      eventCursor: room.events[room.events.length - 1]?.sequence ?? 0,
+      hasEarlierEvents: room.eventCount > Math.min(room.events.length, RECENT_EVENT_WINDOW),
+      cancellation: room.cancellation,
+      refunds: Array.from(room.playerProfiles.entries()).flatMap(([playerId, profile]) =>
+        profile.refund ? [{ playerId, payoutAddress: profile.payoutAddress, ...profile.refund }] : [],
+      ),
+      payouts: (this.payoutQueue?.listRoomJobs(room.roomId) ?? []).map((job) => this.toRoomPayout(job)),
+      accounting: this.calculateAccounting(room),
     };
     return roomSnapshotSchema.parse(snapshot);
   }
 
-  private async maybeAutoStart(room: ManagedRoom): Promise<void> {
-    if (!room.definition.shouldAutoStart) {
-      return;
+  private toRoomPayout(job: PayoutJob): RoomPayout {
+    return {
+      idempotencyKey: job.idempotencyKey,
+      kind: job.kind,
+      playerId: job.playerId,
+      place: job.place,
+      payoutAddress: job.payoutAddress,
+      amountAtomic: job.amountAtomic,
+      status: job.status,
+      attempts: job.attempts,
+      nextAttemptAt: job.nextAttemptAt,
+      lastError: job.lastError,
+      transaction: job.receipt?.settlement.transaction,
+      updatedAt: job.updatedAt,
+    };
+  }
+
+  private collectPlayerRooms(): Map<string, PlayerRoomRecord[]> {
+    const seats = new Map<string, PlayerRoomRecord[]>();
+    for (const room of this.rooms.values()) {
+      for (const [playerId, profile] of room.playerProfiles) {
+        if (!profile.registryId) {
+          continue;
+        }
+        let winnings = profile.payout ? BigInt(profile.payout.amountAtomic) : 0n;
+        if (profile.cashOut?.paidAt) {
+          winnings += BigInt(profile.cashOut.amountAtomic);
+        }
+        const refunded = profile.refund?.status === 'refunded';
+        const result = profile.finish?.prizeAtomic ?? profile.cashOut?.amountAtomic;
+        const list = seats.get(profile.registryId) ?? [];
+        list.push({
+          roomId: room.roomId,
+          gameType: room.gameType,
+          playerId,
+          joinedAt: profile.joinedAt ?? new Date(room.createdAt).toISOString(),
+          handsPlayed: profile.handsPlayed ?? 0,
+          buyInAtomic: profile.buyInAtomic,
+          winningsAtomic: winnings.toString(),
+          netResultAtomic:
+            result !== undefined && !refunded ? (BigInt(result) - BigInt(profile.buyInAtomic)).toString() : undefined,
+          refunded,
+          finish: profile.finish,
+        });
+        seats.set(profile.registryId, list);
+      }
     }
-    if (!room.summary) {
-      return;
+    return seats;
+  }
+
+  private toPlayerDetail(registryId: string, seats: Map<string, PlayerRoomRecord[]>): PlayerDetail {
+    const player = this.playerRegistry?.get(registryId);
+    if (!player) {
+      throw new Error(`Player ${registryId} not found.`);
     }
-    if (room.summary.status === 'running' || room.summary.status === 'ended') {
-      return;
+    const rooms = seats.get(registryId) ?? [];
+    let totalBuyIns = 0n;
+    let totalWinnings = 0n;
+    for (const record of rooms) {
+      if (!record.refunded) {
+        totalBuyIns += BigInt(record.buyInAtomic);
+      }
+      totalWinnings += BigInt(record.winningsAtomic);
+    }
+    return playerDetailSchema.parse({
+      ...player,
+      ratings: this.playerRegistry?.listPlayerRatings(registryId) ?? [],
+      roomsJoined: new Set(rooms.map((record) => record.roomId)).size,
+      totalBuyInsAtomic: totalBuyIns.toString(),
+      totalWinningsAtomic: totalWinnings.toString(),
+      finishes: rooms.flatMap((record) => (record.finish ? [{ roomId: record.roomId, ...record.finish }] : [])),
+      rooms,
+    });
+  }
+
+  private tallyPlayerHud(registryId: string, rooms: ManagedRoom[]) {
+    const counters = emptyHudCounters();
+    let roomsTracked = 0;
+    for (const room of rooms) {
+      for (const [playerId, profile] of room.playerProfiles) {
+        if (profile.registryId === registryId) {
+          addHudCounters(counters, room.hud.counters(playerId));
+          roomsTracked += 1;
+        }
+      }
+    }
+    return { counters, roomsTracked };
+  }
+
+  private async refreshGameHud(gameType: string): Promise<ManagedRoom[]> {
+    const rooms = Array.from(this.rooms.values()).filter((room) => room.gameType === gameType);
+    for (const room of rooms) {
+      await this.refreshHud(room);
+    }
+    return rooms;
+  }
+
+  private async refreshHud(room: ManagedRoom): Promise<void> {
+    if (!room.hudInFlight) {
+      room.hudInFlight = (async () => {
+        for (;;) {
+          const page = await this.listEvents({
+            roomId: room.roomId,
+            after: room.hud.cursor,
+            limit: 500,
+            types: HUD_EVENT_TYPES,
+          });
+          page.events.forEach((event) => room.hud.observe(event));
+          if (!page.hasMore) {
+            break;
+          }
+        }
+      })().finally(() => {
+        room.hudInFlight = undefined;
+      });
+    }
+    await room.hudInFlight;
+  }
+
+  private async linkStoredPlayers(room: ManagedRoom): Promise<void> {
+    if (!this.playerRegistry) {
+      return;
+    }
+    for (const [playerId, profile] of room.playerProfiles) {
+      if (profile.registryId || !profile.agentCardUrl) {
+        continue;
+      }
+      const registered = await this.playerRegistry.link({
+        agentCardUrl: profile.agentCardUrl,
+        payoutAddress: profile.payoutAddress,
+        displayName:
+          room.summary?.players.find((player) => player.playerId === playerId)?.displayName ?? profile.payoutAddress,
+        seenAt: new Date(room.createdAt).toISOString(),
+      });
+      profile.registryId = registered.registryId;
+      await this.store?.savePlayerProfile(room.roomId, { playerId, ...profile });
+    }
+  }
+
+  private async maybeAutoStart(room: ManagedRoom): Promise<void> {
+    if (!room.definition.shouldAutoStart) {
+      return;
+    }
+    if (!room.summary) {
+      return;
+    }
+    if (room.summary.status !== 'waiting' && room.summary.status !== 'idle') {
+      return;
     }
     const shouldStart = room.definition.shouldAutoStart({
       summary: room.summary,
@@ -359,12 +1344,148 @@ export class RoomManager {
     }
   }
 
+  // Only agents that answered on their port are attached, so a stale pid never stops an unrelated process.
+  private attachRoomProcess(room: ManagedRoom): void {
+    const launcher = room.definition.roomAgent.launcher;
+    if (!launcher || room.roomProcess || room.launchedPort === undefined || room.launchedPid === undefined) {
+      return;
+    }
+    const attached = launcher.attach(room.launchedPort, room.launchedPid);
+    room.roomProcess = { stop: attached.stop, baseUrl: attached.baseUrl };
+  }
+
   public async shutdown(): Promise<void> {
     for (const room of this.rooms.values()) {
       room.roomProcess?.stop();
     }
   }
 
+  private toManagedRoom(record: StoredRoomState, definition: RoomGameDefinition): ManagedRoom {
+    return {
+      roomId: record.roomId,
+      gameType: definition.type,
+      definition,
+      config: record.config,
+      roomAgent: {
+        cardUrl: record.roomAgentCardUrl,
+        skills: {
+          cashOut: definition.roomAgent.skills.cashOut,
+          restore: definition.roomAgent.skills.restore,
+          ...record.roomAgentSkills,
+        },
+      },
+      roomBaseUrl: record.roomBaseUrl,
+      launchedPort: record.launchedPort,
+      launchedPid: record.launchedPid,
+      summary: record.summary,
+      events: record.events,
+      eventCount: record.eventCount,
+      playerProfiles: new Map(
+        record.playerProfiles.map((profile) => [
+          profile.playerId,
+          {
+            payoutAddress: profile.payoutAddress,
+            buyInAtomic: profile.buyInAtomic,
+            agentCardUrl: profile.agentCardUrl,
+            rakeAtomic: profile.rakeAtomic,
+            refund: profile.refund,
+            payout: profile.payout,
+            cashOut: profile.cashOut,
+            cashOutRequestedAt: profile.cashOutRequestedAt,
+            registryId: profile.registryId,
+            finish: profile.finish,
+            joinedAt: profile.joinedAt,
+            handsPlayed: profile.handsPlayed,
+          },
+        ]),
+      ),
+      reservations: new Map(),
+      registrationClosed: record.registrationClosed,
+      payoutSettled: record.payoutSettled,
+      createdAt: Date.parse(record.createdAt),
+      cancellation: record.cancellation,
+      dpsFeesAtomic: BigInt(record.dpsFeesAtomic),
+      eventSecret: record.eventSecret,
+      roomEventSequence: record.roomEventSequence,
+      ratingsApplied: record.ratingsApplied,
+      hud: new HudTally(),
+      checkpoints: record.checkpoints,
+    };
+  }
+
+  private async persistRoom(room: ManagedRoom): Promise<void> {
+    if (!this.store || this.rooms.get(room.roomId) !== room) {
+      return;
+    }
+    await this.store.saveRoom({
+      roomId: room.roomId,
+      gameType: room.gameType,
+      config: room.config,
+      roomAgentCardUrl: room.roomAgent.cardUrl,
+      roomAgentSkills: room.roomAgent.skills,
+      roomBaseUrl: room.roomBaseUrl,
+      launchedPort: room.launchedPort,
+      launchedPid: room.launchedPid,
+      summary: room.summary,
+      registrationClosed: room.registrationClosed,
+      payoutSettled: room.payoutSettled,
+      cancellation: room.cancellation,
+      dpsFeesAtomic: room.dpsFeesAtomic.toString(),
+      eventSecret: room.eventSecret,
+      roomEventSequence: room.roomEventSequence,
+      ratingsApplied: room.ratingsApplied,
+    });
+  }
+
+  private async appendEvent(room: ManagedRoom, event: RoomEvent): Promise<void> {
+    this.lastEventSequence += 1;
+    const sequenced: RoomEvent = { ...event, sequence: this.lastEventSequence };
+    room.events.push(sequenced);
+    room.eventCount += 1;
+    if (this.store && room.events.length > RECENT_EVENT_WINDOW) {
+      room.events.shift();
+    }
+    await this.store?.appendEvent(sequenced);
+    this.notifySubscribers(sequenced);
+  }
+
+  private verifyRoomEvent(room: ManagedRoom, event: RoomEvent, signature: string): void {
+    if (!room.eventSecret) {
+      throw new Error(`Room ${room.roomId} has no event secret and cannot accept events.`);
+    }
+    if (!verifyRoomEventSignature(room.eventSecret, event, signature)) {
+      throw new Error(`Event signature does not match the room agent bound to ${room.roomId}.`);
+    }
+    const sentAt = Date.parse(event.timestamp);
+    if (!Number.isFinite(sentAt) || Math.abs(Date.now() - sentAt) > EVENT_MAX_SKEW_MS) {
+      throw new Error(`Event for room ${room.roomId} is outside the accepted time window.`);
+    }
+    if (event.roomSequence === undefined || event.roomSequence <= room.roomEventSequence) {
+      throw new Error(`Event for room ${room.roomId} was already recorded or is out of sequence.`);
+    }
+    room.roomEventSequence = event.roomSequence;
+  }
+
+  private notifySubscribers(event: RoomEvent): void {
+    for (const subscription of this.eventSubscriptions) {
+      if (subscription.roomId && subscription.roomId !== event.roomId) {
+        continue;
+      }
+      try {
+        subscription.listener(event);
+      } catch (error) {
+        console.error('[casino-agent] Room event listener failed:', error);
+      }
+    }
+  }
+
+  private async requireRoomCard(room: ManagedRoom): Promise<AgentCard> {
+    if (!room.roomAgent.card) {
+      room.roomAgent.card = await this.ensureA2A().fetchCard(room.roomAgent.cardUrl);
+    }
+    return room.roomAgent.card;
+  }
+
   private ensureA2A(): A2ARuntime {
     if (!this.runtime.a2a) {
       throw new Error('Casino agent needs the A2A extension.');
@@ -372,18 +1493,69 @@ export class RoomManager {
     return this.runtime.a2a;
   }
 
-  private calculateBuyInAtomic(config: RoomConfig): string {
-    const price = Number((config as Record<string, unknown>).buyInPriceUsd);
-    if (!Number.isFinite(price) || price <= 0) {
+  private resolveBuyIn(room: ManagedRoom): RoomBuyIn {
+    const registration = room.definition.registration;
+    if (!room.definition.supportsRegistration || !registration) {
+      throw new Error(`Room ${room.roomId} does not accept player registrations.`);
+    }
+    const buyIn = registration.buyIn(room.config);
+    if (!Number.isFinite(buyIn.priceUsd) || buyIn.priceUsd <= 0) {
       throw new Error('Room configuration is missing a valid buy-in price.');
     }
-    const conversion = processPriceToAtomicAmount(price, this.paymentsNetwork);
+    if (!Number.isFinite(buyIn.chips) || buyIn.chips <= 0) {
+      throw new Error('Room configuration is missing a valid chip count for the buy-in.');
+    }
+    return buyIn;
+  }
+
+  private calculateRakeAtomic(room: ManagedRoom, buyInAtomic: string): string {
+    const rake = room.definition.rake;
+    const flatAtomic = rake?.kind === 'flat' && rake.amountUsd > 0 ? BigInt(this.toAtomicAmount(rake.amountUsd)) : undefined;
+    return calculateRakeAtomic(BigInt(buyInAtomic), rake, flatAtomic).toString();
+  }
+
+  private toAtomicAmount(priceUsd: number): string {
+    const conversion = processPriceToAtomicAmount(priceUsd, this.paymentsNetwork);
     if ('error' in conversion) {
       throw new Error(conversion.error);
     }
     return conversion.maxAmountRequired;
   }
 
+  private requireOpenRegistration(room: ManagedRoom): NonNullable<RoomGameDefinition['registration']> {
+    if (!room.definition.supportsRegistration || !room.definition.registration) {
+      throw new Error(`Room ${room.roomId} does not accept player registrations.`);
+    }
+    if (room.registrationClosed || room.summary?.status === 'ended' || room.cancellation) {
+      throw new Error(`Room ${room.roomId} is closed for new registrations.`);
+    }
+    return room.definition.registration;
+  }
+
+  private assertSeatAvailable(room: ManagedRoom, agentCardUrl?: string): void {
+    const now = Date.now();
+    for (const [reservationId, reservation] of room.reservations) {
+      if (reservation.expiresAt <= now) {
+        room.reservations.delete(reservationId);
+      }
+    }
+    const maxPlayers = Number((room.config as Record<string, unknown>).maxPlayers);
+    const profiles = Array.from(room.playerProfiles.values()).filter(isSeated);
+    const seated = Math.max(room.summary?.players.length ?? 0, profiles.length);
+    if (Number.isFinite(maxPlayers) && seated + room.reservations.size >= maxPlayers) {
+      throw new Error(`Room ${room.roomId} is full (${maxPlayers} players max).`);
+    }
+    if (!agentCardUrl) {
+      return;
+    }
+    const taken =
+      profiles.some((profile) => profile.agentCardUrl === agentCardUrl) ||
+      Array.from(room.reservations.values()).some((reservation) => reservation.agentCardUrl === agentCardUrl);
+    if (taken) {
+      throw new Error(`Agent ${agentCardUrl} is already registered in room ${room.roomId}.`);
+    }
+  }
+
   private requireRoom(roomId: string): ManagedRoom {
     const room = this.rooms.get(roomId);
     if (!room) {
@@ -392,6 +1564,13 @@ export class RoomManager {
     return room;
   }
 
+  private requirePayoutQueue(): PayoutQueue {
+    if (!this.payoutQueue) {
+      throw new Error('Payout processor not configured.');
+    }
+    return this.payoutQueue;
+  }
+
   private requireGame(gameType: string): RoomGameDefinition {
     const game = this.games.get(gameType);
     if (!game) {
@@ -404,10 +1583,99 @@ export class RoomManager {
     return Array.from(this.rooms.values()).find((room) => room.roomId === roomId);
   }
 
+  // A single failed refresh may only be a timeout. Relaunching would void the hand in progress, so the agent must be
+  // gone or keep failing, and its port must have stopped answering.
+  private async isRoomAgentDown(room: ManagedRoom): Promise<boolean> {
+    const launcher = room.definition.roomAgent.launcher;
+    if (!launcher || room.launchedPort === undefined || (await launcher.isAnswering(room.launchedPort))) {
+      return false;
+    }
+    if (room.launchedPid !== undefined && !launcher.isRunning(room.launchedPid)) {
+      return true;
+    }
+    return (room.refreshFailures ?? 0) >= RELAUNCH_AFTER_FAILURES;
+  }
+
+  private async resumeRoom(room: ManagedRoom): Promise<void> {
+    const checkpoint = room.checkpoints?.completedHand;
+    const launcher = room.definition.roomAgent.launcher;
+    const restoreSkill = room.roomAgent.skills.restore;
+    if (!checkpoint || !launcher || !restoreSkill || room.launchedPort === undefined || !room.eventSecret) {
+      return;
+    }
+    const latest = room.checkpoints?.latest;
+    const voidedHand = latest?.handInProgress ? latest.handNumber : undefined;
+    const a2a = this.ensureA2A();
+    room.roomProcess?.stop();
+    room.roomProcess = undefined;
+    try {
+      const launched = await launcher.launch(room.roomId, { port: room.launchedPort });
+      try {
+        const card = await a2a.fetchCard(launched.cardUrl);
+        await a2a.client.invoke(card, restoreSkill, {
+          snapshot: checkpoint.snapshot,
+          casinoCallback: {
+            agentCardUrl: this.callback.agentCardUrl,
+            eventSkill: this.callback.eventSkill,
+            checkpointSkill: this.callback.checkpointSkill,
+            eventSecret: room.eventSecret,
+          },
+          eventSequence: room.roomEventSequence,
+        });
+        room.roomAgent = { ...room.roomAgent, cardUrl: launched.cardUrl, card };
+        room.roomBaseUrl = launched.baseUrl;
+        room.roomProcess = { stop: launched.stop, baseUrl: launched.baseUrl };
+        room.launchedPid = launched.pid;
+      } catch (error) {
+        launched.stop();
+        throw error;
+      }
+    } catch (error) {
+      console.warn(`[casino-agent] Could not resume room ${room.roomId} from hand ${checkpoint.handNumber}:`, error);
+      return;
+    }
+
+    if (room.checkpoints?.latest === latest) {
+      room.checkpoints = { latest: checkpoint, completedHand: checkpoint };
+      await this.store?.saveRoomCheckpoints(room.roomId, room.checkpoints);
+    }
+    room.unreachableSince = undefined;
+    room.refreshFailures = undefined;
+    await this.persistRoom(room);
+    await this.appendEvent(room, {
+      roomId: room.roomId,
+      eventType: 'room_status',
+      message:
+        voidedHand === undefined
+          ? `Room agent relaunched and resumed after hand ${checkpoint.handNumber}.`
+          : `Room agent relaunched and resumed after hand ${checkpoint.handNumber}. ` +
+            `Hand ${voidedHand} was voided and its bets returned.`,
+      timestamp: new Date().toISOString(),
+      payload: { resumed: true, resumedAfterHand: checkpoint.handNumber, voidedHand },
+    });
+    try {
+      await this.refreshSummary(room);
+    } catch (error) {
+      console.warn(`[casino-agent] Room ${room.roomId} resumed but its summary could not be refreshed:`, error);
+    }
+  }
+
   private async refreshSummary(room: ManagedRoom): Promise<void> {
+    if (room.cancellation) {
+      return;
+    }
+    // An ended summary is final, and a room settled from its stacks no longer has an agent to ask.
+    if (room.summary?.status === 'ended') {
+      await this.settleRoomPayout(room);
+      return;
+    }
     const a2a = this.ensureA2A();
-    const result = await a2a.client.invoke(room.roomAgent.card, room.roomAgent.skills.summary, {});
+    const roomCard = await this.requireRoomCard(room);
+    const result = await a2a.client.invoke(roomCard, room.roomAgent.skills.summary, {});
     const parsed = roomStateSchema.parse(result.output ?? {});
+    if (parsed.roomId !== room.roomId) {
+      throw new Error(`Room agent at ${room.roomAgent.cardUrl} is no longer hosting ${room.roomId}.`);
+    }
     room.summary = {
       ...parsed,
       players: parsed.players.map((player) => ({
@@ -415,72 +1683,569 @@ export class RoomManager {
         payoutAddress: room.playerProfiles.get(player.playerId)?.payoutAddress,
       })),
     };
+    room.unreachableSince = undefined;
+    room.refreshFailures = undefined;
+    room.heldReason = undefined;
+    await this.persistRoom(room);
+    if (parsed.status === 'error' && this.holdsBuyIns(room) && this.rooms.get(room.roomId) === room) {
+      await this.closeRoom(room, `Room error: ${parsed.message ?? 'unknown error'}`);
+      return;
+    }
+    await this.settleRoomPayout(room);
+  }
+
+  private holdsBuyIns(room: ManagedRoom): boolean {
+    if (room.payoutSettled || room.summary?.status === 'ended') {
+      return false;
+    }
+    return Array.from(room.playerProfiles.values()).some(
+      (profile) => !profile.cashOut && BigInt(profile.buyInAtomic) > 0n,
+    );
+  }
+
+  private hasPlayedHands(room: ManagedRoom): boolean {
+    return (
+      (room.summary?.handCount ?? 0) > 0 ||
+      room.summary?.session?.status === 'completed' ||
+      Array.from(room.playerProfiles.values()).some((profile) => (profile.handsPlayed ?? 0) > 0)
+    );
+  }
+
+  // Buy-ins are only refunded in full before the first hand. Afterwards chips have moved, so the room is settled
+  // from the players' stacks instead.
+  private async closeRoom(room: ManagedRoom, reason: string): Promise<void> {
+    if (this.hasPlayedHands(room)) {
+      await this.settleFromStacks(room, reason);
+    } else {
+      await this.cancelAndRefund(room, reason);
+    }
+  }
+
+  private async settleFromStacks(room: ManagedRoom, reason: string): Promise<void> {
+    room.registrationClosed = true;
+    room.reservations.clear();
+    if (room.definition.settlement === 'cash_out') {
+      for (const [playerId, profile] of room.playerProfiles) {
+        if (isSeated(profile)) {
+          await this.cashOutStack(room, playerId, profile);
+        }
+      }
+    }
+    room.summary = {
+      roomId: room.roomId,
+      status: 'ended',
+      handCount: room.summary?.handCount ?? 0,
+      players: room.summary?.players ?? [],
+      message: reason,
+      session: room.summary?.session,
+    };
+    room.heldReason = undefined;
+    room.roomProcess?.stop();
+    room.roomProcess = undefined;
+    await this.persistRoom(room);
+    await this.appendEvent(room, {
+      roomId: room.roomId,
+      eventType: 'room_status',
+      message: `Room closed and settled from player stacks: ${reason}`,
+      timestamp: new Date().toISOString(),
+      payload: { settledFromStacks: true, reason },
+    });
     await this.settleRoomPayout(room);
   }
 
-  private calculateTotalPotAtomic(room: ManagedRoom): bigint {
-    let total = 0n;
+  private async holdRoom(room: ManagedRoom, reason: string): Promise<void> {
+    if (room.heldReason === reason) {
+      return;
+    }
+    room.heldReason = reason;
+    console.warn(`[casino-agent] Holding room ${room.roomId} for operator action: ${reason}`);
+    await this.appendEvent(room, {
+      roomId: room.roomId,
+      eventType: 'room_status',
+      message: `Room needs operator action: ${reason} Hands were played, so buy-ins are not refunded.`,
+      timestamp: new Date().toISOString(),
+      payload: { held: true, reason },
+    });
+  }
+
+  private async cancelAndRefund(room: ManagedRoom, reason: string): Promise<void> {
+    await this.retryPendingCashOuts(room);
+    room.cancellation = { reason, cancelledAt: new Date().toISOString() };
+    room.registrationClosed = true;
+    room.summary = {
+      roomId: room.roomId,
+      status: 'cancelled',
+      handCount: room.summary?.handCount ?? 0,
+      players: room.summary?.players ?? [],
+      message: reason,
+    };
+    room.roomProcess?.stop();
+    room.roomProcess = undefined;
+    room.reservations.clear();
+    await this.persistRoom(room);
+    await this.appendEvent(room, {
+      roomId: room.roomId,
+      eventType: 'room_status',
+      message: `Room cancelled: ${reason}`,
+      timestamp: new Date().toISOString(),
+      payload: { cancelled: true, reason },
+    });
+    await this.refundRoom(room);
+  }
+
+  private async refundRoom(room: ManagedRoom): Promise<void> {
+    if (!this.refundProcessor || !room.cancellation) {
+      return;
+    }
+    if (!room.refundInFlight) {
+      const refundProcessor = this.refundProcessor;
+      const reason = room.cancellation.reason;
+      room.refundInFlight = refundProcessor
+        .refundPlayers({
+          roomId: room.roomId,
+          reason,
+          players: Array.from(room.playerProfiles.entries())
+            .filter(([, profile]) => !profile.cashOut && !isCashOutPending(profile))
+            .map(([playerId, profile]) => ({ playerId, ...profile })),
+          onOutcome: (outcome) => this.recordRefund(room, outcome),
+        })
+        .then(() => undefined)
+        .finally(() => {
+          room.refundInFlight = undefined;
+        });
+    }
+    await room.refundInFlight;
+  }
+
+  private async processRefunds(room: ManagedRoom): Promise<void> {
+    await this.refundProcessor?.processDue({
+      roomId: room.roomId,
+      onOutcome: (outcome) => this.recordRefund(room, outcome),
+    });
+  }
+
+  private async recordRefund(room: ManagedRoom, outcome: RefundOutcome): Promise<void> {
+    await this.saveRefund(room, outcome);
+    await this.publishRefund(room, outcome);
+  }
+
+  private async saveRefund(room: ManagedRoom, outcome: RefundOutcome): Promise<void> {
+    const profile = room.playerProfiles.get(outcome.playerId);
+    if (!profile) {
+      return;
+    }
+    profile.refund = outcome.refund;
+    await this.store?.savePlayerProfile(room.roomId, { playerId: outcome.playerId, ...profile });
+  }
+
+  private async publishRefund(room: ManagedRoom, outcome: RefundOutcome): Promise<void> {
+    const refunded = outcome.refund.status === 'refunded';
+    if (outcome.receipt) {
+      await this.recordPayment(
+        room,
+        'refund',
+        outcome.playerId,
+        outcome.payoutAddress,
+        outcome.refund.amountAtomic,
+        outcome.receipt,
+      );
+    }
+    await this.appendEvent(room, {
+      roomId: room.roomId,
+      eventType: 'room_status',
+      message: refunded
+        ? `Refunded buy-in to ${outcome.payoutAddress}.`
+        : `Refund to ${outcome.payoutAddress} failed: ${outcome.refund.error ?? 'unknown error'}`,
+      timestamp: outcome.refund.updatedAt,
+      payload: {
+        playerId: outcome.playerId,
+        payoutAddress: outcome.payoutAddress,
+        amountAtomic: outcome.refund.amountAtomic,
+        refundStatus: outcome.refund.status,
+        reason: outcome.refund.reason,
+        ...(outcome.refund.error ? { error: outcome.refund.error } : {}),
+      },
+    });
+  }
+
+  private calculateAccounting(room: ManagedRoom): RoomAccounting {
+    let grossBuyIns = 0n;
+    let rake = 0n;
+    let cashOuts = 0n;
+    let houseGameResult = 0n;
     for (const profile of room.playerProfiles.values()) {
-      total += BigInt(profile.buyInAtomic);
+      if (profile.refund?.status === 'refunded') {
+        continue;
+      }
+      grossBuyIns += BigInt(profile.buyInAtomic);
+      rake += BigInt(profile.rakeAtomic ?? '0');
+      if (profile.cashOut) {
+        cashOuts += BigInt(profile.cashOut.amountAtomic);
+        houseGameResult += BigInt(profile.cashOut.houseResultAtomic);
+      }
     }
-    return total;
+    return {
+      grossBuyInsAtomic: grossBuyIns.toString(),
+      rakeAtomic: rake.toString(),
+      dpsFeesAtomic: room.dpsFeesAtomic.toString(),
+      netPrizePoolAtomic: (grossBuyIns - rake).toString(),
+      cashOutsAtomic: cashOuts.toString(),
+      houseGameResultAtomic: houseGameResult.toString(),
+      houseMarginAtomic: (rake - room.dpsFeesAtomic + houseGameResult).toString(),
+    };
+  }
+
+  private async markPayoutSettled(room: ManagedRoom): Promise<void> {
+    room.payoutSettled = true;
+    await this.persistRoom(room);
   }
 
   private async settleRoomPayout(room: ManagedRoom): Promise<void> {
-    if (room.payoutSettled) {
+    if (!room.payoutInFlight) {
+      room.payoutInFlight = this.sendRoomPayout(room).finally(() => {
+        room.payoutInFlight = undefined;
+      });
+    }
+    await room.payoutInFlight;
+  }
+
+  private async resolveFinishingOrder(room: ManagedRoom): Promise<string[]> {
+    const busted: string[] = [];
+    let winnerId: string | undefined;
+    let after = 0;
+    for (;;) {
+      const page = await this.listEvents({
+        roomId: room.roomId,
+        after,
+        limit: 500,
+        types: ['player_busted', 'room_ended'],
+      });
+      for (const event of page.events) {
+        if (event.eventType === 'room_ended') {
+          winnerId = typeof event.payload?.winnerId === 'string' ? event.payload.winnerId : winnerId;
+          continue;
+        }
+        const playerId = event.payload?.playerId;
+        if (typeof playerId === 'string') {
+          busted.push(playerId);
+        }
+      }
+      if (!page.hasMore) {
+        break;
+      }
+      after = page.nextCursor;
+    }
+    const survivors = [...(room.summary?.players ?? [])]
+      .filter((player) => !busted.includes(player.playerId))
+      .sort((a, b) => b.stack - a.stack)
+      .map((player) => player.playerId);
+    const order = [...(winnerId ? [winnerId] : []), ...survivors, ...busted.reverse()];
+    return order.filter((playerId, index) => order.indexOf(playerId) === index && room.playerProfiles.has(playerId));
+  }
+
+  private async recordPayment(
+    room: ManagedRoom,
+    kind: 'payout' | 'refund' | 'cash_out',
+    playerId: string,
+    payTo: string,
+    amountAtomic: string,
+    receipt: PayoutReceipt,
+  ): Promise<void> {
+    await this.ledger?.recordSafely({
+      kind,
+      roomId: room.roomId,
+      playerId,
+      from: CASINO_ACCOUNT,
+      to: playerAccount(payTo),
+      amountAtomic,
+      asset: receipt.asset,
+      network: receipt.network,
+      facilitatorResponse: receipt.settlement,
+    });
+  }
+
+  private async recordHandsPlayed(room: ManagedRoom, event: RoomEvent): Promise<void> {
+    for (const playerId of room.definition.handParticipants?.(event) ?? []) {
+      const profile = room.playerProfiles.get(playerId);
+      if (!profile) {
+        continue;
+      }
+      profile.handsPlayed = (profile.handsPlayed ?? 0) + 1;
+      await this.store?.savePlayerProfile(room.roomId, { playerId, ...profile });
+    }
+  }
+
+  private async recordFinishes(room: ManagedRoom, finishingOrder: string[], awards: PrizeAward[]): Promise<void> {
+    const finishedAt = new Date().toISOString();
+    for (const [index, playerId] of finishingOrder.entries()) {
+      const profile = room.playerProfiles.get(playerId);
+      if (!profile || profile.finish) {
+        continue;
+      }
+      profile.finish = {
+        place: index + 1,
+        fieldSize: finishingOrder.length,
+        prizeAtomic: (awards.find((award) => award.playerId === playerId)?.amountAtomic ?? 0n).toString(),
+        finishedAt,
+      };
+      await this.store?.savePlayerProfile(room.roomId, { playerId, ...profile });
+      if (profile.registryId) {
+        await this.playerRegistry?.touch(profile.registryId, finishedAt);
+      }
+    }
+  }
+
+  private async applyRatings(room: ManagedRoom, finishingOrder: string[]): Promise<void> {
+    if (room.ratingsApplied || !this.playerRegistry) {
       return;
     }
-    if (room.summary?.status !== 'ended') {
+    const ratedOrder = finishingOrder.flatMap((playerId) => {
+      const registryId = room.playerProfiles.get(playerId)?.registryId;
+      return registryId ? [registryId] : [];
+    });
+    if (ratedOrder.length >= 2) {
+      await this.playerRegistry.rateFinish(room.gameType, ratedOrder, new Date().toISOString());
+    }
+    room.ratingsApplied = true;
+    await this.persistRoom(room);
+  }
+
+  private calculatePrizeAwards(room: ManagedRoom, finishingOrder: string[]): PrizeAward[] {
+    const structure = room.definition.prizeStructure ?? WINNER_TAKES_ALL;
+    const percentages = resolvePrizePercentages(structure, room.playerProfiles.size);
+    const prizePool = BigInt(this.calculateAccounting(room).netPrizePoolAtomic);
+    return allocatePrizes(prizePool, percentages, finishingOrder);
+  }
+
+  private isSettlementDue(room: ManagedRoom): boolean {
+    if (room.definition.settlement === 'cash_out') {
+      return (
+        room.summary?.status === 'ended' ||
+        room.summary?.session?.status === 'completed' ||
+        Boolean(this.payoutQueue?.listRoomJobs(room.roomId).some((job) => job.kind !== 'refund'))
+      );
+    }
+    return room.summary?.status === 'ended';
+  }
+
+  private async sendRoomPayout(room: ManagedRoom): Promise<void> {
+    if (room.payoutSettled) {
       return;
     }
-    const winner = room.summary.players[0];
-    if (!winner) {
-      room.payoutSettled = true;
+    // A cancelled room pays nothing new, but still sends the cash-outs recorded before it was cancelled.
+    const finished = room.cancellation
+      ? false
+      : room.definition.settlement === 'cash_out'
+        ? await this.queueCashOuts(room)
+        : await this.queuePrizes(room);
+    if (!this.payoutQueue) {
+      if (finished) {
+        await this.markPayoutSettled(room);
+      }
       return;
     }
-    const profile = room.playerProfiles.get(winner.playerId);
-    if (!profile?.payoutAddress) {
-      console.warn(`[casino-agent] Missing payout address for winner ${winner.playerId}.`);
-      room.payoutSettled = true;
+    await this.payoutQueue.processDue({
+      roomId: room.roomId,
+      kinds: ['prize', 'cash_out'],
+      onOutcome: (job) => this.recordPayoutOutcome(room, job),
+    });
+    const jobs = this.payoutQueue.listRoomJobs(room.roomId).filter((job) => job.kind !== 'refund');
+    if (finished && jobs.every((job) => job.status === 'settled' || job.status === 'abandoned')) {
+      await this.markPayoutSettled(room);
+    }
+  }
+
+  private async queuePrizes(room: ManagedRoom): Promise<boolean> {
+    if (room.summary?.status !== 'ended') {
+      return false;
+    }
+    const finishingOrder = await this.resolveFinishingOrder(room);
+    const awards = this.calculatePrizeAwards(room, finishingOrder);
+    await this.recordFinishes(room, finishingOrder, awards);
+    await this.applyRatings(room, finishingOrder);
+    if (!this.payoutQueue) {
+      const totalAtomic = awards.reduce((sum, award) => sum + award.amountAtomic, 0n);
+      if (totalAtomic > 0n) {
+        console.warn(`[casino-agent] Payout processor not configured. Skipping payout of ${totalAtomic} wei.`);
+      }
+      return true;
+    }
+    for (const award of awards) {
+      const profile = room.playerProfiles.get(award.playerId);
+      if (!profile || profile.payout) {
+        continue;
+      }
+      await this.payoutQueue.enqueue({
+        kind: 'prize',
+        roomId: room.roomId,
+        playerId: award.playerId,
+        place: award.place,
+        payoutAddress: profile.payoutAddress,
+        amountAtomic: award.amountAtomic.toString(),
+      });
+    }
+    return true;
+  }
+
+  private async queueCashOuts(room: ManagedRoom): Promise<boolean> {
+    const sessionCompleted = room.summary?.session?.status === 'completed' && room.summary.status !== 'running';
+    if (!sessionCompleted && room.summary?.status !== 'ended') {
+      return false;
+    }
+    for (const [playerId, profile] of room.playerProfiles) {
+      if (isSeated(profile)) {
+        await this.cashOutStack(room, playerId, profile);
+      }
+    }
+    return true;
+  }
+
+  // A marked profile whose cash-out was never recorded may already be unseated by the room agent, so it is retried
+  // instead of refunded.
+  private async retryPendingCashOuts(room: ManagedRoom): Promise<void> {
+    for (const [playerId, profile] of room.playerProfiles) {
+      if (!isCashOutPending(profile)) {
+        continue;
+      }
+      try {
+        await this.cashOutStack(room, playerId, profile);
+      } catch (error) {
+        console.warn(`[casino-agent] Cash-out of ${playerId} in room ${room.roomId} is still pending:`, error);
+      }
+    }
+  }
+
+  private async cashOutStack(room: ManagedRoom, playerId: string, profile: PlayerProfile): Promise<void> {
+    const skill = room.roomAgent.skills.cashOut;
+    if (!skill) {
+      throw new Error(`Room agent for ${room.roomId} does not expose a cash-out skill.`);
+    }
+    // The room agent unseats the player before the lobby records the cash-out, so mark the request first. The agent
+    // returns the recorded stack when asked again for a player who already left.
+    if (!profile.cashOutRequestedAt) {
+      profile.cashOutRequestedAt = new Date().toISOString();
+      await this.store?.savePlayerProfile(room.roomId, { playerId, ...profile });
+    }
+    const roomCard = await this.requireRoomCard(room);
+    const result = await this.ensureA2A().client.invoke(roomCard, skill, { playerId });
+    const { displayName, stack } = roomCashOutResultSchema.parse(result.output ?? {});
+
+    const buyIn = this.resolveBuyIn(room);
+    const priceAtomic = BigInt(this.toAtomicAmount(buyIn.priceUsd));
+    const netBuyInAtomic = priceAtomic - BigInt(this.calculateRakeAtomic(room, priceAtomic.toString()));
+    const amountAtomic = chipsToAtomic(stack, netBuyInAtomic, buyIn.chips);
+    const stakedAtomic = BigInt(profile.buyInAtomic) - BigInt(profile.rakeAtomic ?? '0');
+    profile.cashOut = {
+      chips: stack,
+      amountAtomic: amountAtomic.toString(),
+      houseResultAtomic: (stakedAtomic - amountAtomic).toString(),
+      cashedOutAt: new Date().toISOString(),
+    };
+    if (room.summary) {
+      room.summary = {
+        ...room.summary,
+        players: room.summary.players.filter((player) => player.playerId !== playerId),
+      };
+    }
+    await this.store?.savePlayerProfile(room.roomId, { playerId, ...profile });
+    if (profile.registryId) {
+      await this.playerRegistry?.touch(profile.registryId, profile.cashOut.cashedOutAt);
+    }
+    await this.persistRoom(room);
+    await this.appendEvent(room, {
+      roomId: room.roomId,
+      eventType: 'room_status',
+      message: `Cashed out ${stack} chips for ${displayName}.`,
+      timestamp: profile.cashOut.cashedOutAt,
+      payload: {
+        playerId,
+        chips: stack,
+        payoutAddress: profile.payoutAddress,
+        amountAtomic: profile.cashOut.amountAtomic,
+        houseResultAtomic: profile.cashOut.houseResultAtomic,
+      },
+    });
+    if (amountAtomic === 0n) {
       return;
     }
-    const totalAtomic = this.calculateTotalPotAtomic(room);
-    if (totalAtomic === 0n) {
-      room.payoutSettled = true;
+    if (!this.payoutQueue) {
+      console.warn(`[casino-agent] Payout processor not configured. Skipping cash-out of ${amountAtomic} wei.`);
       return;
     }
-    if (!this.payoutProcessor) {
-      console.warn(
-        `[casino-agent] Payout processor not configured. Skipping payout of ${totalAtomic} wei to ${profile.payoutAddress}.`,
-      );
-      room.payoutSettled = true;
+    await this.payoutQueue.enqueue({
+      kind: 'cash_out',
+      roomId: room.roomId,
+      playerId,
+      payoutAddress: profile.payoutAddress,
+      amountAtomic: profile.cashOut.amountAtomic,
+    });
+  }
+
+  private async recordPayoutOutcome(room: ManagedRoom, job: PayoutJob): Promise<void> {
+    const profile = room.playerProfiles.get(job.playerId);
+    if (!profile) {
       return;
     }
-    try {
-      await this.payoutProcessor.sendPayout({
+    const displayName =
+      room.summary?.players.find((player) => player.playerId === job.playerId)?.displayName ?? job.payoutAddress;
+    if (job.status === 'settled' && job.receipt) {
+      if (job.kind === 'cash_out') {
+        if (profile.cashOut) {
+          profile.cashOut.paidAt = job.updatedAt;
+        }
+      } else {
+        profile.payout = {
+          place: job.place ?? 0,
+          amountAtomic: job.amountAtomic,
+          paidAt: job.updatedAt,
+        };
+      }
+      await this.store?.savePlayerProfile(room.roomId, { playerId: job.playerId, ...profile });
+      await this.recordPayment(
+        room,
+        job.kind === 'cash_out' ? 'cash_out' : 'payout',
+        job.playerId,
+        job.payoutAddress,
+        job.amountAtomic,
+        job.receipt,
+      );
+      await this.appendEvent(room, {
         roomId: room.roomId,
-        payTo: profile.payoutAddress,
-        amountAtomic: totalAtomic,
-        description: `Room ${room.roomId} payout`,
+        eventType: 'room_status',
+        message:
+          job.kind === 'cash_out'
+            ? `Paid cash-out to ${displayName}.`
+            : `Paid place ${job.place} winnings to ${displayName}.`,
+        timestamp: job.updatedAt,
+        payload: {
+          playerId: job.playerId,
+          place: job.place,
+          payoutAddress: job.payoutAddress,
+          amountAtomic: job.amountAtomic,
+          payoutKind: job.kind,
+          payoutStatus: job.status,
+        },
       });
-      room.payoutSettled = true;
-      const payoutEvent: RoomEvent = {
+      return;
+    }
+    if (job.status === 'failed') {
+      await this.appendEvent(room, {
         roomId: room.roomId,
         eventType: 'room_status',
-        message: `Paid out winnings to ${winner.displayName}.`,
-        timestamp: new Date().toISOString(),
+        message: `${job.kind === 'cash_out' ? 'Cash-out' : `Place ${job.place} payout`} to ${displayName} failed after ${
+          job.attempts
+        } attempts: ${job.lastError ?? 'unknown error'}`,
+        timestamp: job.updatedAt,
         payload: {
-          winnerId: winner.playerId,
-          payoutAddress: profile.payoutAddress,
-          amountAtomic: totalAtomic.toString(),
+          playerId: job.playerId,
+          place: job.place,
+          payoutAddress: job.payoutAddress,
+          amountAtomic: job.amountAtomic,
+          payoutKind: job.kind,
+          payoutStatus: job.status,
+          error: job.lastError,
         },
-      };
-      room.events.push(payoutEvent);
-      if (room.events.length > 200) {
-        room.events.shift();
-      }
-    } catch (error) {
-      console.error('[casino-agent] Failed to settle payout:', error);
+      });
     }
   }
 }
@@ -1,14 +1,48 @@
-import { FormEvent, Fragment, useCallback, useEffect, useMemo, useState } from 'react';
+import { FormEvent, Fragment, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import './styles.css';
-import { ApiError, createRoom, fetchLobbyState, fetchRoomSnapshot, registerPlayer } from './api';
+import {
+  ApiError,
+  abandonPayout,
+  cancelRoom,
+  cashOutPlayer,
+  createRoom,
+  fetchLobbyState,
+  fetchEarlierRoomEvents,
+  fetchRoomSnapshot,
+  getApiKey,
+  registerPlayer,
+  retryPayout,
+  setApiKey,
+  startRoom,
+  subscribeLobbyEvents,
+  subscribeRoomEvents,
+} from './api';
 import { createPaymentHeader } from 'x402/client';
 import type { PaymentRequirements } from 'x402/types';
 import { createWalletClient, custom, type Account, type Transport, type WalletClient } from 'viem';
 import { baseSepolia } from 'viem/chains';
-import type { LobbyGame, LobbyState, RoomSnapshot, RoomEvent, RegisterPayload } from './types';
+import type {
+  LobbyGame,
+  LobbyState,
+  RoomSnapshot,
+  RoomEvent,
+  RoomEventPage,
+  RegisterPayload,
+  RoomPayout,
+} from './types';
 import { PokerTable } from './PokerTable';
+import { HandReplayer } from './HandReplayer';
 
 const POLL_INTERVAL = Number(import.meta.env.VITE_POLL_INTERVAL ?? 4000);
+const STREAM_REFRESH_DELAY = 500;
+const SUMMARY_EVENT_TYPES = new Set<RoomEvent['eventType']>([
+  'player_registered',
+  'hand_completed',
+  'player_busted',
+  'room_error',
+  'room_status',
+  'room_ended',
+]);
 const BASE_SEPOLIA_CHAIN_ID_HEX = `0x${baseSepolia.id.toString(16)}`;
 
 type RegisterFormState = {
@@ -97,6 +131,32 @@ const ensureBaseSepoliaNetwork = async (provider: EthereumProvider) => {
   }
 };
 
+const lastEventSequence = (events: RoomEvent[]) => events[events.length - 1]?.sequence ?? 0;
+
+const appendRoomEvent = (snapshot: RoomSnapshot | null, event: RoomEvent): RoomSnapshot | null => {
+  if (!snapshot || snapshot.roomId !== event.roomId) return snapshot;
+  if (event.sequence !== undefined && event.sequence <= lastEventSequence(snapshot.events)) return snapshot;
+  return { ...snapshot, events: [...snapshot.events, event] };
+};
+
+const firstEventSequence = (events: RoomEvent[]) => events[0]?.sequence ?? Number.POSITIVE_INFINITY;
+
+const mergeRoomSnapshot = (previous: RoomSnapshot | null, next: RoomSnapshot): RoomSnapshot => {
+  if (!previous || previous.roomId !== next.roomId) return next;
+  const windowStart = firstEventSequence(next.events);
+  const earlier = previous.events.filter((event) => (event.sequence ?? 0) < windowStart);
+  const later = previous.events.filter((event) => (event.sequence ?? 0) > next.eventCursor);
+  const hasEarlierEvents = earlier.length > 0 ? previous.hasEarlierEvents : next.hasEarlierEvents;
+  return { ...next, events: [...earlier, ...next.events, ...later], hasEarlierEvents };
+};
+
+const prependRoomEvents = (snapshot: RoomSnapshot | null, roomId: string, page: RoomEventPage): RoomSnapshot | null => {
+  if (!snapshot || snapshot.roomId !== roomId) return snapshot;
+  const windowStart = firstEventSequence(snapshot.events);
+  const earlier = page.events.filter((event) => (event.sequence ?? 0) < windowStart);
+  return { ...snapshot, events: [...earlier, ...snapshot.events], hasEarlierEvents: page.hasMore };
+};
+
 const isPlainRecord = (value: unknown): value is Record<string, unknown> =>
   typeof value === 'object' && value !== null && !Array.isArray(value);
 
@@ -128,6 +188,12 @@ export function App() {
   const [registerToast, setRegisterToast] = useState<RegisterToast | null>(null);
   const [walletState, setWalletState] = useState<WalletState>({ status: 'idle', error: null });
   const [isPaying, setIsPaying] = useState(false);
+  const [lobbyStreamConnected, setLobbyStreamConnected] = useState(false);
+  const [roomStreamConnected, setRoomStreamConnected] = useState(false);
+  const [loadingEarlierEvents, setLoadingEarlierEvents] = useState(false);
+  const [apiKeyInput, setApiKeyInput] = useState(getApiKey);
+  const [authError, setAuthError] = useState<string | null>(null);
+  const [credentialsVersion, setCredentialsVersion] = useState(0);
 
   const buildConfigDefaults = useCallback((game: LobbyGame | undefined) => {
     if (!game) return {};
@@ -150,7 +216,18 @@ export function App() {
   }, []);
 
   const refreshLobby = useCallback(async () => {
-    const data = await fetchLobbyState();
+    let data: LobbyState;
+    try {
+      data = await fetchLobbyState();
+    } catch (error) {
+      if (error instanceof ApiError && (error.status === 401 || error.status === 403)) {
+        setAuthError(error.message);
+        setLoadingLobby(false);
+        return;
+      }
+      throw error;
+    }
+    setAuthError(null);
     setLobby(data);
     const pokerGames = data.games.filter((game) => game.type === 'poker');
     setGameOptions(pokerGames);
@@ -179,27 +256,86 @@ export function App() {
     }
     try {
       const snapshot = await fetchRoomSnapshot(roomId);
-      setRoomSnapshot(snapshot);
+      setRoomSnapshot((prev) => mergeRoomSnapshot(prev, snapshot));
     } catch (error) {
       console.error('Failed to fetch room:', error);
     }
   }, []);
 
+  const refreshLobbyRef = useRef(refreshLobby);
+  useEffect(() => {
+    refreshLobbyRef.current = refreshLobby;
+  }, [refreshLobby]);
+
   useEffect(() => {
     refreshLobby();
+  }, [refreshLobby]);
+
+  useEffect(() => {
+    if (lobbyStreamConnected) return;
     const timer = setInterval(refreshLobby, POLL_INTERVAL);
     return () => clearInterval(timer);
-  }, [refreshLobby]);
+  }, [refreshLobby, lobbyStreamConnected]);
+
+  useEffect(() => {
+    let pendingRefresh: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = subscribeLobbyEvents({
+      onEvent: (event) => {
+        if (!SUMMARY_EVENT_TYPES.has(event.eventType) || pendingRefresh) return;
+        pendingRefresh = setTimeout(() => {
+          pendingRefresh = undefined;
+          refreshLobbyRef.current().catch((error) => console.error('Failed to refresh lobby:', error));
+        }, STREAM_REFRESH_DELAY);
+      },
+      onStatusChange: setLobbyStreamConnected,
+    });
+    return () => {
+      unsubscribe();
+      if (pendingRefresh) clearTimeout(pendingRefresh);
+    };
+  }, [credentialsVersion]);
 
   useEffect(() => {
     if (!selectedRoomId) {
       setRoomSnapshot(null);
       return;
     }
-    refreshRoom(selectedRoomId);
+    let cancelled = false;
+    let unsubscribe: (() => void) | undefined;
+    let pendingRefresh: ReturnType<typeof setTimeout> | undefined;
+    fetchRoomSnapshot(selectedRoomId)
+      .then((snapshot) => {
+        if (cancelled) return;
+        setRoomSnapshot(snapshot);
+        unsubscribe = subscribeRoomEvents(
+          selectedRoomId,
+          {
+            onEvent: (event) => {
+              setRoomSnapshot((prev) => appendRoomEvent(prev, event));
+              if (!SUMMARY_EVENT_TYPES.has(event.eventType) || pendingRefresh) return;
+              pendingRefresh = setTimeout(() => {
+                pendingRefresh = undefined;
+                refreshRoom(selectedRoomId);
+              }, STREAM_REFRESH_DELAY);
+            },
+            onStatusChange: setRoomStreamConnected,
+          },
+          { lastEventId: lastEventSequence(snapshot.events) },
+        );
+      })
+      .catch((error) => console.error('Failed to fetch room:', error));
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+      if (pendingRefresh) clearTimeout(pendingRefresh);
+    };
+  }, [selectedRoomId, refreshRoom, credentialsVersion]);
+
+  useEffect(() => {
+    if (!selectedRoomId || roomStreamConnected) return;
     const timer = setInterval(() => refreshRoom(selectedRoomId), POLL_INTERVAL);
     return () => clearInterval(timer);
-  }, [selectedRoomId, refreshRoom]);
+  }, [selectedRoomId, roomStreamConnected, refreshRoom]);
 
   const handleCreateRoom = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
@@ -238,10 +374,20 @@ export function App() {
   };
 
   const events = useMemo(() => roomSnapshot?.events ?? [], [roomSnapshot]);
-  const activityEvents = useMemo(() => {
-    const recent = events.slice(-50);
-    return [...recent].reverse();
-  }, [events]);
+  const activityEvents = useMemo(() => [...events].reverse(), [events]);
+
+  const handleLoadEarlierEvents = async () => {
+    if (!selectedRoomId || !roomSnapshot) return;
+    setLoadingEarlierEvents(true);
+    try {
+      const page = await fetchEarlierRoomEvents(selectedRoomId, firstEventSequence(roomSnapshot.events));
+      setRoomSnapshot((prev) => prependRoomEvents(prev, selectedRoomId, page));
+    } catch (error) {
+      console.error('Failed to load earlier events:', error);
+    } finally {
+      setLoadingEarlierEvents(false);
+    }
+  };
 
   const buildRegisterPayload = useCallback((): RegisterPayload => {
     const payload: RegisterPayload = {
@@ -274,7 +420,15 @@ export function App() {
         dpsPayment: error.body,
       });
     } else {
-      setRegisterToast({ kind: 'error', text: error instanceof Error ? error.message : 'Failed to register.' });
+      const text = error instanceof Error ? error.message : 'Failed to register.';
+      const refund =
+        error instanceof ApiError && isPlainRecord(error.body) && isPlainRecord(error.body.refund)
+          ? error.body.refund
+          : undefined;
+      setRegisterToast({
+        kind: 'error',
+        text: refund && typeof refund.status === 'string' ? `${text} Buy-in refund ${refund.status}.` : text,
+      });
     }
   }, []);
 
@@ -393,18 +547,50 @@ export function App() {
   const handleStartRoom = async () => {
     if (!selectedRoomId) return;
     try {
-      const res = await fetch(`${import.meta.env.VITE_CASINO_URL ?? 'http://localhost:4000'}/ui/rooms/${encodeURIComponent(selectedRoomId)}/start`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({}),
-      });
-      if (!res.ok) throw new Error('Failed to start room');
+      await startRoom(selectedRoomId);
       refreshRoom(selectedRoomId);
     } catch (error) {
       console.error('Failed to start room:', error);
     }
   };
 
+  const handleCancelRoom = async () => {
+    if (!selectedRoomId) return;
+    try {
+      await cancelRoom(selectedRoomId);
+      refreshRoom(selectedRoomId);
+    } catch (error) {
+      console.error('Failed to cancel room:', error);
+    }
+  };
+
+  const handleSaveApiKey = (event: FormEvent) => {
+    event.preventDefault();
+    setApiKey(apiKeyInput);
+    setCredentialsVersion((version) => version + 1);
+    refreshLobby().catch((error) => console.error('Failed to refresh lobby:', error));
+  };
+
+  const handleCashOut = async (playerId: string) => {
+    if (!selectedRoomId) return;
+    try {
+      await cashOutPlayer(selectedRoomId, playerId);
+      refreshRoom(selectedRoomId);
+    } catch (error) {
+      console.error('Failed to cash out player:', error);
+    }
+  };
+
+  const handlePayoutAction = async (payout: RoomPayout, action: 'retry' | 'abandon') => {
+    if (!selectedRoomId) return;
+    try {
+      await (action === 'retry' ? retryPayout : abandonPayout)(selectedRoomId, payout.playerId, payout.kind);
+      refreshRoom(selectedRoomId);
+    } catch (error) {
+      console.error(`Failed to ${action} payout:`, error);
+    }
+  };
+
   const formatAmount = (value: number | undefined) => {
     if (typeof value !== 'number' || !Number.isFinite(value)) return '–';
     return value.toLocaleString(undefined, {
@@ -432,6 +618,16 @@ export function App() {
   const registrationOpen = roomStatus === 'waiting';
   const roomEnded = roomStatus === 'ended';
   const canStartRoom = roomStatus === 'waiting';
+  const canCancelRoom = roomStatus === 'waiting' || roomStatus === 'idle' || roomStatus === 'error';
+  const roomRefunds = roomSnapshot?.refunds ?? [];
+  const roomPayouts = roomSnapshot?.payouts ?? [];
+  const cashOutRoom =
+    lobby?.games.find((game) => game.type === roomSnapshot?.gameType)?.settlement === 'cash_out';
+  const canCashOut = cashOutRoom && roomStatus !== 'running' && !roomSnapshot?.cancellation;
+  const payoutsOutstanding = roomPayouts.some(
+    (payout) => payout.status !== 'settled' && payout.status !== 'abandoned',
+  );
+  const roomSession = roomSnapshot?.summary?.session;
 
   if (loadingLobby) {
     return (
@@ -474,6 +670,16 @@ export function App() {
             + New Room
           </button>
         </div>
+        <form className="api-key-form" onSubmit={handleSaveApiKey}>
+          <input
+            type="password"
+            placeholder="API key"
+            value={apiKeyInput}
+            onChange={(event) => setApiKeyInput(event.target.value)}
+          />
+          <button type="submit">Save</button>
+          {authError && <span className="api-key-error">{authError}</span>}
+        </form>
       </div>
 
       {/* Main View */}
@@ -488,7 +694,10 @@ export function App() {
             <>
               <div className="card poker-panel">
                 {roomSnapshot.gameType === 'poker' ? (
-                  <PokerTable snapshot={roomSnapshot} events={events} />
+                  <>
+                    <PokerTable snapshot={roomSnapshot} events={events} />
+                    <HandReplayer roomId={roomSnapshot.roomId} handCount={roomSnapshot.summary?.handCount ?? 0} />
+                  </>
                 ) : (
                   <div style={{ textAlign: 'center' }}>
                     <h2>{roomSnapshot.gameType}</h2>
@@ -559,17 +768,113 @@ export function App() {
                         </div>
                       </>
                     )}
+                    {roomSnapshot.gameType !== 'poker' && roomSnapshot.config?.buyInPriceUsd !== undefined && (
+                      <div>
+                        <strong>Buy-in:</strong> ${formatAmount(Number(roomSnapshot.config.buyInPriceUsd))}
+                      </div>
+                    )}
+                    {roomSnapshot.accounting && (
+                      <>
+                        <div style={{ marginTop: '0.5rem', paddingTop: '0.5rem', borderTop: '1px solid rgba(255, 255, 255, 0.1)' }}>
+                          <strong>Accounting</strong>
+                        </div>
+                        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.5rem' }}>
+                          <div>
+                            <strong>Buy-ins:</strong> {formatAtomicAmount(roomSnapshot.accounting.grossBuyInsAtomic)}
+                          </div>
+                          <div>
+                            <strong>Rake:</strong> {formatAtomicAmount(roomSnapshot.accounting.rakeAtomic)}
+                          </div>
+                          <div>
+                            <strong>DPS fees:</strong> {formatAtomicAmount(roomSnapshot.accounting.dpsFeesAtomic)}
+                          </div>
+                          {cashOutRoom ? (
+                            <>
+                              <div>
+                                <strong>Cash-outs:</strong> {formatAtomicAmount(roomSnapshot.accounting.cashOutsAtomic)}
+                              </div>
+                              <div>
+                                <strong>House result:</strong>{' '}
+                                {formatAtomicAmount(roomSnapshot.accounting.houseGameResultAtomic)}
+                              </div>
+                            </>
+                          ) : (
+                            <div>
+                              <strong>Prize pool:</strong> {formatAtomicAmount(roomSnapshot.accounting.netPrizePoolAtomic)}
+                            </div>
+                          )}
+                          <div>
+                            <strong>Margin:</strong> {formatAtomicAmount(roomSnapshot.accounting.houseMarginAtomic)}
+                          </div>
+                        </div>
+                      </>
+                    )}
                   </div>
                   <div className="action-buttons">
                     <button onClick={handleStartRoom} disabled={!canStartRoom}>
                       Start Room
                     </button>
+                    <button onClick={handleCancelRoom} disabled={!canCancelRoom}>
+                      Cancel &amp; Refund
+                    </button>
                   </div>
+                  {roomSession && (
+                    <p style={{ marginTop: '0.5rem', fontSize: '0.85rem', color: '#94a3b8' }}>
+                      Session {roomSession.sessionId.slice(0, 8)}: {roomSession.status}
+                      {roomSession.error ? ` (${roomSession.error})` : ''}
+                    </p>
+                  )}
                   {roomEnded && (
                     <p style={{ marginTop: '0.5rem', fontSize: '0.85rem', color: '#fca5a5' }}>
-                      Game finished. Payouts have been processed.
+                      {payoutsOutstanding
+                        ? 'Game finished. Payouts are being processed.'
+                        : 'Game finished. Payouts have been processed.'}
+                    </p>
+                  )}
+                  {roomPayouts.length > 0 && (
+                    <div style={{ marginTop: '0.5rem', fontSize: '0.8rem', display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                      {roomPayouts.map((payout) => (
+                        <div
+                          key={payout.idempotencyKey}
+                          style={{ color: payout.status === 'settled' ? '#86efac' : payout.status === 'failed' ? '#fca5a5' : '#94a3b8' }}
+                        >
+                          {payout.kind === 'cash_out' ? 'Cash-out' : payout.kind === 'refund' ? 'Refund' : `#${payout.place}`}{' '}
+                          {formatAtomicAmount(payout.amountAtomic)} → {payout.payoutAddress.slice(0, 10)}…:{' '}
+                          {payout.status}
+                          {payout.attempts > 0 ? ` after ${payout.attempts} attempt${payout.attempts === 1 ? '' : 's'}` : ''}
+                          {payout.lastError && payout.status !== 'settled' ? ` (${payout.lastError})` : ''}
+                          {(payout.status === 'failed' || payout.status === 'pending') && (
+                            <button style={{ marginLeft: '0.5rem' }} onClick={() => handlePayoutAction(payout, 'retry')}>
+                              Retry
+                            </button>
+                          )}
+                          {payout.status !== 'settled' && payout.status !== 'abandoned' && (
+                            <button style={{ marginLeft: '0.5rem' }} onClick={() => handlePayoutAction(payout, 'abandon')}>
+                              Abandon
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {roomSnapshot.cancellation && (
+                    <p style={{ marginTop: '0.5rem', fontSize: '0.85rem', color: '#fca5a5' }}>
+                      Room cancelled: {roomSnapshot.cancellation.reason}
                     </p>
                   )}
+                  {roomRefunds.length > 0 && (
+                    <div style={{ marginTop: '0.5rem', fontSize: '0.8rem', display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                      {roomRefunds.map((refund) => (
+                        <div
+                          key={refund.playerId}
+                          style={{ color: refund.status === 'refunded' ? '#86efac' : refund.status === 'pending' ? '#94a3b8' : '#fca5a5' }}
+                        >
+                          {formatAtomicAmount(refund.amountAtomic)} → {refund.payoutAddress.slice(0, 10)}…: {refund.status}
+                          {refund.error ? ` (${refund.error})` : ''}
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
 
                 {/* Players List */}
@@ -589,15 +894,24 @@ export function App() {
                         >
                           <div>
                             <strong>{player.displayName}</strong>
+                            {player.sittingOut && (
+                              <span style={{ marginLeft: '0.5rem', fontSize: '0.75rem', color: '#fca5a5' }}>Sitting out</span>
+                            )}
                           </div>
                           <div style={{ opacity: 0.7 }}>
                             Seat {player.seatNumber} • Stack: {formatAmount(player.stack)}
+                            {player.timeBankMs !== undefined && ` • Time bank: ${(player.timeBankMs / 1000).toFixed(1)}s`}
                           </div>
                           {player.payoutAddress && (
                             <div style={{ opacity: 0.6, fontSize: '0.75rem', wordBreak: 'break-all' }}>
                               Wallet: {player.payoutAddress}
                             </div>
                           )}
+                          {canCashOut && (
+                            <button style={{ marginTop: '0.25rem' }} onClick={() => handleCashOut(player.playerId)}>
+                              Cash Out
+                            </button>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -815,6 +1129,11 @@ export function App() {
                     ) : (
                       <p style={{ opacity: 0.6 }}>No activity yet</p>
                     )}
+                    {roomSnapshot.hasEarlierEvents && (
+                      <button onClick={handleLoadEarlierEvents} disabled={loadingEarlierEvents}>
+                        {loadingEarlierEvents ? 'Loading…' : 'Load earlier events'}
+                      </button>
+                    )}
                   </div>
                 </div>
               </>
@@ -0,0 +1,299 @@
+import { useEffect, useMemo, useState } from 'react';
+import { fetchHandRecord, fetchRoomHands } from './api';
+import { buildSeatPositions, formatAmount, renderCard, renderCardBack } from './PokerTable';
+import type { HandRecord, HandSummary } from './types';
+
+interface HandReplayerProps {
+  roomId: string;
+  handCount: number;
+}
+
+type ReplayStep = {
+  label: string;
+  board: string[];
+  pot: number;
+  stacks: Map<string, number>;
+  folded: Set<string>;
+  actingPlayerId?: string;
+  revealed: Map<string, string[]>;
+  winners: Set<string>;
+};
+
+const BOARD_SIZE: Record<string, number> = { preflop: 0, flop: 3, turn: 4, river: 5 };
+const ACTION_LABELS: Record<string, string> = {
+  fold: 'folds',
+  check: 'checks',
+  call: 'calls',
+  bet: 'bets',
+  raise: 'raises to',
+};
+
+const buildReplaySteps = (record: HandRecord): ReplayStep[] => {
+  const names = new Map(record.seats.map((seat) => [seat.playerId, seat.displayName]));
+  const stacks = new Map(record.seats.map((seat) => [seat.playerId, seat.startingStack]));
+  for (const blind of record.blinds) {
+    stacks.set(blind.playerId, (stacks.get(blind.playerId) ?? 0) - blind.amount);
+  }
+  const folded = new Set<string>();
+  let pot = record.blinds.reduce((total, blind) => total + blind.amount, 0);
+  let street = 'preflop';
+  const snapshot = (label: string, actingPlayerId?: string): ReplayStep => ({
+    label,
+    board: record.board.slice(0, BOARD_SIZE[street]),
+    pot,
+    stacks: new Map(stacks),
+    folded: new Set(folded),
+    actingPlayerId,
+    revealed: new Map(),
+    winners: new Set(),
+  });
+
+  const steps = [
+    snapshot(
+      record.blinds
+        .map(
+          (blind) =>
+            `${names.get(blind.playerId) ?? blind.playerId} posts ${blind.type} blind ${formatAmount(blind.amount)}`,
+        )
+        .join(' · ') || 'Hand started',
+    ),
+  ];
+  for (const action of record.actions) {
+    if (action.street !== street) {
+      street = action.street;
+      steps.push(snapshot(`${street[0].toUpperCase()}${street.slice(1)} dealt`));
+    }
+    pot = action.pot;
+    stacks.set(action.playerId, action.stack);
+    if (action.action === 'fold') {
+      folded.add(action.playerId);
+    }
+    const amount =
+      action.action === 'raise'
+        ? ` ${formatAmount(action.totalBet)}`
+        : action.amount !== undefined && action.action !== 'fold' && action.action !== 'check'
+          ? ` ${formatAmount(action.amount)}`
+          : '';
+    steps.push(
+      snapshot(
+        `${names.get(action.playerId) ?? action.playerId} ${ACTION_LABELS[action.action]}${amount}${
+          action.allIn ? ' (all-in)' : ''
+        }`,
+        action.playerId,
+      ),
+    );
+  }
+  if (BOARD_SIZE[street] < record.board.length) {
+    street = 'river';
+    steps.push(snapshot('Board run out'));
+  }
+
+  const result = snapshot(
+    record.winners
+      .map(
+        (winner) =>
+          `${names.get(winner.playerId) ?? winner.playerId} wins ${formatAmount(winner.amount)}${
+            winner.description ? ` with ${winner.description}` : ''
+          }`,
+      )
+      .join(' · ') || 'Hand complete',
+  );
+  result.board = record.board;
+  result.pot = record.pots.reduce((total, entry) => total + entry.amount, 0);
+  result.stacks = new Map(record.seats.map((seat) => [seat.playerId, seat.endingStack]));
+  result.revealed = new Map(record.showdown.map((entry) => [entry.playerId, entry.cards]));
+  result.winners = new Set(record.winners.map((winner) => winner.playerId));
+  steps.push(result);
+  return steps;
+};
+
+export function HandReplayer({ roomId, handCount }: HandReplayerProps) {
+  const [hands, setHands] = useState<HandSummary[]>([]);
+  const [selectedHand, setSelectedHand] = useState<number | null>(null);
+  const [record, setRecord] = useState<HandRecord | null>(null);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSelectedHand(null);
+    setRecord(null);
+  }, [roomId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchRoomHands(roomId)
+      .then((result) => {
+        if (!cancelled) {
+          setHands(result);
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load hands.');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId, handCount]);
+
+  useEffect(() => {
+    if (selectedHand === null) {
+      return;
+    }
+    let cancelled = false;
+    setIsPlaying(false);
+    setStepIndex(0);
+    fetchHandRecord(roomId, selectedHand)
+      .then((result) => {
+        if (!cancelled) {
+          setRecord(result);
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load the hand.');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId, selectedHand]);
+
+  const steps = useMemo(() => (record ? buildReplaySteps(record) : []), [record]);
+  const lastStep = Math.max(steps.length - 1, 0);
+
+  useEffect(() => {
+    if (!isPlaying) {
+      return;
+    }
+    if (stepIndex >= lastStep) {
+      setIsPlaying(false);
+      return;
+    }
+    const handle = setTimeout(() => setStepIndex((prev) => Math.min(prev + 1, lastStep)), 1000);
+    return () => clearTimeout(handle);
+  }, [isPlaying, stepIndex, lastStep]);
+
+  const seatPositions = useMemo(() => buildSeatPositions(8), []);
+  const step = steps[Math.min(stepIndex, lastStep)];
+
+  const handleStep = (delta: number) => {
+    setIsPlaying(false);
+    setStepIndex((prev) => Math.min(Math.max(prev + delta, 0), lastStep));
+  };
+
+  const handleTogglePlayback = () => {
+    if (steps.length === 0) {
+      return;
+    }
+    if (stepIndex >= lastStep) {
+      setStepIndex(0);
+    }
+    setIsPlaying((prev) => !prev);
+  };
+
+  return (
+    <section className="card hand-replayer">
+      <div className="hand-replayer-header">
+        <h3>Hand History</h3>
+        {error && <span className="api-key-error">{error}</span>}
+      </div>
+      <div className="hand-replayer-body">
+        <ul className="hand-list">
+          {hands.length === 0 && <li className="event-placeholder">No completed hands yet.</li>}
+          {[...hands].reverse().map((hand) => (
+            <li key={hand.handNumber}>
+              <button
+                type="button"
+                className={selectedHand === hand.handNumber ? 'active' : ''}
+                onClick={() => setSelectedHand(hand.handNumber)}
+              >
+                <span>Hand #{hand.handNumber}</span>
+                <span className="hand-list-meta">
+                  Pot {formatAmount(hand.pot)} · {new Date(hand.completedAt).toLocaleTimeString()}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+        {record && step ? (
+          <div className="hand-replay">
+            <div className="timeline-controls">
+              <button type="button" onClick={() => handleStep(-1)} disabled={stepIndex === 0}>
+                Prev
+              </button>
+              <button type="button" onClick={handleTogglePlayback}>
+                {isPlaying ? 'Pause' : 'Play'}
+              </button>
+              <button type="button" onClick={() => handleStep(1)} disabled={stepIndex >= lastStep}>
+                Next
+              </button>
+              <span className="timeline-count">
+                {Math.min(stepIndex, lastStep) + 1}/{steps.length}
+              </span>
+            </div>
+            <div className="event-panel inline">
+              <div className="event-message">{step.label}</div>
+            </div>
+            <div className="felt-table">
+              <div className="felt-center">
+                <div className="felt-stats">
+                  <div>
+                    <span className="summary-label">Pot</span>
+                    <strong>{formatAmount(step.pot)}</strong>
+                  </div>
+                  <div>
+                    <span className="summary-label">Blinds</span>
+                    <strong>
+                      {formatAmount(record.smallBlind)}/{formatAmount(record.bigBlind)}
+                    </strong>
+                  </div>
+                </div>
+                <div className="felt-community">
+                  {Array.from({ length: 5 }).map((_, idx) => {
+                    const cardValue = step.board[idx];
+                    return cardValue
+                      ? renderCard(cardValue, `replay-community-${idx}`, { small: true })
+                      : renderCardBack(`replay-community-back-${idx}`, { small: true });
+                  })}
+                </div>
+              </div>
+              {record.seats.map((seat) => {
+                const revealed = step.revealed.get(seat.playerId);
+                return (
+                  <div
+                    key={`replay-seat-${seat.seatNumber}`}
+                    className={`table-seat occupied ${step.actingPlayerId === seat.playerId ? 'active' : ''} ${
+                      step.winners.has(seat.playerId) ? 'winner' : ''
+                    } ${step.folded.has(seat.playerId) ? 'folded' : ''}`}
+                    style={seatPositions[seat.seatNumber % seatPositions.length]}
+                  >
+                    <div className="table-seat-head">
+                      <span className="seat-number">Seat {seat.seatNumber + 1}</span>
+                      {seat.seatNumber === record.buttonSeat && <span className="seat-badge">Dealer</span>}
+                    </div>
+                    <div className="table-seat-name">{seat.displayName}</div>
+                    <div className="table-seat-stack">{formatAmount(step.stacks.get(seat.playerId) ?? 0)} chips</div>
+                    <div className="table-seat-cards">
+                      {Array.from({ length: 2 }).map((_, idx) =>
+                        revealed?.[idx]
+                          ? renderCard(revealed[idx], `replay-seat-card-${seat.seatNumber}-${idx}`, { small: true })
+                          : renderCardBack(`replay-seat-back-${seat.seatNumber}-${idx}`, { small: true }),
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ) : (
+          <div className="event-placeholder">Select a hand to replay it.</div>
+        )}
+      </div>
+    </section>
+  );
+}
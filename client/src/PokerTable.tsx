@@ -1,5 +1,6 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
-import type { RoomSnapshot, RoomEvent, PlayerSeat } from './types';
+import { fetchRoomHud } from './api';
+import type { RoomSnapshot, RoomEvent, PlayerSeat, HudStats, RoomHudEntry } from './types';
 
 interface PokerTableProps {
   snapshot: RoomSnapshot;
@@ -40,6 +41,15 @@ type DisplaySeat = {
   isButton: boolean;
 };
 
+const formatHudValue = (value: number | null) => (value === null ? '–' : String(value));
+
+const describeHud = (stats: HudStats) =>
+  `VPIP ${formatHudValue(stats.vpip)} · PFR ${formatHudValue(stats.pfr)} · AF ${formatHudValue(
+    stats.aggressionFactor,
+  )} · 3B ${formatHudValue(stats.threeBet)} · FCB ${formatHudValue(stats.foldToCbet)} · WTSD ${formatHudValue(
+    stats.wentToShowdown,
+  )} · W$SD ${formatHudValue(stats.wonAtShowdown)}`;
+
 const suitSymbol: Record<string, { symbol: string; className: string }> = {
   H: { symbol: "♥", className: "suit-red" },
   D: { symbol: "♦", className: "suit-red" },
@@ -68,7 +78,7 @@ const formatCard = (
   };
 };
 
-const renderCard = (
+export const renderCard = (
   card: string,
   key: string,
   options: { small?: boolean; delay?: number } = {},
@@ -94,7 +104,7 @@ const renderCard = (
   );
 };
 
-const renderCardBack = (key: string, options: { small?: boolean; delay?: number } = {}) => {
+export const renderCardBack = (key: string, options: { small?: boolean; delay?: number } = {}) => {
   const classNames = ['playing-card', 'back', 'card-enter'];
   if (options.small) {
     classNames.push('playing-card-small');
@@ -260,7 +270,7 @@ export const extractPokerState = (events: RoomEvent[], initialPlayers: PlayerSea
   return state;
 };
 
-const formatAmount = (value: number): string => {
+export const formatAmount = (value: number): string => {
   return value.toLocaleString(undefined, {
     minimumFractionDigits: value < 1 ? 2 : 0,
     maximumFractionDigits: 4,
@@ -288,7 +298,7 @@ const parseSeatCount = (value: unknown): number | undefined => {
   return Math.round(parsed);
 };
 
-const buildSeatPositions = (count: number) => {
+export const buildSeatPositions = (count: number) => {
   const radius = 40;
   const offset = Math.PI / 2;
   return Array.from({ length: count }, (_, index) => {
@@ -341,6 +351,25 @@ export function PokerTable({ snapshot, events }: PokerTableProps) {
     return () => clearTimeout(handle);
   }, [isPlaying, timelineIndex, events.length]);
 
+  const completedHands = useMemo(
+    () => events.filter((event) => event.eventType === 'hand_completed').length,
+    [events],
+  );
+  const [hud, setHud] = useState<Map<string, RoomHudEntry>>(new Map());
+  useEffect(() => {
+    let cancelled = false;
+    fetchRoomHud(snapshot.roomId)
+      .then((result) => {
+        if (!cancelled) {
+          setHud(new Map(result.players.map((entry) => [entry.playerId, entry])));
+        }
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [snapshot.roomId, completedHands]);
+
   const visibleEvents = useMemo(() => events.slice(0, timelineIndex + 1), [events, timelineIndex]);
   const summaryPlayers = snapshot.summary?.players ?? [];
   const gameState = useMemo(
@@ -487,6 +516,7 @@ export function PokerTable({ snapshot, events }: PokerTableProps) {
             const playerAction = seat.player ? gameState.playerActions.get(seat.player.displayName) : undefined;
             const recentAction =
               playerAction && Date.now() - new Date(playerAction.timestamp).getTime() < 10000 ? playerAction : null;
+            const seatHud = seat.player ? hud.get(seat.player.playerId) : undefined;
             return (
               <div
                 key={`table-seat-${seat.seatNumber}-${index}`}
@@ -515,6 +545,19 @@ export function PokerTable({ snapshot, events }: PokerTableProps) {
                   </div>
                 )}
                 {recentAction && <div className="table-seat-action">{recentAction.action}</div>}
+                {seatHud && seatHud.room.hands > 0 && (
+                  <div
+                    className="table-seat-hud"
+                    title={
+                      seatHud.lifetime
+                        ? `Lifetime (${seatHud.lifetime.hands} hands): ${describeHud(seatHud.lifetime)}`
+                        : undefined
+                    }
+                  >
+                    <span>{seatHud.room.hands} hands</span>
+                    <span>{describeHud(seatHud.room)}</span>
+                  </div>
+                )}
               </div>
             );
           })}
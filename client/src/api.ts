@@ -1,6 +1,42 @@
-import type { CreateRoomPayload, LobbyState, RegisterPayload, RoomSnapshot } from './types';
+import type {
+  CreateRoomPayload,
+  HandRecord,
+  HandSummary,
+  LobbyState,
+  PayoutKind,
+  RegisterPayload,
+  RoomEvent,
+  RoomEventPage,
+  RoomHud,
+  RoomSnapshot,
+  RoomStateSummary,
+} from './types';
 
 const BASE_URL = import.meta.env.VITE_CASINO_URL ?? 'http://localhost:4000';
+const HISTORY_PAGE_SIZE = 200;
+const API_KEY_STORAGE_KEY = 'casino-api-key';
+
+let apiKey = localStorage.getItem(API_KEY_STORAGE_KEY) ?? import.meta.env.VITE_CASINO_API_KEY ?? '';
+
+export const getApiKey = () => apiKey;
+
+export const setApiKey = (value: string) => {
+  apiKey = value.trim();
+  if (apiKey) {
+    localStorage.setItem(API_KEY_STORAGE_KEY, apiKey);
+  } else {
+    localStorage.removeItem(API_KEY_STORAGE_KEY);
+  }
+};
+
+const apiFetch = (url: string, init: RequestInit = {}) => {
+  if (!apiKey) {
+    return fetch(url, init);
+  }
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${apiKey}`);
+  return fetch(url, { ...init, headers });
+};
 
 export class ApiError extends Error {
   status: number;
@@ -46,16 +82,56 @@ const toJson = async (response: Response) => {
 };
 
 export const fetchLobbyState = async (): Promise<LobbyState> => {
-  const res = await fetch(`${BASE_URL}/ui/rooms`);
+  const res = await apiFetch(`${BASE_URL}/ui/rooms`);
   return toJson(res);
 };
 
 export const fetchRoomSnapshot = async (roomId: string): Promise<RoomSnapshot> => {
-  const res = await fetch(`${BASE_URL}/ui/rooms/${encodeURIComponent(roomId)}`);
+  const res = await apiFetch(`${BASE_URL}/ui/rooms/${encodeURIComponent(roomId)}`);
   const data = await toJson(res);
   return data.room;
 };
 
+type RoomEventsQuery = {
+  after?: number;
+  before?: number;
+  limit?: number;
+  types?: RoomEvent['eventType'][];
+};
+
+export const fetchRoomEvents = async (roomId: string, query: RoomEventsQuery = {}): Promise<RoomEventPage> => {
+  const params = new URLSearchParams();
+  if (query.after !== undefined) params.set('after', String(query.after));
+  if (query.before !== undefined) params.set('before', String(query.before));
+  if (query.limit !== undefined) params.set('limit', String(query.limit));
+  if (query.types && query.types.length > 0) params.set('types', query.types.join(','));
+  const search = params.toString();
+  const res = await apiFetch(`${BASE_URL}/ui/rooms/${encodeURIComponent(roomId)}/events${search ? `?${search}` : ''}`);
+  const data = await toJson(res);
+  return { events: data.events, nextCursor: data.nextCursor, hasMore: data.hasMore };
+};
+
+export const fetchEarlierRoomEvents = (roomId: string, beforeSequence: number): Promise<RoomEventPage> =>
+  fetchRoomEvents(roomId, { before: beforeSequence, limit: HISTORY_PAGE_SIZE });
+
+export const fetchRoomHud = async (roomId: string): Promise<RoomHud> => {
+  const res = await apiFetch(`${BASE_URL}/ui/rooms/${encodeURIComponent(roomId)}/hud`);
+  const data = await toJson(res);
+  return data.hud;
+};
+
+export const fetchRoomHands = async (roomId: string): Promise<HandSummary[]> => {
+  const res = await apiFetch(`${BASE_URL}/ui/rooms/${encodeURIComponent(roomId)}/hands`);
+  const data = await toJson(res);
+  return data.hands;
+};
+
+export const fetchHandRecord = async (roomId: string, handNumber: number): Promise<HandRecord> => {
+  const res = await apiFetch(`${BASE_URL}/ui/rooms/${encodeURIComponent(roomId)}/hands/${handNumber}`);
+  const data = await toJson(res);
+  return data.hand;
+};
+
 export const createRoom = async (input: CreateRoomPayload) => {
   const body: Record<string, unknown> = {
     roomId: input.roomId || undefined,
@@ -66,7 +142,7 @@ export const createRoom = async (input: CreateRoomPayload) => {
     body.roomAgentCardUrl = input.roomAgentCardUrl;
   }
 
-  const res = await fetch(`${BASE_URL}/ui/rooms`, {
+  const res = await apiFetch(`${BASE_URL}/ui/rooms`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(body),
@@ -75,6 +151,102 @@ export const createRoom = async (input: CreateRoomPayload) => {
   return data.room;
 };
 
+export const startRoom = async (roomId: string): Promise<{ summary: RoomStateSummary; sessionId?: string }> => {
+  const res = await apiFetch(`${BASE_URL}/ui/rooms/${encodeURIComponent(roomId)}/start`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({}),
+  });
+  const data = await toJson(res);
+  return { summary: data.summary, sessionId: data.sessionId };
+};
+
+export const cancelRoom = async (roomId: string, reason?: string): Promise<RoomSnapshot> => {
+  const res = await apiFetch(`${BASE_URL}/ui/rooms/${encodeURIComponent(roomId)}/cancel`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(reason ? { reason } : {}),
+  });
+  const data = await toJson(res);
+  return data.room;
+};
+
+export const cashOutPlayer = async (roomId: string, playerId: string): Promise<RoomSnapshot> => {
+  const res = await apiFetch(
+    `${BASE_URL}/ui/rooms/${encodeURIComponent(roomId)}/players/${encodeURIComponent(playerId)}/cash-out`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({}),
+    },
+  );
+  const data = await toJson(res);
+  return data.room;
+};
+
+const postPayoutAction = async (
+  roomId: string,
+  playerId: string,
+  kind: PayoutKind,
+  action: 'retry' | 'abandon',
+): Promise<RoomSnapshot> => {
+  const res = await apiFetch(
+    `${BASE_URL}/ui/rooms/${encodeURIComponent(roomId)}/payouts/${encodeURIComponent(playerId)}/${action}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ kind }),
+    },
+  );
+  const data = await toJson(res);
+  return data.room;
+};
+
+export const retryPayout = (roomId: string, playerId: string, kind: PayoutKind): Promise<RoomSnapshot> =>
+  postPayoutAction(roomId, playerId, kind, 'retry');
+
+export const abandonPayout = (roomId: string, playerId: string, kind: PayoutKind): Promise<RoomSnapshot> =>
+  postPayoutAction(roomId, playerId, kind, 'abandon');
+
+type EventStreamHandlers = {
+  onEvent: (event: RoomEvent) => void;
+  onStatusChange?: (connected: boolean) => void;
+};
+
+const openEventStream = (path: string, handlers: EventStreamHandlers, lastEventId?: number) => {
+  if (typeof EventSource === 'undefined') {
+    handlers.onStatusChange?.(false);
+    return () => undefined;
+  }
+  const params = new URLSearchParams();
+  if (lastEventId) {
+    params.set('lastEventId', String(lastEventId));
+  }
+  if (apiKey) {
+    params.set('apiKey', apiKey);
+  }
+  const query = params.size > 0 ? `?${params}` : '';
+  const source = new EventSource(`${BASE_URL}${path}${query}`);
+  source.addEventListener('ready', () => handlers.onStatusChange?.(true));
+  source.addEventListener('room_event', (message) => {
+    try {
+      handlers.onEvent(JSON.parse((message as MessageEvent<string>).data));
+    } catch (error) {
+      console.error('Failed to parse room event:', error);
+    }
+  });
+  source.onerror = () => handlers.onStatusChange?.(false);
+  return () => {
+    source.close();
+    handlers.onStatusChange?.(false);
+  };
+};
+
+export const subscribeLobbyEvents = (handlers: EventStreamHandlers) => openEventStream('/ui/events/stream', handlers);
+
+export const subscribeRoomEvents = (roomId: string, handlers: EventStreamHandlers, options?: { lastEventId?: number }) =>
+  openEventStream(`/ui/rooms/${encodeURIComponent(roomId)}/events/stream`, handlers, options?.lastEventId);
+
 type RegisterOptions = {
   paymentHeader?: string;
 };
@@ -85,7 +257,7 @@ export const registerPlayer = async (roomId: string, input: RegisterPayload, opt
     headers['X-PAYMENT'] = options.paymentHeader;
     headers['Access-Control-Expose-Headers'] = 'X-PAYMENT-RESPONSE';
   }
-  const res = await fetch(`${BASE_URL}/ui/rooms/${encodeURIComponent(roomId)}/register`, {
+  const res = await apiFetch(`${BASE_URL}/ui/rooms/${encodeURIComponent(roomId)}/register`, {
     method: 'POST',
     headers,
     body: JSON.stringify(input),
@@ -1,17 +1,30 @@
+export type RoomStatus = 'waiting' | 'running' | 'idle' | 'error' | 'ended' | 'cancelled';
+
 export type PlayerSeat = {
   playerId: string;
   seatNumber: number;
   displayName: string;
   stack: number;
   payoutAddress?: string;
+  timeBankMs?: number;
+  sittingOut?: boolean;
 };
 
 export type RoomStateSummary = {
   roomId: string;
-  status: 'waiting' | 'running' | 'idle' | 'error' | 'ended';
+  status: RoomStatus;
   players: PlayerSeat[];
   handCount: number;
   message?: string;
+  session?: RoomSession;
+};
+
+export type RoomSession = {
+  sessionId: string;
+  status: 'running' | 'completed' | 'failed';
+  startedAt: string;
+  finishedAt?: string;
+  error?: string;
 };
 
 export type RoomConfig = Record<string, number | string>;
@@ -31,6 +44,7 @@ export type RoomEvent = {
   message: string;
   timestamp: string;
   payload?: Record<string, unknown>;
+  sequence?: number;
 };
 
 export type RoomSummary = {
@@ -38,7 +52,7 @@ export type RoomSummary = {
   gameType: string;
   roomAgentCardUrl: string;
   roomBaseUrl?: string;
-  status: 'waiting' | 'running' | 'idle' | 'error' | 'ended';
+  status: RoomStatus;
   handCount: number;
   playerCount: number;
   message?: string;
@@ -52,6 +66,146 @@ export type RoomSnapshot = {
   roomAgentCardUrl: string;
   roomBaseUrl?: string;
   events: RoomEvent[];
+  eventCursor: number;
+  hasEarlierEvents: boolean;
+  cancellation?: RoomCancellation;
+  refunds: PlayerRefund[];
+  payouts: RoomPayout[];
+  accounting: RoomAccounting;
+};
+
+export type RoomAccounting = {
+  grossBuyInsAtomic: string;
+  rakeAtomic: string;
+  dpsFeesAtomic: string;
+  netPrizePoolAtomic: string;
+  cashOutsAtomic: string;
+  houseGameResultAtomic: string;
+  houseMarginAtomic: string;
+};
+
+export type RoomCancellation = {
+  reason: string;
+  cancelledAt: string;
+};
+
+export type PlayerRefund = {
+  playerId: string;
+  payoutAddress: string;
+  amountAtomic: string;
+  status: 'refunded' | 'pending' | 'failed';
+  reason: string;
+  error?: string;
+  updatedAt: string;
+};
+
+export type PayoutJobStatus = 'pending' | 'submitted' | 'settled' | 'failed' | 'abandoned';
+
+export type PayoutKind = 'prize' | 'cash_out' | 'refund';
+
+export type RoomPayout = {
+  idempotencyKey: string;
+  kind: PayoutKind;
+  playerId: string;
+  place?: number;
+  payoutAddress: string;
+  amountAtomic: string;
+  status: PayoutJobStatus;
+  attempts: number;
+  nextAttemptAt?: string;
+  lastError?: string;
+  transaction?: string;
+  updatedAt: string;
+};
+
+export type RoomEventPage = {
+  events: RoomEvent[];
+  nextCursor: number;
+  hasMore: boolean;
+};
+
+export type HudStats = {
+  hands: number;
+  vpip: number | null;
+  pfr: number | null;
+  aggressionFactor: number | null;
+  threeBet: number | null;
+  foldToCbet: number | null;
+  wentToShowdown: number | null;
+  wonAtShowdown: number | null;
+};
+
+export type RoomHudEntry = {
+  playerId: string;
+  displayName: string;
+  registryId?: string;
+  room: HudStats;
+  lifetime?: HudStats;
+};
+
+export type RoomHud = {
+  roomId: string;
+  gameType: string;
+  players: RoomHudEntry[];
+};
+
+export type HandAction = {
+  street: 'preflop' | 'flop' | 'turn' | 'river';
+  playerId: string;
+  seatNumber: number;
+  action: 'fold' | 'check' | 'call' | 'bet' | 'raise';
+  amount?: number;
+  totalBet: number;
+  allIn: boolean;
+  pot: number;
+  stack: number;
+  autoAction?: string;
+  timestamp: string;
+};
+
+export type HandSeat = {
+  seatNumber: number;
+  playerId: string;
+  displayName: string;
+  startingStack: number;
+  endingStack: number;
+  holeCards: string[];
+};
+
+export type HandWinner = {
+  playerId: string;
+  amount: number;
+  description?: string;
+};
+
+export type HandRecord = {
+  roomId: string;
+  handNumber: number;
+  sessionId?: string;
+  startedAt: string;
+  completedAt: string;
+  smallBlind: number;
+  bigBlind: number;
+  maxPlayers: number;
+  buttonSeat: number;
+  seats: HandSeat[];
+  blinds: { type: 'small' | 'big'; playerId: string; seatNumber: number; amount: number }[];
+  actions: HandAction[];
+  board: string[];
+  pots: { amount: number; eligiblePlayerIds: string[]; winners: { playerId: string; amount: number }[] }[];
+  showdown: { playerId: string; cards: string[]; description?: string }[];
+  winners: HandWinner[];
+};
+
+export type HandSummary = {
+  handNumber: number;
+  sessionId?: string;
+  startedAt: string;
+  completedAt: string;
+  board: string[];
+  winners: HandWinner[];
+  pot: number;
+  playerCount: number;
 };
 
 export type GameConfigField = {
@@ -69,6 +223,7 @@ export type LobbyGame = {
   label: string;
   description: string;
   supportsRegistration: boolean;
+  settlement: 'prize_pool' | 'cash_out';
   configFields: GameConfigField[];
   defaultConfig: RoomConfig;
 };